@@ -1,68 +1,327 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import ParticleScene from './components/ParticleScene';
-import { AppStage, HandState } from './types';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import ParticleScene, { ParticleStats, SceneCapture } from './components/ParticleScene';
+import BudgetPanel from './components/BudgetPanel';
+import SchedulePanel from './components/SchedulePanel';
+import ShowScriptPanel from './components/ShowScriptPanel';
+import ShapePanel from './components/ShapePanel';
+import GestureTuning from './components/GestureTuning';
+import AudioPanel from './components/AudioPanel';
+import RemotePanel from './components/RemotePanel';
+import RecordingPanel from './components/RecordingPanel';
+import SessionPanel from './components/SessionPanel';
+import HandFieldPanel from './components/HandFieldPanel';
+import AccessibilityPanel from './components/AccessibilityPanel';
+import VoicePanel from './components/VoicePanel';
+import NarrationPanel from './components/NarrationPanel';
+import { HandState, HandPosition, ShowScript, ShowStage, GestureAction, VoiceCommand } from './types';
 import { GeminiService } from './services/geminiService';
+import { LocalGestureSensor } from './services/localGestureSensor';
+import { MockGestureSensor } from './services/mockGestureSensor';
+import { FramePipeline, FramePipelineStats, FrameRect, FULL_FRAME } from './services/framePipeline';
+import { AudioEngine, AudioSettings, DEFAULT_AUDIO_SETTINGS } from './services/audioEngine';
+import { SessionRecorder, SessionLog, ActionSource, serializeSessionLog } from './services/sessionLog';
+import { ReplayGestureSensor } from './services/replayGestureSensor';
+import { MicrophoneStream } from './services/microphoneStream';
+import {
+  StageController,
+  StageState,
+  StageEvent,
+  createStageState,
+  getCurrentStage,
+  getLeadDurations
+} from './services/stageController';
+import {
+  ShowSync,
+  SyncMessage,
+  SyncSender,
+  SyncedShowState,
+  RelayStatus,
+  REMOTE_ACTIONS
+} from './services/showSync';
+import { RemotePairing } from './services/remotePairing';
+import {
+  GestureSensor,
+  GestureSensorCallbacks,
+  SensorStatus,
+  SensorType,
+  SENSOR_TYPES
+} from './services/gestureSensor';
+import {
+  GestureInterpreter,
+  GestureStatus,
+  GestureThresholds,
+  DEFAULT_GESTURE_THRESHOLDS,
+  POSE_ICONS
+} from './services/gestureInterpreter';
+import {
+  getLocalTimeZone,
+  getNextNewYear,
+  getMsToNextChange,
+  getYearAt,
+  formatRemaining
+} from './utils/countdownClock';
+import { DEFAULT_SHOW } from './utils/showScript';
+import { ParticleBudget, DEFAULT_PARTICLE_BUDGET } from './utils/particleBudget';
+import { HandFieldSettings, DEFAULT_HAND_FIELD, uncropHandPosition } from './utils/handField';
+import { AccessibilitySettings, getPreferredAccessibility, getStageAnnouncement } from './utils/accessibility';
+import { ShortcutKeyEvent, getShortcut } from './utils/shortcuts';
+import { VoiceSettings, DEFAULT_VOICE_SETTINGS, VOICE_COMMAND_ACTIONS, TranscriptLine } from './utils/voiceCommands';
+import { NarrationSettings, DEFAULT_NARRATION, getStageNarration, buildNarrationRequest } from './utils/narration';
+import { base64ToPcm16, pcm16ToFloat, getPcmRate } from './utils/pcm';
+import { ViewMode, getRelayUrl, getRelayKey, getViewUrl } from './utils/viewMode';
+import { downloadBlob, fileTimestamp } from './utils/download';
+import {
+  Locale,
+  LOCALES,
+  LOCALE_CODES,
+  isLocale,
+  getPreferredLocale,
+  localizeDigits,
+  localizeStage,
+  createTranslator
+} from './utils/i18n';
 
-const STAGE_ORDER = [
-  AppStage.TREE,
-  AppStage.COUNTDOWN_5,
-  AppStage.COUNTDOWN_4,
-  AppStage.COUNTDOWN_3,
-  AppStage.COUNTDOWN_2,
-  AppStage.COUNTDOWN_1,
-  AppStage.HAPPY_NEW_YEAR
-];
-
-const App: React.FC = () => {
-  const [currentStageIndex, setCurrentStageIndex] = useState(0);
-  const [handState, setHandState] = useState<HandState>(HandState.UNKNOWN);
-  const [prevHandState, setPrevHandState] = useState<HandState>(HandState.UNKNOWN);
-  const [isConnected, setIsConnected] = useState(false);
+interface AppProps {
+  mode?: ViewMode;
+}
+
+const App: React.FC<AppProps> = ({ mode = 'combined' }) => {
+  // A display mirrors whichever controller is running; it never drives the show itself
+  const isDisplay = mode === 'display';
+  const showScene = mode !== 'control';
+  const showPanel = mode !== 'display';
+
+  // Stage, pause and clock state belong to the stage controller; this copy re-renders on its changes
+  const [show, setShow] = useState<StageState>(() => {
+    const timeZone = getLocalTimeZone();
+    return createStageState(DEFAULT_SHOW, { status: 'OFF', timeZone, targetTime: getNextNewYear(timeZone) });
+  });
+  const { script, stageIndex: currentStageIndex, handState, isPaused, schedule, fireworks: fireworksSignal } = show;
+  const [gestureStatus, setGestureStatus] = useState<GestureStatus>(() => ({
+    phase: 'IDLE', closedCount: 0, pose: null, lastAction: null, cooldownUntil: null
+  }));
+  const [gestureThresholds, setGestureThresholds] = useState<GestureThresholds>(DEFAULT_GESTURE_THRESHOLDS);
+  const [sensorStatus, setSensorStatus] = useState<SensorStatus>('disconnected');
+  const [handPosition, setHandPosition] = useState<HandPosition | null>(null);
+  const [handField, setHandField] = useState<HandFieldSettings>(DEFAULT_HAND_FIELD);
+  const [accessibility, setAccessibility] = useState<AccessibilitySettings>(getPreferredAccessibility);
+  const [isPanelHidden, setIsPanelHidden] = useState(false); // H in a single window, for a clean view
+  const [voice, setVoice] = useState<VoiceSettings>(DEFAULT_VOICE_SETTINGS);
+  const [isTalking, setIsTalking] = useState(false); // Push-to-talk button held
+  const [transcript, setTranscript] = useState('');
+  const [lastVoiceCommand, setLastVoiceCommand] = useState<VoiceCommand | null>(null);
+  const [narration, setNarration] = useState<NarrationSettings>(DEFAULT_NARRATION);
   const [error, setError] = useState<string | null>(null);
   const [videoStream, setVideoStream] = useState<MediaStream | null>(null);
   const [isProcessing, setIsProcessing] = useState(false); // Visual indicator for frame sending
+  const [frameStats, setFrameStats] = useState<FramePipelineStats | null>(null);
+  const [sensorType, setSensorType] = useState<SensorType>('gemini');
+  const [remainingMs, setRemainingMs] = useState(() => schedule.targetTime - Date.now());
+  const [particleBudget, setParticleBudget] = useState<ParticleBudget>(DEFAULT_PARTICLE_BUDGET);
+  const [particleStats, setParticleStats] = useState<ParticleStats | null>(null);
+  const [sceneCapture, setSceneCapture] = useState<SceneCapture | null>(null);
+  const [isSessionRecording, setIsSessionRecording] = useState(false);
+  const [sessionFrames, setSessionFrames] = useState(false); // Include sent frames in the next log
+  const [replayLog, setReplayLog] = useState<SessionLog | null>(null);
+  const [replaySpeed, setReplaySpeed] = useState(1);
+  const [audioSettings, setAudioSettings] = useState<AudioSettings>(DEFAULT_AUDIO_SETTINGS);
+  const [audioUnlocked, setAudioUnlocked] = useState(false);
+  const [syncedLabel, setSyncedLabel] = useState<string | null>(null); // Controller's clock readout, on displays
+  const [syncedYear, setSyncedYear] = useState<number | null>(null);
+  const [locale, setLocale] = useState<Locale>(() => getPreferredLocale());
+  const [relayStatus, setRelayStatus] = useState<RelayStatus>('off');
+  const [pairing] = useState(() => new RemotePairing(window.sessionStorage));
   
   const videoRef = useRef<HTMLVideoElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const geminiServiceRef = useRef<GeminiService | null>(null);
-  const frameIntervalRef = useRef<number | null>(null);
+  const sensorRef = useRef<GestureSensor | null>(null);
+  const pipelineRef = useRef<FramePipeline | null>(null);
+  // Crop of the last frame sent. Reports answer about one frame behind at most, so positions are mapped with it
+  const sentCropRef = useRef<FrameRect>(FULL_FRAME);
+  // Sensors outlive renders too; spoken commands reach the show through a ref like gestures do
+  const voiceCommandRef = useRef<(command: VoiceCommand) => void>(() => {});
+  // Remote, panel and keyboard actions replayed from a session log
+  const replayedActionRef = useRef<(action: GestureAction, source: ActionSource) => void>(() => {});
+  // The interpreter outlives renders, so it calls back through a ref that always sees current state
+  const gestureActionRef = useRef<(action: GestureAction) => void>(() => {});
+  const interpreterRef = useRef<GestureInterpreter | null>(null);
+  if (!interpreterRef.current) {
+    interpreterRef.current = new GestureInterpreter({
+      onAction: (action) => gestureActionRef.current(action),
+      onStatusChange: setGestureStatus,
+    }, DEFAULT_GESTURE_THRESHOLDS);
+  }
+  const interpreter = interpreterRef.current;
+  const audioRef = useRef<AudioEngine | null>(null);
+  if (!audioRef.current) audioRef.current = new AudioEngine(DEFAULT_AUDIO_SETTINGS);
+  const audio = audioRef.current;
+  const lastSoundedStageRef = useRef(currentStageIndex);
+  const lastNarratedStageRef = useRef(currentStageIndex);
+  // Off after a reset, a new script or narration being switched; on again once a new line is requested.
+  // The model keeps streaming the rest of a turn we cut off, and that speech is dropped meanwhile
+  const speechWantedRef = useRef(false);
+  const syncRef = useRef<ShowSync | null>(null);
+  const syncMessageRef = useRef<(message: SyncMessage, sender: SyncSender) => void>(() => {});
+  const keyDownRef = useRef<(event: ShortcutKeyEvent) => void>(() => {});
+  const transcriptRef = useRef(new TranscriptLine());
+  // Read by the microphone callback: whether its chunks go to the sensor right now
+  const micOpenRef = useRef(false);
+  const sessionRef = useRef<SessionRecorder | null>(null);
+  if (!sessionRef.current) sessionRef.current = new SessionRecorder();
+  const session = sessionRef.current;
+  const lastLoggedStageRef = useRef(currentStageIndex);
+  const controllerRef = useRef<StageController | null>(null);
+  if (!controllerRef.current) {
+    controllerRef.current = new StageController(show, {
+      onChange: setShow,
+      // Displays get their salvos from the controller, so only controllers pass them on
+      onFireworks: () => {
+        if (!isDisplay) syncRef.current?.send({ type: 'fireworks' });
+      },
+      onRestart: () => interpreter.reset(),
+    });
+  }
+  const controller = controllerRef.current;
+  const dispatch = (event: StageEvent) => controller.dispatch(event);
 
-  // Initialize Gemini Service
-  const initGemini = useCallback(async () => {
-    try {
-      // Use type assertion to avoid conflicts with global types
-      const aistudio = (window as any).aistudio;
-      if (aistudio) {
-          const hasKey = await aistudio.hasSelectedApiKey();
-          if (!hasKey) {
-             await aistudio.openSelectKey();
-          }
+  // Frames only flow while the link is live; a reconnect pauses the loop until it's back
+  const isConnected = sensorStatus === 'live';
+  const isReplaying = isConnected && sensorType === 'replay';
+  const canInitialize = sensorStatus === 'disconnected' || sensorStatus === 'failed';
+
+  const stages = script.stages;
+  const currentStage = getCurrentStage(show);
+  const leadDurations = useMemo(() => getLeadDurations(script), [script]);
+
+  // The year being counted into comes from the target date (displays take the controller's)
+  const t = useMemo(() => createTranslator(locale), [locale]);
+  const { dir } = LOCALES[locale];
+  const year = isDisplay && syncedYear !== null ? syncedYear : getYearAt(schedule.targetTime, schedule.timeZone);
+  const displayStage = useMemo(() => localizeStage(currentStage, { locale, year }), [currentStage, locale, year]);
+
+  // Builds the selected sensor. Returns null if it can't be created (error already set)
+  const createSensor = async (type: SensorType, callbacks: GestureSensorCallbacks): Promise<GestureSensor | null> => {
+    switch (type) {
+      case 'local':
+        return new LocalGestureSensor(callbacks);
+      case 'mock':
+        return new MockGestureSensor(callbacks);
+      case 'replay': {
+        if (!replayLog) {
+          setError(t('error.noReplayLog'));
+          return null;
+        }
+        // Start from where the recording did, with the same show and tuning
+        setGestureThresholds(replayLog.thresholds);
+        interpreter.configure(replayLog.thresholds);
+        dispatch({ type: 'LOAD_SCRIPT', script: replayLog.script, stageIndex: replayLog.stageIndex });
+        return new ReplayGestureSensor(callbacks, replayLog, { speed: replaySpeed });
       }
-      
-      const apiKey = process.env.API_KEY || '';
-      
-      if (!apiKey) {
-        setError("API Key not found. Please ensure it is set in the environment.");
-        return;
+      case 'gemini':
+      default: {
+        // Use type assertion to avoid conflicts with global types
+        const aistudio = (window as any).aistudio;
+        if (aistudio) {
+            const hasKey = await aistudio.hasSelectedApiKey();
+            if (!hasKey) {
+               await aistudio.openSelectKey();
+            }
+        }
+
+        // GEMINI_LIVE_URL points at a stand-in Live server (npm run live:stub), which takes any key
+        const baseUrl = process.env.GEMINI_LIVE_URL || undefined;
+        const apiKey = process.env.API_KEY || (baseUrl ? 'stub' : '');
+
+        if (!apiKey) {
+          setError(t('error.noApiKey'));
+          return null;
+        }
+        return new GeminiService(apiKey, callbacks, { baseUrl, narration: narration.enabled });
       }
+    }
+  };
+
+  // Gesture timing follows the sensor's clock, which for a replay is the log's
+  const sensorNow = () => sensorRef.current?.now?.() ?? Date.now();
+
+  // Browsers only start audio from a user gesture; call synchronously from click handlers
+  const unlockAudio = () => {
+    audio.unlock();
+    setAudioUnlocked(true);
+  };
 
+  // Initialize the selected gesture sensor
+  const initSensor = useCallback(async () => {
+    unlockAudio();
+    try {
       setError(null);
-      const service = new GeminiService(apiKey, {
-        onHandStateChange: (state) => {
-            setHandState(state);
+      // Retrying after a failure: drop the dead sensor first
+      sensorRef.current?.disconnect();
+      sensorRef.current = null;
+      const sensor = await createSensor(sensorType, {
+        onHandStateChange: (state, confidence) => {
+            session.record({ type: 'hand', state, ...(confidence !== undefined ? { confidence } : {}) });
+            dispatch({ type: 'HAND_STATE', state });
+            interpreter.report(state, confidence, sensorNow());
+            pipelineRef.current?.notifyReport();
+        },
+        onHandPosition: (reported) => {
+            const position = reported && uncropHandPosition(reported, sentCropRef.current);
+            session.record({ type: 'position', position });
+            setHandPosition(position);
+        },
+        onVoiceCommand: (command) => {
+            session.record({ type: 'voice', command });
+            setLastVoiceCommand(command);
+            voiceCommandRef.current(command);
+        },
+        onAction: (action, source) => replayedActionRef.current(action, source),
+        onTranscript: (text) => setTranscript(transcriptRef.current.append(text, Date.now())),
+        onSpeech: (data, mimeType) => {
+            if (speechWantedRef.current) audio.narrate(pcm16ToFloat(base64ToPcm16(data)), getPcmRate(mimeType));
+        },
+        onSpeechInterrupted: () => audio.interruptNarration(),
+        onStatusChange: (status) => {
+            session.record({ type: 'status', status });
+            setSensorStatus(status);
+            // A dropped link leaves no hand to follow
+            if (status !== 'live') setHandPosition(null);
         },
-        onStatusChange: (connected) => setIsConnected(connected),
-        onError: (err) => setError(err)
+        onError: (err) => {
+            session.record({ type: 'error', message: err });
+            setError(err);
+        }
       });
-      
-      geminiServiceRef.current = service;
-      await service.connect();
-      startVideo();
+      if (!sensor) return;
+
+      sensorRef.current = sensor;
+      await sensor.connect();
+      if (sensor.frameKind !== null && !videoStream) startVideo();
     } catch (e) {
       console.error(e);
-      setError("Failed to initialize AI. Check console.");
+      setError(t('error.sensorInit'));
     }
-  }, []);
+  }, [sensorType, videoStream, replayLog, replaySpeed, narration.enabled, t]);
+
+  // The model's instructions are fixed for a session, so switching narration reconnects a Gemini link that's up
+  const narrationConnectedRef = useRef(narration.enabled);
+  useEffect(() => {
+    if (narrationConnectedRef.current === narration.enabled) return;
+    narrationConnectedRef.current = narration.enabled;
+    if (sensorType === 'gemini' && (sensorStatus === 'live' || sensorStatus === 'reconnecting')) initSensor();
+  }, [narration.enabled, sensorType, sensorStatus, initSensor]);
+
+  // Switching sensors drops the current link; the user re-initializes
+  const handleSensorChange = (type: SensorType) => {
+    if (sensorRef.current) {
+      sensorRef.current.disconnect();
+      sensorRef.current = null;
+    }
+    setSensorStatus('disconnected');
+    dispatch({ type: 'HAND_STATE', state: HandState.UNKNOWN });
+    setHandPosition(null);
+    interpreter.reset();
+    setSensorType(type);
+  };
 
   // Setup Webcam
   const startVideo = async () => {
@@ -80,71 +339,398 @@ const App: React.FC = () => {
         videoRef.current.play();
       }
     } catch (err) {
-      setError("Camera access denied or unavailable.");
+      setError(t('error.camera'));
     }
   };
 
-  // Frame processing loop
+  // Camera -> sensor. The pipeline only runs while the link is live
   useEffect(() => {
-    if (isConnected && videoRef.current && canvasRef.current && geminiServiceRef.current) {
-      const ctx = canvasRef.current.getContext('2d');
-      const video = videoRef.current;
+    const sensor = sensorRef.current;
+    if (!isConnected || !videoRef.current || !sensor || sensor.frameKind === null) return;
 
-      frameIntervalRef.current = window.setInterval(async () => {
-        if (video.readyState === 4 && ctx) {
-          setIsProcessing(true); // Blink indicator
-          
-          canvasRef.current!.width = video.videoWidth;
-          canvasRef.current!.height = video.videoHeight;
-          ctx.drawImage(video, 0, 0);
-          
-          // Send frame. Using 0.6 quality for speed
-          const base64 = canvasRef.current!.toDataURL('image/jpeg', 0.6).split(',')[1];
-          await geminiServiceRef.current!.sendFrame(base64);
-          
-          setTimeout(() => setIsProcessing(false), 50);
-        }
-      }, 150); // 150ms interval ~ 6-7 FPS, optimal for this model latency balance
-    }
+    const pipeline = new FramePipeline(videoRef.current, sensor, {
+      onFrameSent: (frame, crop) => {
+        sentCropRef.current = crop;
+        session.recordFrame(frame);
+        setIsProcessing(true); // Blink indicator
+        setTimeout(() => setIsProcessing(false), 50);
+      },
+      onStats: setFrameStats,
+    });
+    pipelineRef.current = pipeline;
+    pipeline.start();
 
     return () => {
-      if (frameIntervalRef.current !== null) clearInterval(frameIntervalRef.current);
+      pipeline.stop();
+      pipelineRef.current = null;
+      sentCropRef.current = FULL_FRAME;
+      setFrameStats(null);
     };
   }, [isConnected]);
 
-  // Logic to switch stages based on gesture
+  // Debounced gestures -> stage actions
+  gestureActionRef.current = (action) => {
+    session.record({ type: 'action', action, source: 'gesture' });
+    dispatch({ type: 'GESTURE', action });
+  };
+
+  // Spoken commands follow the same rules as the gestures they stand in for
+  voiceCommandRef.current = (command) => {
+    const action = VOICE_COMMAND_ACTIONS[command];
+    session.record({ type: 'action', action, source: 'voice' });
+    dispatch({ type: 'GESTURE', action });
+  };
+
+  // Microphone -> sensor, while voice is on and the link is live. Push-to-talk only sends while the button is held
+  const canListen = voice.enabled && isConnected && !!sensorRef.current?.sendAudio;
+  const isListening = canListen && (!voice.pushToTalk || isTalking);
+  micOpenRef.current = isListening;
+
   useEffect(() => {
-    // Trigger on OPEN -> CLOSED transition
-    // Simplified: If currently CLOSED and previously was OPEN (or just a change to CLOSED if reliable)
-    // We stick to the request: Open -> Closed transition
-    if (prevHandState === HandState.OPEN && handState === HandState.CLOSED) {
-      handleNextStage();
+    if (!canListen) return;
+    const microphone = new MicrophoneStream({
+      onChunk: (data) => {
+        if (micOpenRef.current) sensorRef.current?.sendAudio?.(data);
+      },
+    });
+    microphone.start().catch((e) => {
+      console.error(e);
+      setError(t('error.microphone'));
+      setVoice((current) => ({ ...current, enabled: false }));
+    });
+    return () => microphone.stop();
+  }, [canListen]);
+
+  // Tell the sensor the speaker stopped, so it doesn't wait for the rest of a sentence
+  useEffect(() => {
+    if (!isListening) return;
+    return () => {
+      sensorRef.current?.endAudio?.();
+    };
+  }, [isListening]);
+
+  useEffect(() => {
+    if (!voice.enabled) {
+      transcriptRef.current.clear();
+      setTranscript('');
+      setLastVoiceCommand(null);
     }
-    setPrevHandState(handState);
-  }, [handState]);
+  }, [voice.enabled]);
 
-  const handleNextStage = () => {
-    setCurrentStageIndex((prev) => Math.min(prev + 1, STAGE_ORDER.length - 1));
+  // Actions that mean the same whoever asks: buttons, keys, the phone remote. Logged so replays can repeat them
+  const runAction = (action: GestureAction, source: ActionSource) => {
+    session.record({ type: 'action', action, source });
+    dispatch({ type: 'ACTION', action });
   };
+  replayedActionRef.current = runAction;
 
-  const handleReset = () => {
-    setCurrentStageIndex(0);
-    setHandState(HandState.UNKNOWN);
-    setPrevHandState(HandState.UNKNOWN);
+  // Keyboard shortcuts. Displays only follow the controller, so there the keys just go fullscreen
+  keyDownRef.current = (event) => {
+    const shortcut = getShortcut(event);
+    if (!shortcut) return;
+    switch (shortcut.type) {
+      case 'action':
+        if (!isDisplay) runAction(shortcut.action, 'keyboard');
+        break;
+      case 'fullscreen':
+        if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+        else document.documentElement.requestFullscreen().catch(() => {});
+        break;
+      case 'togglePanel':
+        // A control-only window would be left empty
+        if (mode === 'combined') setIsPanelHidden((hidden) => !hidden);
+        break;
+    }
   };
 
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => keyDownRef.current(event);
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  useEffect(() => {
+    audio.configure(audioSettings);
+  }, [audio, audioSettings]);
+
+  useEffect(() => () => audio.close(), [audio]);
+
+  // Stage sounds: a tick per countdown stage, a swell into the finale, a cheer when it lands.
+  // Sound comes from the windows showing particles, not from a control-only window
+  useEffect(() => {
+    if (!showScene || lastSoundedStageRef.current === currentStageIndex) return;
+    lastSoundedStageRef.current = currentStageIndex;
+
+    const last = stages.length - 1;
+    if (currentStageIndex > 0 && currentStageIndex < last) audio.tick();
+    if (currentStageIndex === last - 1 && last > 1) audio.swell(currentStage.durationMs);
+    else if (currentStageIndex !== last) audio.cancelSwell();
+    if (currentStageIndex === last && last > 0) audio.celebrate();
+  }, [audio, showScene, currentStageIndex, stages]);
+
+  // A reset or new script starts over, so whatever the narrator still has to say is stale.
+  // Declared before the narrator so the first line after a reset isn't dropped with the old ones
+  useEffect(() => {
+    speechWantedRef.current = false;
+    audio.interruptNarration();
+  }, [audio, show.restarts, narration.enabled]);
+
+  // Narrator: each stage change asks the sensor to speak the stage's line in the show's language.
+  // It plays from the window running the sensor, as that's where the speech arrives
+  useEffect(() => {
+    if (lastNarratedStageRef.current === currentStageIndex) return;
+    lastNarratedStageRef.current = currentStageIndex;
+    if (!narration.enabled || !isConnected) return;
+
+    const line = getStageNarration(currentStage, currentStageIndex === stages.length - 1, narration, { locale, year });
+    if (!line || !sensorRef.current?.narrate) return;
+    speechWantedRef.current = true;
+    sensorRef.current.narrate(buildNarrationRequest(line, locale));
+  }, [currentStageIndex]);
+
+  // Stage transitions go in the session log, whatever caused them
+  useEffect(() => {
+    if (lastLoggedStageRef.current === currentStageIndex) return;
+    lastLoggedStageRef.current = currentStageIndex;
+    session.record({ type: 'stage', index: currentStageIndex, id: currentStage.id });
+  }, [session, currentStageIndex]);
+
+  // Let dwell, cooldown and report timeouts expire even when the sensor is quiet
+  useEffect(() => {
+    const timer = window.setInterval(() => interpreter.tick(sensorNow()), 100);
+    return () => clearInterval(timer);
+  }, [interpreter]);
+
+  useEffect(() => {
+    interpreter.configure(gestureThresholds);
+  }, [interpreter, gestureThresholds]);
+
+  // Timed stages advance on their own (the clock owns the stages while sync is running).
+  // They run on the sensor's clock, so a sped-up replay moves through them at the log's pace
+  useEffect(() => {
+    if (isDisplay || currentStage.advance !== 'timer' || isPaused || schedule.status === 'RUNNING') return;
+    const timer = window.setTimeout(() => {
+      dispatch({ type: 'TIMER_ELAPSED', stageIndex: currentStageIndex });
+    }, currentStage.durationMs / (sensorRef.current?.clockRate ?? 1));
+    return () => clearTimeout(timer);
+  }, [isDisplay, currentStage, currentStageIndex, isPaused, schedule.status, isReplaying]);
+
+  // Clock sync: re-evaluate on each whole second of the remaining time and on
+  // every stage boundary so the countdown lands on the real seconds and the
+  // finale hits zero. A replay has its own time, so the clock stands still until it ends
+  useEffect(() => {
+    if (schedule.status === 'OFF' || isReplaying) return;
+
+    let timer: number | null = null;
+    const tick = () => {
+      const remaining = schedule.targetTime - Date.now();
+      setRemainingMs(remaining);
+      dispatch({ type: 'CLOCK_TICK', remainingMs: remaining });
+      if (remaining > 0) {
+        timer = window.setTimeout(tick, getMsToNextChange(remaining, leadDurations));
+      }
+    };
+    tick();
+
+    return () => {
+      if (timer !== null) clearTimeout(timer);
+    };
+  }, [schedule, leadDurations, isReplaying]);
+
+  const handleAudioChange = (settings: AudioSettings) => {
+    unlockAudio();
+    setAudioSettings(settings);
+  };
+
+  const handleScriptLoad = (next: ShowScript) => {
+    setError(null);
+    dispatch({ type: 'LOAD_SCRIPT', script: next });
+  };
+
+  const handleAddStage = (stage: ShowStage) => dispatch({ type: 'ADD_STAGE', stage });
+
+  // --- Session log ---
+  const handleSessionStart = () => {
+    session.begin(
+      { sensor: sensorType, script, thresholds: gestureThresholds, stageIndex: currentStageIndex },
+      { includeFrames: sessionFrames }
+    );
+    session.record({ type: 'status', status: sensorStatus });
+    setIsSessionRecording(true);
+  };
+
+  const handleSessionStop = () => {
+    const log = session.end();
+    setIsSessionRecording(false);
+    downloadBlob(new Blob([serializeSessionLog(log)], { type: 'application/json' }), `session-${fileTimestamp(new Date())}.json`);
+  };
+
+  // A loaded log is played by the replay sensor
+  const handleReplayLoad = (log: SessionLog) => {
+    setError(null);
+    setReplayLog(log);
+    if (sensorType !== 'replay') handleSensorChange('replay');
+  };
+
+  // Long-range "HH:MM:SS" readout until the per-second stages take over
+  const leadTotal = leadDurations.reduce((sum, d) => sum + d, 0);
+  const readout = isDisplay
+    ? syncedLabel
+    : schedule.status === 'RUNNING' && remainingMs > leadTotal
+      ? formatRemaining(remainingMs)
+      : null;
+  const localReadout = readout && localizeDigits(readout, locale);
+
+  // --- Multi-screen sync ---
+  const syncedState: SyncedShowState = useMemo(() => ({
+    stageIndex: currentStageIndex,
+    handState,
+    hand: handPosition,
+    handField,
+    reducedMotion: accessibility.reducedMotion,
+    sensorStatus,
+    isPaused,
+    label: readout,
+    budget: particleBudget,
+    audio: audioSettings,
+    locale,
+    year,
+  }), [currentStageIndex, handState, handPosition, handField, accessibility.reducedMotion, sensorStatus, isPaused, readout, particleBudget, audioSettings, locale, year]);
+
+  // Controllers publish and take remote actions, displays apply what the controller sends and nothing else.
+  // Reassigned every render so it sees current state. Pair results go only to the phone that asked
+  syncMessageRef.current = (message, sender) => {
+    if (!isDisplay) {
+      switch (message.type) {
+        case 'hello':
+          if (message.role !== 'controller') {
+            syncRef.current?.send({ type: 'script', script });
+            syncRef.current?.send({ type: 'state', state: syncedState });
+          }
+          break;
+        case 'pair':
+          syncRef.current?.send({ type: 'pairResult', nonce: message.nonce, ...pairing.pair(message.code, Date.now()) }, sender.id);
+          break;
+        case 'action':
+          if (!pairing.isPaired(message.token)) {
+            syncRef.current?.send({ type: 'pairResult', token: message.token, ok: false }, sender.id);
+          } else if (REMOTE_ACTIONS.includes(message.action)) {
+            runAction(message.action, 'remote');
+          }
+          break;
+      }
+      return;
+    }
+    if (!sender.fromController) return;
+    switch (message.type) {
+      case 'script':
+        dispatch({ type: 'MIRROR', script: message.script });
+        break;
+      case 'state': {
+        const { state } = message;
+        dispatch({ type: 'MIRROR', stageIndex: state.stageIndex, handState: state.handState, isPaused: state.isPaused });
+        setSensorStatus(state.sensorStatus);
+        setHandPosition(state.hand);
+        setHandField(state.handField);
+        setAccessibility((current) => ({ ...current, reducedMotion: state.reducedMotion }));
+        setSyncedLabel(state.label);
+        setParticleBudget(state.budget);
+        setAudioSettings(state.audio);
+        if (isLocale(state.locale)) setLocale(state.locale);
+        setSyncedYear(state.year);
+        break;
+      }
+      case 'fireworks':
+        dispatch({ type: 'ACTION', action: 'FIREWORKS' });
+        break;
+    }
+  };
+
+  useEffect(() => {
+    const sync = new ShowSync(
+      { onMessage: (message, sender) => syncMessageRef.current(message, sender), onRelayStatusChange: setRelayStatus },
+      { relayUrl: getRelayUrl(), relayKey: isDisplay ? null : getRelayKey() }
+    );
+    syncRef.current = sync;
+    // Displays ask for the current show; controllers publish it from the effects below
+    if (isDisplay) sync.send({ type: 'hello', role: 'display' });
+    return () => {
+      sync.close();
+      syncRef.current = null;
+    };
+  }, [isDisplay]);
+
+  // Script before state, so displays never see an index past the end of their script
+  useEffect(() => {
+    if (!isDisplay) syncRef.current?.send({ type: 'script', script });
+  }, [isDisplay, script]);
+
+  useEffect(() => {
+    if (!isDisplay) syncRef.current?.send({ type: 'state', state: syncedState });
+  }, [isDisplay, syncedState]);
+
   return (
-    <div className="relative w-full h-screen overflow-hidden bg-black text-white selection:bg-cyan-500/30">
+    <div
+      className={`relative w-full h-screen overflow-hidden bg-black text-white selection:bg-cyan-500/30 ${
+        accessibility.reducedMotion ? 'reduce-motion' : ''
+      }`}
+      // Displays have no Initialize Uplink button; any click there enables sound
+      onClick={isDisplay ? unlockAudio : undefined}
+    >
       
       {/* 3D Scene */}
-      <ParticleScene stage={STAGE_ORDER[currentStageIndex]} />
+      {showScene && (
+        <ParticleScene
+          stage={displayStage}
+          budget={particleBudget}
+          label={localReadout}
+          fireworksSignal={fireworksSignal}
+          hand={handPosition}
+          handState={handState}
+          handField={handField}
+          reducedMotion={accessibility.reducedMotion}
+          onFireworkBurst={(burst, x) => audio.firework(x / 25, burst !== 'radial')}
+          onError={setError}
+          onStats={setParticleStats}
+          onReady={setSceneCapture}
+        />
+      )}
+
+      {/* Screen readers hear each stage as it comes in */}
+      <div role="status" aria-live="polite" className="sr-only">
+        {t('access.stage', { index: currentStageIndex + 1, count: stages.length, text: getStageAnnouncement(displayStage) })}
+      </div>
 
-      {/* Hidden Video & Canvas for processing */}
+      {/* Hidden Video for processing */}
       <video ref={videoRef} className="hidden" muted playsInline />
-      <canvas ref={canvasRef} className="hidden" />
 
-      {/* UI Overlay */}
-      <div className="absolute top-0 right-0 h-full w-80 p-6 bg-black/60 backdrop-blur-md border-l border-white/10 shadow-2xl z-10 flex flex-col gap-6">
+      {/* Display-only status line (the projector has no panel) */}
+      {isDisplay && (
+        <div className="absolute bottom-4 right-6 z-10 text-[10px] font-mono text-white/20 uppercase tracking-widest select-none pointer-events-none">
+          {t(`status.${sensorStatus}`)} · {handState}
+          {relayStatus !== 'off' && ` · ${t('remote.relay')} ${relayStatus}`}
+          {!audioUnlocked && ` · ${t('app.clickForSound')}`}
+        </div>
+      )}
+
+      {showPanel && isPanelHidden && (
+        <button
+          onClick={() => setIsPanelHidden(false)}
+          className="absolute top-4 right-4 z-10 text-[10px] font-mono text-white/30 hover:text-white uppercase tracking-widest"
+        >
+          {t('app.showPanel')}
+        </button>
+      )}
+
+      {/* UI Overlay. Hidden rather than unmounted, so a recording in progress carries on */}
+      {showPanel && (
+      <div dir={dir} className={`${
+        mode === 'control' ? 'relative mx-auto max-w-md border-x' : 'absolute top-0 right-0 w-80 border-l'
+      } ${accessibility.highContrast ? 'high-contrast' : ''} ${isPanelHidden ? 'hidden' : 'flex'} h-full p-6 bg-black/60 backdrop-blur-md border-white/10 shadow-2xl z-10 flex-col gap-6 overflow-y-auto`}>
         
         {/* Header */}
         <div className="mb-2 border-b border-white/10 pb-4">
@@ -153,11 +739,31 @@ const App: React.FC = () => {
           </h1>
           <p className="text-[10px] text-cyan-400/80 mt-2 font-mono tracking-[0.2em] flex items-center gap-2">
             <span className="w-2 h-2 bg-cyan-500 rounded-full animate-pulse"></span>
-            SYSTEM ONLINE
+            {t('app.systemOnline')}
           </p>
            <a href="https://ai.google.dev/gemini-api/docs/billing" target="_blank" className="text-[10px] text-gray-500 hover:text-white mt-2 block font-mono underline decoration-gray-700">
-             Billing Configuration
+             {t('app.billing')}
           </a>
+          <div className="flex gap-3 mt-2 text-[10px] font-mono text-gray-500">
+            <a href={getViewUrl('display')} target="_blank" className="hover:text-white underline decoration-gray-700">
+              {t('app.openDisplay')}
+            </a>
+            <a href={getViewUrl(mode === 'control' ? 'combined' : 'control')} className="hover:text-white underline decoration-gray-700">
+              {mode === 'control' ? t('app.singleWindow') : t('app.controlOnly')}
+            </a>
+          </div>
+          <label className="flex justify-between items-center mt-3 text-[10px] font-mono text-gray-500">
+            <span className="uppercase tracking-widest">{t('app.language')}</span>
+            <select
+              value={locale}
+              onChange={(e) => setLocale(e.target.value as Locale)}
+              className="bg-black/60 border border-white/10 text-cyan-300 px-1 py-0.5 focus:outline-none"
+            >
+              {LOCALE_CODES.map((code) => (
+                <option key={code} value={code}>{LOCALES[code].name}</option>
+              ))}
+            </select>
+          </label>
         </div>
 
         {/* Sensor Status */}
@@ -165,20 +771,47 @@ const App: React.FC = () => {
           <div className="absolute inset-0 bg-cyan-500/5 opacity-0 group-hover:opacity-100 transition-opacity"></div>
           
           <div className="flex items-center justify-between mb-4 relative z-10">
-            <span className="text-[10px] font-mono text-cyan-500 uppercase tracking-widest">Vision Link</span>
-            <div className={`flex items-center gap-2 text-[10px] font-bold font-mono ${isConnected ? 'text-cyan-300' : 'text-red-500'}`}>
-              <div className={`w-1.5 h-1.5 ${isConnected ? 'bg-cyan-400 shadow-[0_0_10px_#22d3ee]' : 'bg-red-500'}`} />
-              {isConnected ? 'ESTABLISHED' : 'DISCONNECTED'}
+            <span className="text-[10px] font-mono text-cyan-500 uppercase tracking-widest">{t('app.visionLink')}</span>
+            <div className={`flex items-center gap-2 text-[10px] font-bold font-mono ${
+              isConnected ? 'text-cyan-300' : canInitialize ? 'text-red-500' : 'text-amber-400'
+            }`}>
+              <div className={`w-1.5 h-1.5 ${
+                isConnected ? 'bg-cyan-400 shadow-[0_0_10px_#22d3ee]' : canInitialize ? 'bg-red-500' : 'bg-amber-400 animate-pulse'
+              }`} />
+              {t(`status.${sensorStatus}`)}
             </div>
           </div>
           
           <div className="space-y-3 relative z-10">
+             <div className="flex justify-between items-center text-[10px] font-mono text-gray-400">
+               <span>SENSOR</span>
+               <select
+                 value={sensorType}
+                 onChange={(e) => handleSensorChange(e.target.value as SensorType)}
+                 className="bg-black/60 border border-white/10 text-cyan-300 px-1 py-0.5 uppercase tracking-wider focus:outline-none"
+               >
+                 {SENSOR_TYPES.map((type) => (
+                   <option key={type} value={type}>{t(`sensor.${type}`)}</option>
+                 ))}
+               </select>
+             </div>
+
              <div className="flex justify-between items-center text-[10px] font-mono text-gray-400">
                <span>DATA_STREAM</span>
                <span className={`transition-colors duration-100 ${isProcessing ? 'text-white' : 'text-gray-700'}`}>
                   {isProcessing ? 'TX >>>' : 'IDLE'}
                </span>
              </div>
+
+             {frameStats && (
+               <div className="flex justify-between items-center text-[10px] font-mono text-gray-400">
+                 <span>TX_RATE</span>
+                 <span className="text-gray-300">
+                   {frameStats.sentPerSec.toFixed(1)}/s · {frameStats.latencyMs !== null ? `${Math.round(frameStats.latencyMs)}ms` : '---'}
+                   {frameStats.skippedStill > 0 && <span className="text-gray-600"> · {frameStats.skippedStill} still</span>}
+                 </span>
+               </div>
+             )}
              
              {/* Hand State Display */}
              <div className="mt-2 p-3 bg-gradient-to-r from-gray-900 to-black border border-white/5 text-center rounded relative overflow-hidden">
@@ -186,73 +819,189 @@ const App: React.FC = () => {
                      handState === HandState.OPEN ? 'bg-blue-500' : 
                      handState === HandState.CLOSED ? 'bg-red-500' : 'bg-transparent'
                 }`}></div>
-                <span className="text-[9px] text-gray-500 block mb-1 uppercase tracking-widest relative z-10">Gesture Detected</span>
+                <span className="text-[9px] text-gray-500 block mb-1 uppercase tracking-widest relative z-10">{t('app.gestureDetected')}</span>
                 <span className={`text-2xl font-bold tracking-widest relative z-10 font-['Rajdhani'] ${
                   handState === HandState.OPEN ? 'text-blue-400 drop-shadow-[0_0_10px_rgba(96,165,250,0.8)]' :
                   handState === HandState.CLOSED ? 'text-red-400 drop-shadow-[0_0_10px_rgba(248,113,113,0.8)]' :
+                  handState !== HandState.UNKNOWN ? 'text-cyan-300 drop-shadow-[0_0_10px_rgba(103,232,249,0.8)]' :
                   'text-gray-600'
                 }`}>
-                  {handState === HandState.UNKNOWN ? '---' : handState}
+                  {handState === HandState.UNKNOWN ? '---' : handState.replace(/_/g, ' ')}
+                </span>
+                <span className={`block mt-1 text-[9px] font-mono uppercase tracking-widest relative z-10 ${
+                  gestureStatus.phase === 'ARMED' || gestureStatus.phase === 'CONFIRMING' ? 'text-cyan-300' :
+                  gestureStatus.phase === 'COOLDOWN' ? 'text-amber-400' : 'text-gray-600'
+                }`}>
+                  {gestureStatus.phase === 'CONFIRMING'
+                    ? t('gesture.confirmingCount', { count: gestureStatus.closedCount, total: gestureThresholds.closedConfirmCount })
+                    : gestureStatus.phase === 'HOLDING' && gestureStatus.pose
+                    ? t('gesture.holdingPose', { pose: t(`pose.${gestureStatus.pose}`) })
+                    : gestureStatus.phase === 'COOLDOWN' && gestureStatus.lastAction
+                    ? t('gesture.cooldownAfter', { action: t(`action.${gestureStatus.lastAction}`) })
+                    : t(`gesture.${gestureStatus.phase}`)}
                 </span>
              </div>
+
+             <GestureTuning thresholds={gestureThresholds} onChange={setGestureThresholds} t={t} />
           </div>
         </div>
 
         {/* Instructions */}
         <div className="bg-white/5 border-l-2 border-cyan-500 p-4 text-xs font-mono space-y-2">
-          <div className="text-[10px] text-cyan-500 uppercase tracking-widest mb-2">Protocol</div>
+          <div className="text-[10px] text-cyan-500 uppercase tracking-widest mb-2">{t('app.protocol')}</div>
           <div className="flex items-center gap-3 text-gray-300">
              <span className="text-lg">✋</span>
-             <span>Open Hand = ARM</span>
+             <span>{t('app.openHand')}</span>
           </div>
           <div className="flex items-center gap-3 text-gray-300">
              <span className="text-lg">✊</span>
-             <span>Fist = TRIGGER</span>
+             <span>{t('app.fist')}</span>
           </div>
+          {interpreter.getBindings().map(({ pose, action }) => (
+            <div key={pose} className="flex items-center gap-3 text-gray-300">
+               <span className="text-lg">{POSE_ICONS[pose]}</span>
+               <span>{t(`pose.${pose}`)} = {t(`action.${action}`)}</span>
+            </div>
+          ))}
         </div>
 
+        {/* Show script */}
+        <ShowScriptPanel
+          script={script}
+          currentStageIndex={currentStageIndex}
+          onLoad={handleScriptLoad}
+          onAddStage={handleAddStage}
+          onTransitionChange={(stageIndex, transition) => dispatch({ type: 'SET_TRANSITION', stageIndex, transition })}
+          onError={setError}
+          t={t}
+        />
+
+        {/* Procedural shapes */}
+        <ShapePanel onAddStage={handleAddStage} t={t} />
+
+        {/* Wall-clock countdown */}
+        <SchedulePanel schedule={schedule} remainingMs={remainingMs} onChange={(next) => dispatch({ type: 'SET_SCHEDULE', schedule: next })} t={t} />
+
+        {/* Particle budget */}
+        <BudgetPanel budget={particleBudget} stats={particleStats} onChange={setParticleBudget} t={t} />
+
+        {/* Phone remote */}
+        <RemotePanel relayUrl={getRelayUrl()} relayStatus={relayStatus} hasRelayKey={!!getRelayKey()} pairingCode={pairing.code} t={t} />
+
+        {/* Hand field */}
+        <HandFieldPanel settings={handField} hand={handPosition} onChange={setHandField} t={t} />
+
+        {/* Voice commands */}
+        <VoicePanel
+          settings={voice}
+          supported={sensorType === 'gemini'}
+          listening={isListening}
+          transcript={transcript}
+          lastCommand={lastVoiceCommand}
+          onChange={setVoice}
+          onTalk={setIsTalking}
+          t={t}
+        />
+
+        {/* Spoken countdown */}
+        <NarrationPanel settings={narration} supported={sensorType === 'gemini'} onChange={setNarration} t={t} />
+
+        {/* Reduced motion, high contrast, shortcut keys */}
+        <AccessibilityPanel settings={accessibility} onChange={setAccessibility} t={t} />
+
+        {/* Sound */}
+        <AudioPanel settings={audioSettings} unlocked={audioUnlocked} onChange={handleAudioChange} t={t} />
+
+        {/* Gesture session record / replay */}
+        <SessionPanel
+          isRecording={isSessionRecording}
+          getEventCount={() => session.eventCount}
+          includeFrames={sessionFrames}
+          onIncludeFramesChange={setSessionFrames}
+          onRecordStart={handleSessionStart}
+          onRecordStop={handleSessionStop}
+          replayLog={replayLog}
+          replaySpeed={replaySpeed}
+          onReplayLoad={handleReplayLoad}
+          onReplaySpeedChange={setReplaySpeed}
+          onError={setError}
+          t={t}
+        />
+
+        {/* Video + snapshots (needs the scene in this window) */}
+        {sceneCapture && (
+          <RecordingPanel
+            capture={sceneCapture}
+            getAudioStream={() => audio.getCaptureStream()}
+            stageId={currentStage.id}
+            onError={setError}
+            t={t}
+          />
+        )}
+
         {/* Controls */}
         <div className="mt-auto flex flex-col gap-3">
-            {!isConnected && (
+            {canInitialize && (
                 <button 
-                onClick={initGemini}
+                onClick={initSensor}
                 className="w-full py-4 bg-cyan-900/20 hover:bg-cyan-900/40 border border-cyan-500/50 text-cyan-400 hover:text-white font-mono font-bold uppercase tracking-widest transition-all hover:shadow-[0_0_20px_rgba(6,182,212,0.2)] text-xs"
                 >
-                Initialize Uplink
+                {t('app.initialize')}
                 </button>
             )}
             
             <div className="grid grid-cols-2 gap-2">
                 <button 
-                    onClick={handleNextStage}
+                    onClick={() => runAction('PREVIOUS', 'panel')}
+                    className="py-3 bg-white/5 hover:bg-white/10 border border-white/10 text-gray-400 hover:text-white font-mono text-[10px] uppercase tracking-widest transition-all"
+                >
+                    {t('app.prevStage')}
+                </button>
+                <button 
+                    onClick={() => runAction('NEXT', 'panel')}
                     className="py-3 bg-white/5 hover:bg-white/10 border border-white/10 text-gray-400 hover:text-white font-mono text-[10px] uppercase tracking-widest transition-all"
                 >
-                    Next Stage
+                    {t('app.nextStage')}
                 </button>
                 <button 
-                    onClick={handleReset}
+                    onClick={() => runAction('RESET', 'panel')}
                     className="py-3 bg-white/5 hover:bg-white/10 border border-white/10 text-gray-400 hover:text-white font-mono text-[10px] uppercase tracking-widest transition-all"
                 >
-                    Reset
+                    {t('app.reset')}
+                </button>
+                <button 
+                    onClick={() => runAction('TOGGLE_PAUSE', 'panel')}
+                    className={`py-3 border font-mono text-[10px] uppercase tracking-widest transition-all ${
+                      isPaused ? 'bg-amber-500/10 border-amber-500/50 text-amber-400' : 'bg-white/5 hover:bg-white/10 border-white/10 text-gray-400 hover:text-white'
+                    }`}
+                >
+                    {isPaused ? t('app.resume') : t('app.pause')}
+                </button>
+                <button 
+                    onClick={() => runAction('FIREWORKS', 'panel')}
+                    className="col-span-2 py-3 bg-amber-500/5 hover:bg-amber-500/15 border border-amber-500/30 text-amber-400 hover:text-amber-200 font-mono text-[10px] uppercase tracking-widest transition-all"
+                >
+                    {t('app.fireworks')}
                 </button>
             </div>
         </div>
 
         {error && (
-            <div className="p-3 border border-red-900/50 bg-red-900/10 text-[10px] text-red-400 font-mono mt-2 break-words">
-                ERR: {error}
+            <div className="p-3 border border-red-900/50 bg-red-900/10 text-[10px] text-red-400 font-mono mt-2 break-words whitespace-pre-line">
+                {t('app.error')}: {error}
             </div>
         )}
       </div>
+      )}
       
       {/* Current Stage Indicator (Bottom Left) */}
-      <div className="absolute bottom-8 left-8 z-0">
-         <div className="text-white/5 text-[120px] font-black select-none pointer-events-none font-['Rajdhani'] leading-none">
-            {STAGE_ORDER[currentStageIndex] === 'TREE' ? 'XMAS' : 
-             STAGE_ORDER[currentStageIndex] === 'HAPPY_NEW_YEAR' ? '2025' :
-             STAGE_ORDER[currentStageIndex]}
-         </div>
-      </div>
+      {showScene && (
+        <div className="absolute bottom-8 left-8 z-0" dir={dir}>
+           <div className="text-white/5 text-[120px] font-black select-none pointer-events-none font-['Rajdhani'] leading-none">
+              {displayStage.watermark}
+           </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,37 @@
+import React from 'react';
+import { AccessibilitySettings } from '../utils/accessibility';
+import { Translate } from '../utils/i18n';
+
+interface AccessibilityPanelProps {
+  settings: AccessibilitySettings;
+  onChange: (settings: AccessibilitySettings) => void;
+  t: Translate;
+}
+
+const AccessibilityPanel: React.FC<AccessibilityPanelProps> = ({ settings, onChange, t }) => {
+  const toggle = (key: keyof AccessibilitySettings, label: string) => (
+    <div className="flex justify-between items-center">
+      <span className="uppercase tracking-widest">{label}</span>
+      <button
+        onClick={() => onChange({ ...settings, [key]: !settings[key] })}
+        aria-pressed={settings[key]}
+        className={`w-16 py-0.5 border uppercase tracking-widest transition-all ${
+          settings[key] ? 'border-cyan-500/50 text-cyan-300' : 'border-white/10 text-gray-500 hover:text-white'
+        }`}
+      >
+        {settings[key] ? t('access.on') : t('access.off')}
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="bg-black/40 rounded border border-cyan-900/50 p-4 space-y-3 text-[10px] font-mono text-gray-400">
+      <div className="text-cyan-500 uppercase tracking-widest">{t('access.title')}</div>
+      {toggle('reducedMotion', t('access.reducedMotion'))}
+      {toggle('highContrast', t('access.highContrast'))}
+      <div className="text-gray-600">{t('access.shortcuts')}</div>
+    </div>
+  );
+};
+
+export default AccessibilityPanel;
@@ -0,0 +1,45 @@
+import React from 'react';
+import { AudioSettings } from '../services/audioEngine';
+import { Translate } from '../utils/i18n';
+
+interface AudioPanelProps {
+  settings: AudioSettings;
+  unlocked: boolean;
+  onChange: (settings: AudioSettings) => void;
+  t: Translate;
+}
+
+const AudioPanel: React.FC<AudioPanelProps> = ({ settings, unlocked, onChange, t }) => (
+  <div className="bg-black/40 rounded border border-cyan-900/50 p-4 space-y-3 text-[10px] font-mono text-gray-400">
+    <div className="flex items-center justify-between">
+      <span className="text-cyan-500 uppercase tracking-widest">{t('audio.title')}</span>
+      <span className={unlocked ? 'text-gray-300' : 'text-gray-600'}>
+        {unlocked ? (settings.muted ? t('audio.muted') : `${Math.round(settings.volume * 100)}%`) : t('audio.locked')}
+      </span>
+    </div>
+
+    <div className="flex gap-2 items-center">
+      <button
+        onClick={() => onChange({ ...settings, muted: !settings.muted })}
+        className={`px-2 py-1 border uppercase tracking-widest transition-all ${
+          settings.muted ? 'border-amber-500/50 text-amber-400' : 'border-white/10 text-gray-500 hover:text-white'
+        }`}
+      >
+        {settings.muted ? t('audio.unmute') : t('audio.mute')}
+      </button>
+      <input
+        type="range"
+        min={0}
+        max={1}
+        step={0.05}
+        value={settings.volume}
+        onChange={(e) => onChange({ ...settings, volume: parseFloat(e.target.value) })}
+        className="flex-1 accent-cyan-500"
+      />
+    </div>
+
+    {!unlocked && <div className="text-gray-600">{t('audio.hint')}</div>}
+  </div>
+);
+
+export default AudioPanel;
@@ -0,0 +1,68 @@
+import React from 'react';
+import { ParticleBudget, MIN_PARTICLES, MAX_PARTICLES } from '../utils/particleBudget';
+import { ParticleStats } from './ParticleScene';
+import { Translate } from '../utils/i18n';
+
+interface BudgetPanelProps {
+  budget: ParticleBudget;
+  stats: ParticleStats | null;
+  onChange: (budget: ParticleBudget) => void;
+  t: Translate;
+}
+
+const BudgetPanel: React.FC<BudgetPanelProps> = ({ budget, stats, onChange, t }) => (
+  <div className="bg-black/40 rounded border border-cyan-900/50 p-4 space-y-3 text-[10px] font-mono text-gray-400">
+    <div className="flex items-center justify-between">
+      <span className="text-cyan-500 uppercase tracking-widest">{t('budget.title')}</span>
+      <span className="text-gray-300">
+        {stats ? `${stats.count.toLocaleString()} @ ${Math.round(stats.fps)} FPS` : '---'}
+      </span>
+    </div>
+
+    <div className="grid grid-cols-2 gap-1">
+      {(['fixed', 'auto'] as const).map((mode) => (
+        <button
+          key={mode}
+          onClick={() => onChange({ ...budget, mode, count: stats?.count ?? budget.count })}
+          className={`py-1 border uppercase tracking-widest transition-all ${
+            budget.mode === mode ? 'border-cyan-500/50 text-cyan-300' : 'border-white/10 text-gray-500 hover:text-white'
+          }`}
+        >
+          {t(`budget.${mode}`)}
+        </button>
+      ))}
+    </div>
+
+    {budget.mode === 'fixed' ? (
+      <label className="block space-y-1">
+        <span className="flex justify-between"><span>COUNT</span><span>{budget.count.toLocaleString()}</span></span>
+        <input
+          type="range"
+          min={MIN_PARTICLES}
+          max={MAX_PARTICLES}
+          step={1000}
+          value={budget.count}
+          onChange={(e) => onChange({ ...budget, count: parseInt(e.target.value, 10) })}
+          className="w-full accent-cyan-500"
+        />
+      </label>
+    ) : (
+      <label className="flex justify-between items-center">
+        <span>TARGET_FPS</span>
+        <input
+          type="number"
+          min={20}
+          max={144}
+          value={budget.targetFps}
+          onChange={(e) => {
+            const targetFps = parseInt(e.target.value, 10);
+            if (targetFps >= 20) onChange({ ...budget, targetFps });
+          }}
+          className="w-16 bg-black/60 border border-white/10 text-gray-300 px-1 text-right focus:outline-none"
+        />
+      </label>
+    )}
+  </div>
+);
+
+export default BudgetPanel;
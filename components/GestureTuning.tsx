@@ -0,0 +1,49 @@
+import React from 'react';
+import { GestureThresholds, DEFAULT_GESTURE_THRESHOLDS } from '../services/gestureInterpreter';
+import { Translate } from '../utils/i18n';
+
+interface GestureTuningProps {
+  thresholds: GestureThresholds;
+  onChange: (thresholds: GestureThresholds) => void;
+  t: Translate;
+}
+
+const FIELDS: { key: keyof GestureThresholds; label: string; step: number; min: number }[] = [
+  { key: 'minConfidence', label: 'MIN_CONFIDENCE', step: 0.05, min: 0 },
+  { key: 'openDwellMs', label: 'OPEN_DWELL_MS', step: 50, min: 0 },
+  { key: 'closedConfirmCount', label: 'CLOSED_CONFIRM_N', step: 1, min: 1 },
+  { key: 'cooldownMs', label: 'COOLDOWN_MS', step: 100, min: 0 },
+  { key: 'reportTimeoutMs', label: 'TIMEOUT_MS', step: 250, min: 250 },
+];
+
+const GestureTuning: React.FC<GestureTuningProps> = ({ thresholds, onChange, t }) => (
+  <details className="text-[10px] font-mono text-gray-500">
+    <summary className="cursor-pointer uppercase tracking-widest hover:text-gray-300">{t('tuning.title')}</summary>
+    <div className="mt-2 space-y-1">
+      {FIELDS.map(({ key, label, step, min }) => (
+        <label key={key} className="flex justify-between items-center gap-2">
+          <span>{label}</span>
+          <input
+            type="number"
+            step={step}
+            min={min}
+            value={thresholds[key]}
+            onChange={(e) => {
+              const value = parseFloat(e.target.value);
+              if (Number.isFinite(value) && value >= min) onChange({ ...thresholds, [key]: value });
+            }}
+            className="w-20 bg-black/60 border border-white/10 text-gray-300 px-1 text-right focus:outline-none"
+          />
+        </label>
+      ))}
+      <button
+        onClick={() => onChange(DEFAULT_GESTURE_THRESHOLDS)}
+        className="w-full mt-1 py-1 border border-white/10 hover:text-white uppercase tracking-widest"
+      >
+        {t('tuning.defaults')}
+      </button>
+    </div>
+  </details>
+);
+
+export default GestureTuning;
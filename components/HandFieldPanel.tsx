@@ -0,0 +1,61 @@
+import React from 'react';
+import { HandPosition } from '../types';
+import { HandFieldSettings, MAX_FIELD_STRENGTH, MIN_FIELD_RADIUS, MAX_FIELD_RADIUS } from '../utils/handField';
+import { Translate } from '../utils/i18n';
+
+interface HandFieldPanelProps {
+  settings: HandFieldSettings;
+  hand: HandPosition | null;
+  onChange: (settings: HandFieldSettings) => void;
+  t: Translate;
+}
+
+const HandFieldPanel: React.FC<HandFieldPanelProps> = ({ settings, hand, onChange, t }) => (
+  <div className="bg-black/40 rounded border border-cyan-900/50 p-4 space-y-3 text-[10px] font-mono text-gray-400">
+    <div className="flex items-center justify-between">
+      <span className="text-cyan-500 uppercase tracking-widest">{t('field.title')}</span>
+      <span className={hand ? 'text-gray-300' : 'text-gray-600'}>
+        {hand ? `${hand.x.toFixed(2)}, ${hand.y.toFixed(2)} · ${Math.round(hand.size * 100)}%` : t('field.noHand')}
+      </span>
+    </div>
+
+    <button
+      onClick={() => onChange({ ...settings, enabled: !settings.enabled })}
+      className={`w-full py-1 border uppercase tracking-widest transition-all ${
+        settings.enabled ? 'border-cyan-500/50 text-cyan-300' : 'border-white/10 text-gray-500 hover:text-white'
+      }`}
+    >
+      {settings.enabled ? t('field.on') : t('field.off')}
+    </button>
+
+    <label className="block space-y-1">
+      <span className="flex justify-between"><span>STRENGTH</span><span>{settings.strength.toFixed(1)}</span></span>
+      <input
+        type="range"
+        min={0}
+        max={MAX_FIELD_STRENGTH}
+        step={0.1}
+        value={settings.strength}
+        onChange={(e) => onChange({ ...settings, strength: parseFloat(e.target.value) })}
+        className="w-full accent-cyan-500"
+      />
+    </label>
+
+    <label className="block space-y-1">
+      <span className="flex justify-between"><span>RADIUS</span><span>{settings.radius}</span></span>
+      <input
+        type="range"
+        min={MIN_FIELD_RADIUS}
+        max={MAX_FIELD_RADIUS}
+        step={0.5}
+        value={settings.radius}
+        onChange={(e) => onChange({ ...settings, radius: parseFloat(e.target.value) })}
+        className="w-full accent-cyan-500"
+      />
+    </label>
+
+    <div className="text-gray-600">{t('field.hint')}</div>
+  </div>
+);
+
+export default HandFieldPanel;
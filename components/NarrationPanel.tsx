@@ -0,0 +1,42 @@
+import React from 'react';
+import { NarrationSettings } from '../utils/narration';
+import { Translate } from '../utils/i18n';
+
+interface NarrationPanelProps {
+  settings: NarrationSettings;
+  // The current sensor can speak (Gemini Live)
+  supported: boolean;
+  onChange: (settings: NarrationSettings) => void;
+  t: Translate;
+}
+
+const NarrationPanel: React.FC<NarrationPanelProps> = ({ settings, supported, onChange, t }) => (
+  <div className="bg-black/40 rounded border border-cyan-900/50 p-4 space-y-3 text-[10px] font-mono text-gray-400">
+    <div className="text-cyan-500 uppercase tracking-widest">{t('narration.title')}</div>
+
+    <button
+      onClick={() => onChange({ ...settings, enabled: !settings.enabled })}
+      aria-pressed={settings.enabled}
+      className={`w-full py-1 border uppercase tracking-widest transition-all ${
+        settings.enabled ? 'border-cyan-500/50 text-cyan-300' : 'border-white/10 text-gray-500 hover:text-white'
+      }`}
+    >
+      {settings.enabled ? t('narration.on') : t('narration.off')}
+    </button>
+
+    <label className="block space-y-1">
+      <span className="uppercase tracking-widest">{t('narration.greeting')}</span>
+      <input
+        type="text"
+        value={settings.greeting}
+        placeholder={t('narration.greetingPlaceholder')}
+        onChange={(e) => onChange({ ...settings, greeting: e.target.value })}
+        className="w-full bg-black/60 border border-white/10 text-cyan-300 px-1 py-0.5 focus:outline-none placeholder:text-gray-700"
+      />
+    </label>
+
+    <div className="text-gray-600">{supported ? t('narration.hint') : t('narration.unsupported')}</div>
+  </div>
+);
+
+export default NarrationPanel;
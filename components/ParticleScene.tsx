@@ -1,21 +1,115 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import * as THREE from 'three';
-import { AppStage } from '../types';
-import { getPointsForStage } from '../utils/shapeGenerator';
+import { ShowStage, ParticlePoint, HandState, HandPosition, StageTransition } from '../types';
+import { getPointsForStage, generateTextPoints } from '../utils/shapeGenerator';
+import { ParticleBudget, AdaptiveBudget, clampParticleCount } from '../utils/particleBudget';
+import { createMorphMaterial, createMorphGeometry, retargetGeometry, setMaterialTransition } from '../utils/particleMorph';
+import { DEFAULT_TRANSITION, LABEL_TRANSITION, getStageTransition } from '../utils/transitions';
+import { FireworksSystem, BurstType } from '../utils/fireworks';
+import { HandFieldSettings, HandTracker, DEFAULT_HAND_FIELD, getFieldPolarity, handToScene } from '../utils/handField';
+import { reduceTransition } from '../utils/accessibility';
+
+export interface ParticleStats {
+  count: number;
+  fps: number;
+}
+
+// Lets the recording controls get at the renderer without owning it
+export interface SceneCapture {
+  canvas: HTMLCanvasElement;
+  // Render at a fixed size (e.g. 1920x1080 while recording); null follows the window again.
+  // The canvas still fills the window on screen, so a different aspect ratio looks stretched there only
+  setRenderSize: (size: { width: number; height: number } | null) => void;
+  // Renders one frame at `scale` times the window's device resolution, as PNG
+  snapshot: (scale: number) => Promise<Blob>;
+}
 
 interface ParticleSceneProps {
-  stage: AppStage;
+  stage: ShowStage;
+  budget: ParticleBudget;
+  // Free text shown instead of the stage shape (e.g. the scheduled countdown readout)
+  label?: string | null;
+  // Bump to fire an on-demand salvo
+  fireworksSignal?: number;
+  // Where the presenter's hand is and what it's doing; drives the hand field
+  hand?: HandPosition | null;
+  handState?: HandState;
+  handField?: HandFieldSettings;
+  // Short plain morphs, no float or star rotation, gentler fireworks
+  reducedMotion?: boolean;
+  onFireworkBurst?: (burst: BurstType, x: number) => void; // x in scene units, roughly -25..25
+  onReady?: (capture: SceneCapture | null) => void;
+  onError?: (error: string) => void;
+  onStats?: (stats: ParticleStats) => void; // About once a second
 }
 
-const ParticleScene: React.FC<ParticleSceneProps> = ({ stage }) => {
+// Fireworks stages wait for the shape to form, plus this long, before the first salvo
+const FIRST_SALVO_SETTLE_MS = 300;
+
+// Packs generated points for retargetGeometry, which decides which particle takes which
+const buildTargets = (points: ParticlePoint[], particleCount: number) => {
+  const used = points.slice(0, particleCount);
+  const positions = new Float32Array(used.length * 3);
+  const colors = new Float32Array(used.length * 3);
+
+  used.forEach((p, i) => {
+    positions[i * 3] = p.x;
+    positions[i * 3 + 1] = p.y;
+    positions[i * 3 + 2] = p.z;
+
+    colors[i * 3] = p.color[0];
+    colors[i * 3 + 1] = p.color[1];
+    colors[i * 3 + 2] = p.color[2];
+  });
+
+  return { positions, colors };
+};
+
+const ParticleScene: React.FC<ParticleSceneProps> = ({
+  stage,
+  budget,
+  label,
+  fireworksSignal,
+  hand = null,
+  handState = HandState.UNKNOWN,
+  handField = DEFAULT_HAND_FIELD,
+  reducedMotion = false,
+  onError,
+  onStats,
+  onFireworkBurst,
+  onReady,
+}) => {
   const mountRef = useRef<HTMLDivElement>(null);
   const requestRef = useRef<number | null>(null);
   const particlesRef = useRef<THREE.Points | null>(null);
   const starsRef = useRef<THREE.Points | null>(null);
+  const fireworksRef = useRef<FireworksSystem | null>(null);
+  // When the next timed salvo goes up (performance.now), null when the stage has none
+  const nextSalvoRef = useRef<number | null>(null);
   
-  // Store target positions
-  const targetPositionsRef = useRef<Float32Array | null>(null);
-  const targetColorsRef = useRef<Float32Array | null>(null);
+  // Transition time 0 -> 1 from the geometry's start buffers to its targets, and the transition running
+  const progressRef = useRef(0);
+  const transitionRef = useRef<StageTransition>(DEFAULT_TRANSITION);
+  const materialRef = useRef<THREE.ShaderMaterial | null>(null);
+  // What the targets were last built for; a budget change alone rebuilds them with a plain morph
+  const shownRef = useRef<{ stage: ShowStage; label: string | null | undefined } | null>(null);
+
+  // Particle budget: the loop reallocates whenever desired != allocated.
+  // activeCount mirrors the allocated count into React so targets regenerate
+  const [activeCount, setActiveCount] = useState(() => clampParticleCount(budget.count));
+  const desiredCountRef = useRef(activeCount);
+  const adaptiveRef = useRef<AdaptiveBudget | null>(null);
+  const onStatsRef = useRef(onStats);
+  onStatsRef.current = onStats;
+  const onBurstRef = useRef(onFireworkBurst);
+  onBurstRef.current = onFireworkBurst;
+  const onReadyRef = useRef(onReady);
+  onReadyRef.current = onReady;
+  // Read by the loop every frame, which smooths them into the shader's field
+  const handRef = useRef({ hand, handState, handField });
+  handRef.current = { hand, handState, handField };
+  const reducedMotionRef = useRef(reducedMotion);
+  reducedMotionRef.current = reducedMotion;
 
   useEffect(() => {
     if (!mountRef.current) return;
@@ -32,38 +126,21 @@ const ParticleScene: React.FC<ParticleSceneProps> = ({ stage }) => {
     const renderer = new THREE.WebGLRenderer({ antialias: true, alpha: false });
     renderer.setSize(window.innerWidth, window.innerHeight);
     renderer.setPixelRatio(window.devicePixelRatio);
+    // CSS always fills the window; the drawing buffer size is set separately (see applySize)
+    renderer.domElement.style.width = '100%';
+    renderer.domElement.style.height = '100%';
     mountRef.current.appendChild(renderer.domElement);
 
     // --- Main Particles Setup ---
-    const particleCount = 4000;
-    const geometry = new THREE.BufferGeometry();
-    const positions = new Float32Array(particleCount * 3);
-    const colors = new Float32Array(particleCount * 3);
-    // Extra attribute for random offsets for floating
-    const randoms = new Float32Array(particleCount);
-
-    for (let i = 0; i < particleCount; i++) {
-      positions[i * 3] = (Math.random() - 0.5) * 50;
-      positions[i * 3 + 1] = (Math.random() - 0.5) * 50;
-      positions[i * 3 + 2] = (Math.random() - 0.5) * 50;
-      colors[i * 3] = 1.0;
-      randoms[i] = Math.random();
-    }
-
-    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
-    geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
-    geometry.setAttribute('aRandom', new THREE.BufferAttribute(randoms, 1));
-
-    const material = new THREE.PointsMaterial({
-      size: 0.4, // Slightly larger for "pixel" look
-      vertexColors: true,
-      blending: THREE.AdditiveBlending,
-      depthTest: false,
-      transparent: true,
-      opacity: 0.9,
-    });
+    let particleCount = desiredCountRef.current;
+    const geometry = createMorphGeometry(particleCount);
+    const material = createMorphMaterial();
+    materialRef.current = material;
+    setMaterialTransition(material, transitionRef.current);
 
     const particles = new THREE.Points(geometry, material);
+    // Positions live in the shader, the CPU-side bounds are meaningless
+    particles.frustumCulled = false;
     scene.add(particles);
     particlesRef.current = particles;
 
@@ -104,61 +181,124 @@ const ParticleScene: React.FC<ParticleSceneProps> = ({ stage }) => {
     scene.add(stars);
     starsRef.current = stars;
 
+    // --- Fireworks (runs alongside the main particles) ---
+    const fireworks = new FireworksSystem((burst, x) => onBurstRef.current?.(burst, x));
+    fireworks.setGentle(reducedMotionRef.current);
+    scene.add(fireworks.object);
+    fireworksRef.current = fireworks;
+
+    // Drawing buffer = width x height x pixelRatio. Point sizes scale with it so
+    // a 4x snapshot looks like the window, only sharper
+    let fixedSize: { width: number; height: number } | null = null;
+    const applySize = (width: number, height: number, pixelRatio: number) => {
+      camera.aspect = width / height;
+      camera.updateProjectionMatrix();
+      renderer.setPixelRatio(pixelRatio);
+      renderer.setSize(width, height, false);
+      material.uniforms.uScale.value = height * 0.5;
+      material.uniforms.uSize.value = 0.4 * pixelRatio;
+      fireworks.setViewportHeight(height);
+    };
 
     // Handle Resize
     const handleResize = () => {
-      camera.aspect = window.innerWidth / window.innerHeight;
-      camera.updateProjectionMatrix();
-      renderer.setSize(window.innerWidth, window.innerHeight);
+      if (fixedSize) applySize(fixedSize.width, fixedSize.height, 1);
+      else applySize(window.innerWidth, window.innerHeight, window.devicePixelRatio);
     };
     window.addEventListener('resize', handleResize);
 
+    const gl = renderer.getContext();
+    const maxBufferSize: number = gl.getParameter(gl.MAX_RENDERBUFFER_SIZE);
+
+    onReadyRef.current?.({
+      canvas: renderer.domElement,
+      setRenderSize: (size) => {
+        fixedSize = size;
+        handleResize();
+      },
+      snapshot: (scale) => {
+        const width = fixedSize?.width ?? window.innerWidth;
+        const height = fixedSize?.height ?? window.innerHeight;
+        const base = fixedSize ? 1 : window.devicePixelRatio;
+        // Stay within what the GPU can allocate
+        const ratio = Math.min(base * scale, maxBufferSize / Math.max(width, height));
+        applySize(width, height, ratio);
+        renderer.render(scene, camera);
+        // toBlob snapshots the buffer right away, so the size can go back immediately
+        const pending = new Promise<Blob>((resolve, reject) => {
+          renderer.domElement.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Snapshot failed'))), 'image/png');
+        });
+        handleResize();
+        return pending;
+      },
+    });
+
+    // Swap in a geometry of the new size, keeping the current morph state
+    const reallocate = (count: number) => {
+      const particles = particlesRef.current;
+      if (!particles) return;
+      const previous = particles.geometry;
+      particles.geometry = createMorphGeometry(count, previous, progressRef.current, transitionRef.current);
+      previous.dispose();
+      // The new start buffers already hold the current state; finish the trip with a plain morph
+      const remaining = transitionRef.current.durationMs * (1 - progressRef.current);
+      transitionRef.current = { ...DEFAULT_TRANSITION, durationMs: Math.max(remaining, 1) };
+      setMaterialTransition(material, transitionRef.current);
+      progressRef.current = 0;
+      particleCount = count;
+      setActiveCount(count);
+    };
+
+    const tracker = new HandTracker();
+
+    let statsFrames = 0;
+    let statsStart = performance.now();
+    let lastFrame = statsStart;
+
     // Animation Loop
     const animate = () => {
       const time = Date.now() * 0.001;
-
-      // Animate Main Particles
-      if (particlesRef.current && targetPositionsRef.current && targetColorsRef.current) {
-        const positions = particlesRef.current.geometry.attributes.position.array as Float32Array;
-        const colors = particlesRef.current.geometry.attributes.color.array as Float32Array;
-        const randoms = particlesRef.current.geometry.attributes.aRandom.array as Float32Array;
-        
-        const targets = targetPositionsRef.current;
-        const targetCols = targetColorsRef.current;
-        
-        const lerpFactor = 0.08;
-
-        for (let i = 0; i < particleCount; i++) {
-          const i3 = i * 3;
-          
-          // Floating effect: Use the random attribute to make each particle float independently
-          // but coherently. No global rotation.
-          const floatOffset = Math.sin(time + randoms[i] * 10) * 0.2; // Small vertical float
-          const floatOffsetX = Math.cos(time * 0.5 + randoms[i] * 10) * 0.1; // Gentle horizontal drift
-
-          // Target Position with floating offset
-          const targetX = targets[i3] + floatOffsetX;
-          const targetY = targets[i3 + 1] + floatOffset;
-          const targetZ = targets[i3 + 2];
-
-          // Position Interpolation
-          positions[i3] += (targetX - positions[i3]) * lerpFactor;
-          positions[i3 + 1] += (targetY - positions[i3 + 1]) * lerpFactor;
-          positions[i3 + 2] += (targetZ - positions[i3 + 2]) * lerpFactor;
-
-          // Color Interpolation
-          colors[i3] += (targetCols[i3] - colors[i3]) * lerpFactor;
-          colors[i3 + 1] += (targetCols[i3 + 1] - colors[i3 + 1]) * lerpFactor;
-          colors[i3 + 2] += (targetCols[i3 + 2] - colors[i3 + 2]) * lerpFactor;
-        }
-
-        particlesRef.current.geometry.attributes.position.needsUpdate = true;
-        particlesRef.current.geometry.attributes.color.needsUpdate = true;
+      const now = performance.now();
+      // Clamped so a background tab doesn't resume with one giant physics step
+      const delta = Math.min((now - lastFrame) / 1000, 0.05);
+      lastFrame = now;
+
+      // Frame rate for the panel, and for the adaptive budget when it's on
+      statsFrames++;
+      if (now - statsStart >= 1000) {
+        onStatsRef.current?.({ count: particleCount, fps: (statsFrames * 1000) / (now - statsStart) });
+        statsFrames = 0;
+        statsStart = now;
       }
+      const adaptiveCount = adaptiveRef.current?.sample(now);
+      if (adaptiveCount) desiredCountRef.current = adaptiveCount;
+      if (desiredCountRef.current !== particleCount) reallocate(desiredCountRef.current);
+
+      // Animate Main Particles: run the transition clock by frame time, the shader does the rest
+      progressRef.current = Math.min(1, progressRef.current + (delta * 1000) / transitionRef.current.durationMs);
+      material.uniforms.uProgress.value = progressRef.current;
+      material.uniforms.uTime.value = time;
+      // Float fades out (or back in) over about a second when reduced motion changes
+      const floatTarget = reducedMotionRef.current ? 0 : 1;
+      material.uniforms.uFloat.value += (floatTarget - material.uniforms.uFloat.value) * Math.min(1, delta * 3);
+
+      // Hand field: glide after the latest report, fade with the pose
+      const { hand, handState, handField } = handRef.current;
+      const field = tracker.update(hand && handToScene(hand, camera.aspect), getFieldPolarity(handState), handField, delta);
+      material.uniforms.uHand.value.set(field.x, field.y, field.z);
+      material.uniforms.uHandForce.value = field.force;
+      material.uniforms.uHandRadius.value = handField.radius;
+
+      // Fireworks: timed salvos while the stage asks for them, physics every frame
+      if (nextSalvoRef.current !== null && now >= nextSalvoRef.current) {
+        fireworks.salvo(3 + Math.floor(Math.random() * 3));
+        nextSalvoRef.current = now + 2200 + Math.random() * 1500;
+      }
+      fireworks.update(delta);
 
-      // Animate Stars (Slow rotation to simulate universe turning)
-      if (starsRef.current) {
-          starsRef.current.rotation.z = time * 0.02;
+      // Animate Stars (Slow rotation to simulate universe turning; held still for reduced motion)
+      if (starsRef.current && !reducedMotionRef.current) {
+          starsRef.current.rotation.z += delta * 0.02;
       }
 
       renderer.render(scene, camera);
@@ -173,47 +313,79 @@ const ParticleScene: React.FC<ParticleSceneProps> = ({ stage }) => {
       if (mountRef.current) {
         mountRef.current.removeChild(renderer.domElement);
       }
-      geometry.dispose();
+      particlesRef.current?.geometry.dispose();
       material.dispose();
       starGeo.dispose();
       starMat.dispose();
+      fireworks.dispose();
+      onReadyRef.current?.(null);
     };
   }, []);
 
   // Update Targets when stage changes
   useEffect(() => {
-    const points = getPointsForStage(stage);
-    const particleCount = 4000;
-    
-    const newTargetPositions = new Float32Array(particleCount * 3);
-    const newTargetColors = new Float32Array(particleCount * 3);
-
-    points.forEach((p, i) => {
-      if (i < particleCount) {
-        newTargetPositions[i * 3] = p.x;
-        newTargetPositions[i * 3 + 1] = p.y;
-        newTargetPositions[i * 3 + 2] = p.z;
-        
-        newTargetColors[i * 3] = p.color[0];
-        newTargetColors[i * 3 + 1] = p.color[1];
-        newTargetColors[i * 3 + 2] = p.color[2];
-      }
-    });
+    let cancelled = false;
+
+    // Images and web fonts load asynchronously; ignore results for a stage we've already left
+    const pending = label
+      ? Promise.resolve(generateTextPoints(label, [0.4, 0.9, 1.0], activeCount))
+      : getPointsForStage(stage, activeCount);
+
+    pending
+      .then((points) => {
+        if (cancelled) return;
+        const particles = particlesRef.current;
+        if (!particles) return;
+        const targets = buildTargets(points, activeCount);
+        if (!retargetGeometry(particles.geometry, progressRef.current, transitionRef.current, activeCount, targets.positions, targets.colors)) {
+          return;
+        }
+        const shown = shownRef.current;
+        const isNewShape = !shown || shown.stage !== stage || shown.label !== label;
+        shownRef.current = { stage, label };
+        const transition = !isNewShape ? DEFAULT_TRANSITION : label ? LABEL_TRANSITION : getStageTransition(stage);
+        transitionRef.current = reducedMotionRef.current ? reduceTransition(transition) : transition;
+        if (materialRef.current) setMaterialTransition(materialRef.current, transitionRef.current);
+        progressRef.current = 0;
+      })
+      .catch((err) => {
+        console.error(err);
+        onError?.(err.message || `Could not build stage "${stage.id}"`);
+      });
 
-    // Handle extra particles by collapsing them to center or hiding
-    for (let i = points.length; i < particleCount; i++) {
-       newTargetPositions[i * 3] = 0;
-       newTargetPositions[i * 3 + 1] = 0;
-       newTargetPositions[i * 3 + 2] = 0;
-       newTargetColors[i * 3] = 0; // Hide
-       newTargetColors[i * 3 + 1] = 0;
-       newTargetColors[i * 3 + 2] = 0;
+    return () => {
+      cancelled = true;
+    };
+  }, [stage, label, activeCount]);
+
+  // Start (or stop) timed salvos with the stage. Rockets already in the air finish their flight
+  useEffect(() => {
+    if (!stage.fireworks || label) {
+      nextSalvoRef.current = null;
+      return;
     }
+    const transition = getStageTransition(stage);
+    const formMs = (reducedMotionRef.current ? reduceTransition(transition) : transition).durationMs;
+    nextSalvoRef.current = performance.now() + formMs + FIRST_SALVO_SETTLE_MS;
+  }, [stage, label]);
 
-    targetPositionsRef.current = newTargetPositions;
-    targetColorsRef.current = newTargetColors;
+  useEffect(() => {
+    fireworksRef.current?.setGentle(reducedMotion);
+  }, [reducedMotion]);
 
-  }, [stage]);
+  useEffect(() => {
+    if (fireworksSignal) fireworksRef.current?.salvo(5, 600);
+  }, [fireworksSignal]);
+
+  // Budget changes: fixed mode just asks for a count, auto mode hands control to the adaptive budget
+  useEffect(() => {
+    if (budget.mode === 'auto') {
+      adaptiveRef.current = new AdaptiveBudget(budget.targetFps, desiredCountRef.current);
+    } else {
+      adaptiveRef.current = null;
+      desiredCountRef.current = clampParticleCount(budget.count);
+    }
+  }, [budget]);
 
   return <div ref={mountRef} className="absolute inset-0 z-0 bg-black" />;
 };
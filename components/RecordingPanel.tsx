@@ -0,0 +1,166 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { SceneCapture } from './ParticleScene';
+import {
+  ShowRecorder,
+  RECORDING_RESOLUTIONS,
+  RECORDING_BITRATES,
+  DEFAULT_RECORDING_OPTIONS,
+  isRecordingSupported,
+} from '../services/showRecorder';
+import { downloadBlob, fileTimestamp } from '../utils/download';
+import { Translate } from '../utils/i18n';
+
+interface RecordingPanelProps {
+  capture: SceneCapture;
+  getAudioStream: () => MediaStream | null; // Tap on the generated sound, or null without audio
+  stageId: string;
+  onError: (message: string) => void;
+  t: Translate;
+}
+
+const SNAPSHOT_SCALES = [2, 4];
+
+const formatElapsed = (ms: number): string => {
+  const seconds = Math.floor(ms / 1000);
+  return `${String(Math.floor(seconds / 60)).padStart(2, '0')}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const RecordingPanel: React.FC<RecordingPanelProps> = ({ capture, getAudioStream, stageId, onError, t }) => {
+  const recorderRef = useRef<ShowRecorder | null>(null);
+  if (!recorderRef.current) recorderRef.current = new ShowRecorder();
+
+  const [resolution, setResolution] = useState(0);
+  const [bitrate, setBitrate] = useState(DEFAULT_RECORDING_OPTIONS.bitrate);
+  const [snapshotScale, setSnapshotScale] = useState(SNAPSHOT_SCALES[0]);
+  const [startedAt, setStartedAt] = useState<number | null>(null);
+  const [elapsed, setElapsed] = useState(0);
+
+  const supported = isRecordingSupported();
+
+  useEffect(() => {
+    if (startedAt === null) return;
+    const id = window.setInterval(() => setElapsed(Date.now() - startedAt), 250);
+    return () => clearInterval(id);
+  }, [startedAt]);
+
+  // A half-finished take is not worth a download prompt on the way out; the canvas goes back to screen size
+  useEffect(() => {
+    const recorder = recorderRef.current!;
+    return () => {
+      if (!recorder.isRecording) return;
+      recorder.stop().catch(() => {});
+      capture.setRenderSize(null);
+    };
+  }, []);
+
+  const startRecording = () => {
+    try {
+      capture.setRenderSize(RECORDING_RESOLUTIONS[resolution].size);
+      recorderRef.current!.start(capture.canvas, getAudioStream(), { ...DEFAULT_RECORDING_OPTIONS, bitrate });
+      setElapsed(0);
+      setStartedAt(Date.now());
+    } catch (err) {
+      capture.setRenderSize(null);
+      onError(err instanceof Error ? err.message : 'Recording failed to start');
+    }
+  };
+
+  const stopRecording = async () => {
+    setStartedAt(null);
+    try {
+      const blob = await recorderRef.current!.stop();
+      downloadBlob(blob, `countdown-${fileTimestamp(new Date())}.webm`);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Recording failed');
+    } finally {
+      capture.setRenderSize(null);
+    }
+  };
+
+  const takeSnapshot = async () => {
+    try {
+      const blob = await capture.snapshot(snapshotScale);
+      downloadBlob(blob, `stage-${stageId}-${fileTimestamp(new Date())}.png`);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Snapshot failed');
+    }
+  };
+
+  const recording = startedAt !== null;
+
+  return (
+    <div className="bg-black/40 rounded border border-cyan-900/50 p-4 space-y-3 text-[10px] font-mono text-gray-400">
+      <div className="flex items-center justify-between">
+        <span className="text-cyan-500 uppercase tracking-widest">{t('capture.title')}</span>
+        <span className={recording ? 'text-red-400 animate-pulse' : 'text-gray-600'}>
+          {recording ? `REC ${formatElapsed(elapsed)}` : t('capture.idle')}
+        </span>
+      </div>
+
+      {supported ? (
+        <>
+          <div className="flex gap-2">
+            <select
+              value={resolution}
+              disabled={recording}
+              onChange={(e) => setResolution(Number(e.target.value))}
+              className="flex-1 bg-black border border-white/10 text-gray-300 px-1 py-1"
+            >
+              {RECORDING_RESOLUTIONS.map((r, i) => (
+                <option key={r.label} value={i}>
+                  {r.label}
+                </option>
+              ))}
+            </select>
+            <select
+              value={bitrate}
+              disabled={recording}
+              onChange={(e) => setBitrate(Number(e.target.value))}
+              className="flex-1 bg-black border border-white/10 text-gray-300 px-1 py-1"
+            >
+              {RECORDING_BITRATES.map((b) => (
+                <option key={b} value={b}>
+                  {b / 1_000_000} Mbps
+                </option>
+              ))}
+            </select>
+          </div>
+          <button
+            onClick={recording ? stopRecording : startRecording}
+            className={`w-full py-2 border uppercase tracking-widest transition-all ${
+              recording
+                ? 'border-red-500/50 text-red-400 bg-red-900/20 hover:bg-red-900/40'
+                : 'border-white/10 text-gray-400 hover:text-white hover:bg-white/5'
+            }`}
+          >
+            {recording ? t('capture.stop') : t('capture.record')}
+          </button>
+        </>
+      ) : (
+        <div className="text-gray-600">{t('capture.unsupported')}</div>
+      )}
+
+      <div className="flex gap-2 items-center">
+        <button
+          onClick={takeSnapshot}
+          className="flex-1 py-2 border border-white/10 text-gray-400 uppercase tracking-widest hover:text-white hover:bg-white/5 transition-all"
+        >
+          {t('capture.snapshot')}
+        </button>
+        {SNAPSHOT_SCALES.map((scale) => (
+          <button
+            key={scale}
+            onClick={() => setSnapshotScale(scale)}
+            className={`px-2 py-2 border transition-all ${
+              snapshotScale === scale ? 'border-cyan-500/50 text-cyan-300' : 'border-white/10 text-gray-600 hover:text-white'
+            }`}
+          >
+            {scale}×
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default RecordingPanel;
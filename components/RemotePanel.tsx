@@ -0,0 +1,44 @@
+import React from 'react';
+import { RelayStatus } from '../services/showSync';
+import { getRemoteUrl } from '../utils/viewMode';
+import { Translate } from '../utils/i18n';
+
+interface RemotePanelProps {
+  relayUrl: string | null;
+  relayStatus: RelayStatus;
+  // Without the relay's key, displays and phones on the relay ignore this controller
+  hasRelayKey: boolean;
+  pairingCode: string;
+  t: Translate;
+}
+
+// Where to point a phone, and the code it needs. The remote only works through the relay
+const RemotePanel: React.FC<RemotePanelProps> = ({ relayUrl, relayStatus, hasRelayKey, pairingCode, t }) => {
+  const remoteUrl = relayUrl ? getRemoteUrl(relayUrl) : null;
+
+  return (
+    <div className="bg-black/40 rounded border border-cyan-900/50 p-4 space-y-2 text-[10px] font-mono text-gray-400">
+      <div className="flex items-center justify-between">
+        <span className="text-cyan-500 uppercase tracking-widest">{t('remote.title')}</span>
+        <span className={relayStatus === 'open' ? 'text-cyan-300' : 'text-gray-600'}>{t('remote.relay')} {relayStatus.toUpperCase()}</span>
+      </div>
+
+      {remoteUrl ? (
+        <>
+          <div className="text-gray-300 break-all">{remoteUrl}</div>
+          <div className="flex items-center justify-between">
+            <span>PAIRING_CODE</span>
+            <span className="text-xl text-white tracking-[0.3em]">{pairingCode}</span>
+          </div>
+          {!hasRelayKey && <div className="text-amber-400">{t('remote.noKey', { param: '&relayKey=…' })}</div>}
+        </>
+      ) : (
+        <div className="text-gray-600">
+          {t('remote.hint', { command: 'npm run relay', param: '?relay=ws://<lan-ip>:8787/show' })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RemotePanel;
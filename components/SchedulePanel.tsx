@@ -0,0 +1,84 @@
+import React, { useMemo } from 'react';
+import { CountdownSchedule } from '../types';
+import {
+  getTimeZones,
+  getNextNewYear,
+  formatRemaining,
+  toDateTimeLocalValue,
+  fromDateTimeLocalValue
+} from '../utils/countdownClock';
+import { Translate } from '../utils/i18n';
+
+interface SchedulePanelProps {
+  schedule: CountdownSchedule;
+  remainingMs: number;
+  onChange: (schedule: CountdownSchedule) => void;
+  t: Translate;
+}
+
+const SchedulePanel: React.FC<SchedulePanelProps> = ({ schedule, remainingMs, onChange, t }) => {
+  const timeZones = useMemo(() => getTimeZones(), []);
+  const enabled = schedule.status !== 'OFF';
+
+  const handleZoneChange = (timeZone: string) => {
+    // Keep the "next new year" default meaningful when the zone changes
+    onChange({ ...schedule, timeZone, targetTime: getNextNewYear(timeZone) });
+  };
+
+  const handleTargetChange = (value: string) => {
+    const targetTime = fromDateTimeLocalValue(value, schedule.timeZone);
+    if (targetTime !== null) onChange({ ...schedule, targetTime });
+  };
+
+  return (
+    <div className="bg-black/40 rounded border border-cyan-900/50 p-4 space-y-3 text-[10px] font-mono text-gray-400">
+      <div className="flex items-center justify-between">
+        <span className="text-cyan-500 uppercase tracking-widest">{t('schedule.title')}</span>
+        <button
+          onClick={() => onChange({ ...schedule, status: enabled ? 'OFF' : 'RUNNING' })}
+          className={`px-2 py-0.5 border uppercase tracking-widest transition-all ${
+            enabled ? 'border-cyan-500/50 text-cyan-300' : 'border-white/10 text-gray-500 hover:text-white'
+          }`}
+        >
+          {enabled ? t('schedule.on') : t('schedule.off')}
+        </button>
+      </div>
+
+      {enabled && (
+        <>
+          <select
+            value={schedule.timeZone}
+            onChange={(e) => handleZoneChange(e.target.value)}
+            className="w-full bg-black/60 border border-white/10 text-gray-300 px-1 py-1 focus:outline-none"
+          >
+            {timeZones.map((zone) => (
+              <option key={zone} value={zone}>{zone}</option>
+            ))}
+          </select>
+
+          <input
+            type="datetime-local"
+            step={1}
+            value={toDateTimeLocalValue(schedule.targetTime, schedule.timeZone)}
+            onChange={(e) => handleTargetChange(e.target.value)}
+            className="w-full bg-black/60 border border-white/10 text-gray-300 px-1 py-1 focus:outline-none"
+          />
+
+          <div className="flex justify-between items-center">
+            <span>T-MINUS</span>
+            <span className="text-white text-sm tracking-widest">{formatRemaining(remainingMs)}</span>
+          </div>
+
+          <button
+            onClick={() => onChange({ ...schedule, status: schedule.status === 'PAUSED' ? 'RUNNING' : 'PAUSED' })}
+            className="w-full py-2 bg-white/5 hover:bg-white/10 border border-white/10 text-gray-400 hover:text-white uppercase tracking-widest transition-all"
+          >
+            {schedule.status === 'PAUSED' ? t('schedule.resume') : t('schedule.pause')}
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SchedulePanel;
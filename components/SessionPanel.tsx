@@ -0,0 +1,133 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { SessionLog, loadSessionLogFromFile } from '../services/sessionLog';
+import { REPLAY_SPEEDS } from '../services/replayGestureSensor';
+import { Translate } from '../utils/i18n';
+
+interface SessionPanelProps {
+  isRecording: boolean;
+  getEventCount: () => number;
+  includeFrames: boolean;
+  onIncludeFramesChange: (include: boolean) => void;
+  onRecordStart: () => void;
+  onRecordStop: () => void; // Saves the log
+  replayLog: SessionLog | null;
+  replaySpeed: number;
+  onReplayLoad: (log: SessionLog) => void;
+  onReplaySpeedChange: (speed: number) => void;
+  onError: (message: string) => void;
+  t: Translate;
+}
+
+const formatDuration = (ms: number): string => {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+// Record what the sensor reported and what the show did; load a log back to replay it
+const SessionPanel: React.FC<SessionPanelProps> = ({
+  isRecording,
+  getEventCount,
+  includeFrames,
+  onIncludeFramesChange,
+  onRecordStart,
+  onRecordStop,
+  replayLog,
+  replaySpeed,
+  onReplayLoad,
+  onReplaySpeedChange,
+  onError,
+  t,
+}) => {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [eventCount, setEventCount] = useState(0);
+
+  useEffect(() => {
+    if (!isRecording) return;
+    setEventCount(getEventCount());
+    const id = window.setInterval(() => setEventCount(getEventCount()), 500);
+    return () => clearInterval(id);
+  }, [isRecording]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-selecting the same file
+    if (!file) return;
+    try {
+      onReplayLoad(await loadSessionLogFromFile(file));
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Could not load session log');
+    }
+  };
+
+  return (
+    <div className="bg-black/40 rounded border border-cyan-900/50 p-4 space-y-3 text-[10px] font-mono text-gray-400">
+      <div className="flex items-center justify-between">
+        <span className="text-cyan-500 uppercase tracking-widest">{t('session.title')}</span>
+        <span className={isRecording ? 'text-red-400 animate-pulse' : 'text-gray-600'}>
+          {isRecording ? t('session.recording', { count: eventCount }) : t('session.idle')}
+        </span>
+      </div>
+
+      <div className="flex gap-2 items-center">
+        <button
+          onClick={isRecording ? onRecordStop : onRecordStart}
+          className={`flex-1 py-2 border uppercase tracking-widest transition-all ${
+            isRecording
+              ? 'border-red-500/50 text-red-400 bg-red-900/20 hover:bg-red-900/40'
+              : 'border-white/10 text-gray-400 hover:text-white hover:bg-white/5'
+          }`}
+        >
+          {isRecording ? t('session.stop') : t('session.record')}
+        </button>
+        <label className="flex items-center gap-1 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={includeFrames}
+            disabled={isRecording}
+            onChange={(e) => onIncludeFramesChange(e.target.checked)}
+            className="accent-cyan-500"
+          />
+          {t('session.frames')}
+        </label>
+      </div>
+
+      <div className="border-t border-white/5 pt-3 space-y-2">
+        <button
+          onClick={() => fileRef.current?.click()}
+          className="w-full py-2 border border-white/10 text-gray-400 uppercase tracking-widest hover:text-white hover:bg-white/5 transition-all"
+        >
+          {t('session.load')}
+        </button>
+        <input ref={fileRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFile} />
+
+        {replayLog && (
+          <>
+            <div className="flex justify-between">
+              <span className="text-gray-300 truncate">{replayLog.script.name}</span>
+              <span>
+                {t('session.summary', { count: replayLog.events.length, duration: formatDuration(replayLog.durationMs) })}
+              </span>
+            </div>
+            <div className="flex items-center gap-2">
+              <span>{t('session.speed')}</span>
+              {REPLAY_SPEEDS.map((speed) => (
+                <button
+                  key={speed}
+                  onClick={() => onReplaySpeedChange(speed)}
+                  className={`flex-1 py-1 border transition-all ${
+                    replaySpeed === speed ? 'border-cyan-500/50 text-cyan-300' : 'border-white/10 text-gray-600 hover:text-white'
+                  }`}
+                >
+                  {speed}×
+                </button>
+              ))}
+            </div>
+            <div className="text-gray-600">{t('session.hint')}</div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SessionPanel;
@@ -0,0 +1,120 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ShowStage, ParticlePoint, RGB } from '../types';
+import { ShapeDefinition, listShapes, getDefaultShapeParams, generateShapePoints } from '../utils/shapeRegistry';
+import { Translate } from '../utils/i18n';
+
+interface ShapePanelProps {
+  onAddStage: (stage: ShowStage) => void;
+  t: Translate;
+}
+
+const PREVIEW_POINTS = 2500;
+const PREVIEW_COLORS: RGB[] = [[0.4, 0.9, 1], [1, 0.8, 0.2]];
+
+// Slowly turning orthographic view of the points, so solids read as solids
+const ShapePreview: React.FC<{ points: ParticlePoint[] }> = ({ points }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    let frame = 0;
+    const draw = (time: number) => {
+      const angle = time / 2000;
+      const cos = Math.cos(angle);
+      const sin = Math.sin(angle);
+      const scale = canvas.width / 26; // The shapes' ±10 frame plus a margin
+      ctx.fillStyle = '#000';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      for (const { x, y, z, color } of points) {
+        const rx = x * cos + z * sin;
+        const rz = z * cos - x * sin;
+        const [r, g, b] = color;
+        ctx.fillStyle = `rgba(${r * 255 | 0},${g * 255 | 0},${b * 255 | 0},${0.45 + 0.04 * rz})`;
+        ctx.fillRect(canvas.width / 2 + rx * scale, canvas.height / 2 - y * scale, 1.5, 1.5);
+      }
+      frame = requestAnimationFrame(draw);
+    };
+    frame = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(frame);
+  }, [points]);
+
+  return <canvas ref={canvasRef} width={240} height={240} className="w-full aspect-square border border-white/5" />;
+};
+
+// Browse the procedural shapes, tune their parameters, and drop one into the show
+const ShapePanel: React.FC<ShapePanelProps> = ({ onAddStage, t }) => {
+  const shapes: ShapeDefinition[] = useMemo(() => listShapes(), []);
+  const [name, setName] = useState(shapes[0].name);
+  const definition = shapes.find((s) => s.name === name) ?? shapes[0];
+  const [params, setParams] = useState(() => getDefaultShapeParams(definition));
+  const [isOpen, setIsOpen] = useState(false);
+
+  const points = useMemo(
+    () => (isOpen ? generateShapePoints(name, PREVIEW_COLORS, params, PREVIEW_POINTS) : []),
+    [isOpen, name, params]
+  );
+
+  const handleShapeChange = (next: string) => {
+    setName(next);
+    setParams(getDefaultShapeParams(shapes.find((s) => s.name === next)!));
+  };
+
+  const addStage = () =>
+    onAddStage({
+      id: name.toUpperCase(),
+      shape: { type: 'shape', name, params },
+      colors: PREVIEW_COLORS,
+      watermark: definition.label.toUpperCase(),
+      durationMs: 1000,
+      advance: 'gesture',
+      fireworks: false,
+    });
+
+  return (
+    <details
+      className="bg-black/40 rounded border border-cyan-900/50 p-4 text-[10px] font-mono text-gray-400"
+      onToggle={(e) => setIsOpen((e.target as HTMLDetailsElement).open)}
+    >
+      <summary className="cursor-pointer text-cyan-500 uppercase tracking-widest">{t('shapes.title')}</summary>
+      <div className="mt-3 space-y-3">
+        <select
+          value={name}
+          onChange={(e) => handleShapeChange(e.target.value)}
+          className="w-full bg-black/60 border border-white/10 text-gray-300 px-1 py-1 focus:outline-none"
+        >
+          {shapes.map((s) => (
+            <option key={s.name} value={s.name}>{s.label}</option>
+          ))}
+        </select>
+
+        {isOpen && <ShapePreview points={points} />}
+
+        {Object.entries(definition.params).map(([key, spec]) => (
+          <label key={key} className="block space-y-1">
+            <span className="flex justify-between"><span className="uppercase">{key}</span><span>{params[key]}</span></span>
+            <input
+              type="range"
+              min={spec.min}
+              max={spec.max}
+              step={spec.step}
+              value={params[key]}
+              onChange={(e) => setParams({ ...params, [key]: parseFloat(e.target.value) })}
+              className="w-full accent-cyan-500"
+            />
+          </label>
+        ))}
+
+        <button
+          onClick={addStage}
+          className="w-full py-1.5 border border-white/10 hover:text-white uppercase tracking-widest"
+        >
+          {t('shapes.add')}
+        </button>
+      </div>
+    </details>
+  );
+};
+
+export default ShapePanel;
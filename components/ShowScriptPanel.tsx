@@ -0,0 +1,190 @@
+import React, { useRef, useState } from 'react';
+import { ShowScript, ShowStage, StageTransition, TransitionEffect, TransitionEasing } from '../types';
+import { DEFAULT_SHOW, loadShowScriptFromFile, loadShowScriptFromUrl } from '../utils/showScript';
+import { TRANSITION_EFFECTS, TRANSITION_EASINGS, MIN_TRANSITION_MS, MAX_TRANSITION_MS, getStageTransition } from '../utils/transitions';
+import { Translate } from '../utils/i18n';
+
+interface ShowScriptPanelProps {
+  script: ShowScript;
+  currentStageIndex: number;
+  onLoad: (script: ShowScript) => void;
+  onAddStage: (stage: ShowStage) => void;
+  onTransitionChange: (stageIndex: number, transition: StageTransition) => void;
+  onError: (error: string) => void;
+  t: Translate;
+}
+
+const readAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error(`Could not read ${file.name}`));
+    reader.readAsDataURL(file);
+  });
+
+const ShowScriptPanel: React.FC<ShowScriptPanelProps> = ({
+  script,
+  currentStageIndex,
+  onLoad,
+  onAddStage,
+  onTransitionChange,
+  onError,
+  t,
+}) => {
+  const [url, setUrl] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [extrudeImages, setExtrudeImages] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const currentStage = script.stages[Math.min(currentStageIndex, script.stages.length - 1)];
+  const transition = getStageTransition(currentStage);
+  const setTransition = (change: Partial<StageTransition>) =>
+    onTransitionChange(currentStageIndex, { ...transition, ...change });
+  const imageInputRef = useRef<HTMLInputElement>(null);
+
+  const load = async (loader: () => Promise<ShowScript>) => {
+    setIsLoading(true);
+    try {
+      onLoad(await loader());
+    } catch (e: any) {
+      onError(e.message || 'Failed to load show script');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) load(() => loadShowScriptFromFile(file));
+    e.target.value = ''; // Allow re-selecting the same file after editing it
+  };
+
+  // Uploaded artwork becomes an image stage right after the current one.
+  // Stored as a data: URL so the stage survives without the original file
+  const handleImage = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const src = await readAsDataUrl(file);
+      const name = file.name.replace(/\.[^.]+$/, '');
+      onAddStage({
+        id: name,
+        shape: { type: 'image', src, sampling: 'auto', keepColors: true, extrude: extrudeImages ? 6 : 0 },
+        colors: [[1, 1, 1]],
+        watermark: name.toUpperCase(),
+        durationMs: 1000,
+        advance: 'gesture',
+        fireworks: false,
+      });
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  return (
+    <div className="bg-black/40 rounded border border-cyan-900/50 p-4 space-y-3 text-[10px] font-mono text-gray-400">
+      <div className="flex items-center justify-between">
+        <span className="text-cyan-500 uppercase tracking-widest">{t('script.title')}</span>
+        <span className="text-gray-300 truncate ml-2">{script.name}</span>
+      </div>
+
+      <div className="flex flex-wrap gap-1">
+        {script.stages.map((stage, i) => (
+          <span
+            key={stage.id}
+            className={`px-1.5 py-0.5 border ${
+              i === currentStageIndex ? 'border-cyan-400 text-cyan-300' : 'border-white/10 text-gray-600'
+            }`}
+          >
+            {stage.id}
+          </span>
+        ))}
+      </div>
+
+      {/* How the current stage comes in */}
+      <div className="flex gap-1 items-center">
+        <span className="uppercase">{t('script.transition')}</span>
+        <select
+          value={transition.effect}
+          onChange={(e) => setTransition({ effect: e.target.value as TransitionEffect })}
+          className="flex-1 min-w-0 bg-black/60 border border-white/10 text-gray-300 px-1 py-0.5 focus:outline-none"
+        >
+          {TRANSITION_EFFECTS.map((effect) => (
+            <option key={effect} value={effect}>{effect}</option>
+          ))}
+        </select>
+        <select
+          value={transition.easing}
+          onChange={(e) => setTransition({ easing: e.target.value as TransitionEasing })}
+          className="flex-1 min-w-0 bg-black/60 border border-white/10 text-gray-300 px-1 py-0.5 focus:outline-none"
+        >
+          {TRANSITION_EASINGS.map((easing) => (
+            <option key={easing} value={easing}>{easing}</option>
+          ))}
+        </select>
+        <input
+          type="number"
+          min={MIN_TRANSITION_MS}
+          max={MAX_TRANSITION_MS}
+          step={100}
+          value={transition.durationMs}
+          onChange={(e) => {
+            const durationMs = parseInt(e.target.value, 10);
+            if (durationMs >= MIN_TRANSITION_MS && durationMs <= MAX_TRANSITION_MS) setTransition({ durationMs });
+          }}
+          className="w-14 bg-black/60 border border-white/10 text-gray-300 px-1 text-right focus:outline-none"
+        />
+      </div>
+
+      <div className="flex gap-1">
+        <input
+          type="url"
+          value={url}
+          placeholder="https://…/show.json"
+          onChange={(e) => setUrl(e.target.value)}
+          className="flex-1 min-w-0 bg-black/60 border border-white/10 text-gray-300 px-1 py-1 focus:outline-none"
+        />
+        <button
+          disabled={!url || isLoading}
+          onClick={() => load(() => loadShowScriptFromUrl(url))}
+          className="px-2 border border-white/10 hover:text-white disabled:opacity-40 uppercase"
+        >
+          {t('script.load')}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-1">
+        <button
+          disabled={isLoading}
+          onClick={() => fileInputRef.current?.click()}
+          className="py-1.5 border border-white/10 hover:text-white disabled:opacity-40 uppercase tracking-widest"
+        >
+          {t('script.openFile')}
+        </button>
+        <button
+          disabled={isLoading || script === DEFAULT_SHOW}
+          onClick={() => onLoad(DEFAULT_SHOW)}
+          className="py-1.5 border border-white/10 hover:text-white disabled:opacity-40 uppercase tracking-widest"
+        >
+          {t('script.default')}
+        </button>
+      </div>
+      <div className="flex gap-1 items-center">
+        <button
+          onClick={() => imageInputRef.current?.click()}
+          className="flex-1 py-1.5 border border-white/10 hover:text-white uppercase tracking-widest"
+        >
+          {t('script.addImage')}
+        </button>
+        <label className="flex items-center gap-1 px-1 cursor-pointer">
+          <input type="checkbox" checked={extrudeImages} onChange={(e) => setExtrudeImages(e.target.checked)} />
+          3D
+        </label>
+      </div>
+      <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleFile} />
+      <input ref={imageInputRef} type="file" accept="image/png,image/jpeg,image/svg+xml" className="hidden" onChange={handleImage} />
+    </div>
+  );
+};
+
+export default ShowScriptPanel;
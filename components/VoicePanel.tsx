@@ -0,0 +1,72 @@
+import React from 'react';
+import { VoiceCommand } from '../types';
+import { VoiceSettings } from '../utils/voiceCommands';
+import { Translate } from '../utils/i18n';
+
+interface VoicePanelProps {
+  settings: VoiceSettings;
+  // The current sensor takes microphone audio (Gemini Live)
+  supported: boolean;
+  listening: boolean; // Audio is going to the sensor right now
+  transcript: string;
+  lastCommand: VoiceCommand | null;
+  onChange: (settings: VoiceSettings) => void;
+  onTalk: (talking: boolean) => void;
+  t: Translate;
+}
+
+const VoicePanel: React.FC<VoicePanelProps> = ({ settings, supported, listening, transcript, lastCommand, onChange, onTalk, t }) => (
+  <div className="bg-black/40 rounded border border-cyan-900/50 p-4 space-y-3 text-[10px] font-mono text-gray-400">
+    <div className="flex items-center justify-between">
+      <span className="text-cyan-500 uppercase tracking-widest">{t('voice.title')}</span>
+      <span className={listening ? 'text-red-400 animate-pulse' : 'text-gray-600'}>
+        {listening ? t('voice.listening') : settings.enabled ? t('voice.idle') : t('voice.off')}
+      </span>
+    </div>
+
+    <div className="flex gap-2">
+      <button
+        onClick={() => onChange({ ...settings, enabled: !settings.enabled })}
+        aria-pressed={settings.enabled}
+        className={`flex-1 py-1 border uppercase tracking-widest transition-all ${
+          settings.enabled ? 'border-cyan-500/50 text-cyan-300' : 'border-white/10 text-gray-500 hover:text-white'
+        }`}
+      >
+        {settings.enabled ? t('voice.micOn') : t('voice.micOff')}
+      </button>
+      <label className="flex items-center gap-1 uppercase tracking-widest">
+        <input
+          type="checkbox"
+          checked={settings.pushToTalk}
+          onChange={(e) => onChange({ ...settings, pushToTalk: e.target.checked })}
+          className="accent-cyan-500"
+        />
+        {t('voice.pushToTalk')}
+      </label>
+    </div>
+
+    {settings.enabled && settings.pushToTalk && (
+      <button
+        onPointerDown={() => onTalk(true)}
+        onPointerUp={() => onTalk(false)}
+        onPointerLeave={() => onTalk(false)}
+        onKeyDown={(e) => (e.key === ' ' || e.key === 'Enter') && !e.repeat && onTalk(true)}
+        onKeyUp={(e) => (e.key === ' ' || e.key === 'Enter') && onTalk(false)}
+        className={`w-full py-2 border uppercase tracking-widest select-none transition-all ${
+          listening ? 'border-red-500/60 text-red-300 bg-red-900/20' : 'border-white/10 text-gray-400 hover:text-white'
+        }`}
+      >
+        {t('voice.hold')}
+      </button>
+    )}
+
+    <div className="flex justify-between gap-2">
+      <span className={`truncate ${transcript ? 'text-gray-300' : 'text-gray-600'}`}>“{transcript || '…'}”</span>
+      {lastCommand && <span className="text-cyan-300 shrink-0">{t(`voice.command.${lastCommand}`)}</span>}
+    </div>
+
+    <div className="text-gray-600">{supported ? t('voice.hint') : t('voice.unsupported')}</div>
+  </div>
+);
+
+export default VoicePanel;
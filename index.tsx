@@ -1,15 +1,29 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { getViewMode } from './utils/viewMode';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// Hash route picks display / control / combined; switching routes remounts the app
+const Root: React.FC = () => {
+  const [mode, setMode] = useState(() => getViewMode());
+
+  useEffect(() => {
+    const handleHashChange = () => setMode(getViewMode());
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  return <App key={mode} mode={mode} />;
+};
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    <Root />
   </React.StrictMode>
-);
\ No newline at end of file
+);
@@ -0,0 +1,144 @@
+// Stand-in for the Gemini Live socket, for exercising the connection
+// lifecycle without an API key or network.
+//
+//   npm run live:stub -- [--port 8765] [--interval 1500] [--drop-after 10] [--refuse 2]
+//
+// Then start the app with GEMINI_LIVE_URL=http://localhost:8765 in .env.local.
+// The stub accepts any path and key, answers the setup message, and calls
+// setHandState alternating OPEN / CLOSED, with a setHandPosition circling the frame.
+// While microphone audio comes in it "hears" a voice command every few seconds
+// (transcript plus a voiceCommand call), cycling through them. Narration
+// requests are answered with a short two-tone chime in place of speech.
+//   --drop-after N  closes every session after N seconds (tests reconnect)
+//   --refuse N      rejects the first N connection attempts (tests backoff)
+
+import { WebSocketServer } from 'ws';
+
+const args = process.argv.slice(2);
+const option = (name, fallback) => {
+  const i = args.indexOf(`--${name}`);
+  return i >= 0 && args[i + 1] !== undefined ? Number(args[i + 1]) : fallback;
+};
+
+const port = option('port', 8765);
+const intervalMs = option('interval', 1500);
+const dropAfterSec = option('drop-after', 0);
+let refuse = option('refuse', 0);
+
+const STATES = ['OPEN', 'CLOSED'];
+const VOICE = [
+  ['next', 'NEXT'],
+  ['fireworks', 'FIREWORKS'],
+  ['back', 'BACK'],
+  ['start countdown', 'START_COUNTDOWN'],
+  ['reset', 'RESET'],
+];
+const AUDIO_CHUNKS_PER_COMMAND = 40; // The app sends 100 ms chunks
+
+// Stand-in "speech": 24 kHz 16-bit PCM, two falling tones with soft edges
+const SPEECH_RATE = 24000;
+const chime = () => {
+  const length = Math.round(SPEECH_RATE * 0.5);
+  const pcm = new Int16Array(length);
+  for (let i = 0; i < length; i++) {
+    const t = i / SPEECH_RATE;
+    const frequency = t < 0.25 ? 660 : 440;
+    const envelope = Math.min(1, i / 240, (length - i) / 240);
+    pcm[i] = Math.sin(2 * Math.PI * frequency * t) * envelope * 8000;
+  }
+  return Buffer.from(pcm.buffer).toString('base64');
+};
+let sessionCount = 0;
+
+const server = new WebSocketServer({ port });
+
+server.on('connection', (socket, request) => {
+  const id = ++sessionCount;
+  const log = (...parts) => console.log(`[session ${id}]`, ...parts);
+
+  if (refuse > 0) {
+    refuse--;
+    log('refused', `(${refuse} more to refuse)`);
+    socket.close(1013, 'Stub refusing connections');
+    return;
+  }
+
+  log('connected', request.url?.split('?')[0]);
+  let frames = 0;
+  let audioChunks = 0;
+  let step = 0;
+  let reporter = null;
+  let dropTimer = null;
+
+  socket.on('message', (raw) => {
+    let message;
+    try {
+      message = JSON.parse(raw.toString());
+    } catch {
+      log('ignoring non-JSON message');
+      return;
+    }
+
+    if (message.setup) {
+      log('setup for', message.setup.model);
+      socket.send(JSON.stringify({ setupComplete: {} }));
+
+      reporter = setInterval(() => {
+        const state = STATES[step++ % STATES.length];
+        const angle = step * 0.7;
+        const position = { x: 0.5 + Math.cos(angle) * 0.25, y: 0.5 + Math.sin(angle) * 0.2, size: 0.2 };
+        socket.send(JSON.stringify({
+          toolCall: {
+            functionCalls: [
+              { id: `call-${id}-${step}`, name: 'setHandState', args: { state, confidence: 0.9 } },
+              { id: `pos-${id}-${step}`, name: 'setHandPosition', args: position },
+            ],
+          },
+        }));
+      }, intervalMs);
+
+      if (dropAfterSec > 0) {
+        dropTimer = setTimeout(() => {
+          log(`dropping after ${dropAfterSec}s`);
+          socket.close(1011, 'Stub dropped the session');
+        }, dropAfterSec * 1000);
+      }
+    } else if (message.clientContent || message.client_content) {
+      const content = message.clientContent || message.client_content;
+      const text = content.turns?.flatMap((turn) => turn.parts ?? []).map((part) => part.text ?? '').join(' ');
+      log('narrate', JSON.stringify(text?.slice(0, 80)));
+      socket.send(JSON.stringify({
+        serverContent: { modelTurn: { parts: [{ inlineData: { mimeType: `audio/pcm;rate=${SPEECH_RATE}`, data: chime() } }] } },
+      }));
+      socket.send(JSON.stringify({ serverContent: { turnComplete: true } }));
+    } else if (message.realtimeInput || message.realtime_input) {
+      const input = message.realtimeInput || message.realtime_input;
+      if (input.audioStreamEnd || input.audio_stream_end) {
+        log('audio stream ended');
+      } else if (input.audio) {
+        audioChunks++;
+        if (audioChunks % AUDIO_CHUNKS_PER_COMMAND === 0) {
+          const [words, command] = VOICE[(audioChunks / AUDIO_CHUNKS_PER_COMMAND - 1) % VOICE.length];
+          log('heard', words);
+          socket.send(JSON.stringify({ serverContent: { inputTranscription: { text: words } } }));
+          socket.send(JSON.stringify({
+            toolCall: { functionCalls: [{ id: `voice-${id}-${audioChunks}`, name: 'voiceCommand', args: { command } }] },
+          }));
+        }
+      } else {
+        frames++;
+        if (frames % 20 === 0) log(`${frames} frames received`);
+      }
+    }
+  });
+
+  socket.on('close', (code) => {
+    clearInterval(reporter);
+    clearTimeout(dropTimer);
+    log('closed', code, `after ${frames} frames and ${audioChunks} audio chunks`);
+  });
+});
+
+server.on('listening', () => {
+  console.log(`Live stub listening on ws://localhost:${port}`);
+});
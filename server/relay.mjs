@@ -0,0 +1,103 @@
+// LAN relay for multi-screen shows and the phone remote. It forwards each
+// WebSocket message to the other clients in the same room (the URL path), or
+// only to the client it is addressed to, and serves the remote page over
+// plain HTTP. No internet needed.
+//
+//   npm run relay -- [--port 8787] [--key <controller key>]
+//
+// The controller connects with the key the relay prints (?key=...), and every
+// forwarded envelope says whether it came from a controller, so displays and
+// remotes only follow the real one. Open each window with ?relay=..., e.g.
+//   http://192.168.1.20:3000/?relay=ws://192.168.1.20:8787/show&relayKey=<key>#/control
+//   http://192.168.1.20:3000/?relay=ws://192.168.1.20:8787/show#/display
+// and the remote on a phone on the same network at
+//   http://192.168.1.20:8787/remote
+
+import { createServer } from 'http';
+import { readFile } from 'fs/promises';
+import { networkInterfaces } from 'os';
+import { randomBytes } from 'crypto';
+import { WebSocketServer } from 'ws';
+
+const args = process.argv.slice(2);
+const option = (name, fallback) => {
+  const i = args.indexOf(`--${name}`);
+  return i >= 0 && args[i + 1] !== undefined ? args[i + 1] : fallback;
+};
+
+const port = Number(option('port', 8787));
+const key = option('key', randomBytes(6).toString('hex'));
+const rooms = new Map(); // room name -> Set of sockets
+const remotePage = new URL('./remote.html', import.meta.url);
+
+const http = createServer(async (request, response) => {
+  const path = (request.url || '/').split('?')[0];
+  if (request.method === 'GET' && (path === '/' || path === '/remote')) {
+    try {
+      const html = await readFile(remotePage);
+      response.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' });
+      response.end(html);
+    } catch (err) {
+      response.writeHead(500, { 'Content-Type': 'text/plain' });
+      response.end(`Could not read remote page: ${err.message}`);
+    }
+    return;
+  }
+  response.writeHead(404, { 'Content-Type': 'text/plain' });
+  response.end('Not found');
+});
+
+const server = new WebSocketServer({ server: http });
+
+server.on('connection', (socket, request) => {
+  const url = new URL(request.url || '/', 'http://relay');
+  const room = decodeURIComponent(url.pathname.replace(/^\/+/, '')) || 'show';
+  const via = url.searchParams.get('key') === key ? 'controller' : 'peer';
+  if (!rooms.has(room)) rooms.set(room, new Set());
+  const peers = rooms.get(room);
+  peers.add(socket);
+  // The sender id from the client's first envelope; later envelopes must keep it, so no one can take over
+  // another client's id and receive what is addressed to it
+  let clientId = null;
+  console.log(`[${room}] ${via} joined from ${request.socket.remoteAddress} (${peers.size} connected)`);
+
+  socket.on('message', (data, isBinary) => {
+    if (isBinary) return;
+    let envelope;
+    try { envelope = JSON.parse(data.toString()); } catch { return; }
+    if (!envelope || typeof envelope.from !== 'string') return;
+    if (clientId === null) {
+      if ([...peers].some((peer) => peer.clientId === envelope.from)) return;
+      clientId = socket.clientId = envelope.from;
+    } else if (envelope.from !== clientId) {
+      return;
+    }
+
+    // The relay says who sent it; whatever the client put in `via` is overwritten
+    const out = JSON.stringify({ ...envelope, via });
+    for (const peer of peers) {
+      if (peer === socket || peer.readyState !== peer.OPEN) continue;
+      if (typeof envelope.to === 'string' && peer.clientId !== envelope.to) continue;
+      peer.send(out);
+    }
+  });
+
+  socket.on('close', () => {
+    peers.delete(socket);
+    if (peers.size === 0) rooms.delete(room);
+    console.log(`[${room}] client left (${peers.size} connected)`);
+  });
+});
+
+http.listen(port, () => {
+  console.log(`Relay listening on port ${port}`);
+  console.log(`  controller key: ${key} (add &relayKey=${key} to the controller's URL)`);
+  // The addresses phones and other machines on the LAN can reach
+  for (const addresses of Object.values(networkInterfaces())) {
+    for (const address of addresses || []) {
+      if (address.family !== 'IPv4' || address.internal) continue;
+      console.log(`  relay:  ws://${address.address}:${port}/show`);
+      console.log(`  remote: http://${address.address}:${port}/remote`);
+    }
+  }
+});
@@ -0,0 +1,319 @@
+import { PlaybackQueue } from '../utils/narration';
+
+// Synthesized show audio: everything is built from oscillators and a shared
+// noise buffer, so there is nothing to download. The narrator's speech is
+// the one exception; it plays through the same volume and recording mix.
+// Browsers only allow audio after a user gesture, so nothing plays until
+// unlock() has been called from a click handler.
+
+export interface AudioSettings {
+  volume: number; // 0-1 master volume
+  muted: boolean;
+}
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  volume: 0.7,
+  muted: false,
+};
+
+export class AudioEngine {
+  private ctx: AudioContext | null = null;
+  private master: GainNode | null = null;
+  private output: AudioNode | null = null; // Final mix, after the limiter
+  private capture: MediaStreamAudioDestinationNode | null = null;
+  private noise: AudioBuffer | null = null;
+  private settings: AudioSettings;
+  private swellNodes: { gain: GainNode; sources: AudioScheduledSourceNode[] } | null = null;
+  private narrationQueue = new PlaybackQueue();
+  private narrationSources = new Set<AudioBufferSourceNode>();
+
+  constructor(settings: AudioSettings = DEFAULT_AUDIO_SETTINGS) {
+    this.settings = settings;
+  }
+
+  public get isUnlocked(): boolean {
+    return this.ctx !== null && this.ctx.state === 'running';
+  }
+
+  /**
+   * Creates or resumes the AudioContext. Must run inside a user gesture
+   * (synchronously, before any await) or the browser keeps it suspended.
+   */
+  public unlock() {
+    if (!this.ctx) {
+      this.ctx = new AudioContext();
+
+      // Master volume into a gentle limiter so stacked bursts don't clip
+      const compressor = this.ctx.createDynamicsCompressor();
+      compressor.threshold.value = -12;
+      compressor.ratio.value = 8;
+      compressor.connect(this.ctx.destination);
+      this.output = compressor;
+
+      this.master = this.ctx.createGain();
+      this.master.gain.value = this.targetGain();
+      this.master.connect(compressor);
+
+      // Two seconds of white noise, shared by every noisy sound
+      const length = this.ctx.sampleRate * 2;
+      this.noise = this.ctx.createBuffer(1, length, this.ctx.sampleRate);
+      const data = this.noise.getChannelData(0);
+      for (let i = 0; i < length; i++) data[i] = Math.random() * 2 - 1;
+    }
+    if (this.ctx.state === 'suspended') {
+      this.ctx.resume().catch((e) => console.warn('Audio resume failed', e));
+    }
+  }
+
+  public configure(settings: AudioSettings) {
+    this.settings = settings;
+    if (this.ctx && this.master) {
+      this.master.gain.setTargetAtTime(this.targetGain(), this.ctx.currentTime, 0.02);
+    }
+  }
+
+  /**
+   * Countdown tick: a short bright click with a woody body
+   */
+  public tick() {
+    const ctx = this.ready();
+    if (!ctx) return;
+    const t = ctx.currentTime;
+
+    this.tone('sine', 1600, t, 0.06, 0.5);
+    this.tone('triangle', 520, t, 0.12, 0.35);
+  }
+
+  /**
+   * Rising swell over `durationMs`, timed to peak as the finale lands
+   */
+  public swell(durationMs: number) {
+    const ctx = this.ready();
+    if (!ctx || !this.noise) return;
+    this.cancelSwell();
+
+    const t = ctx.currentTime;
+    const end = t + Math.max(0.3, durationMs / 1000);
+
+    const gain = ctx.createGain();
+    gain.gain.setValueAtTime(0.0001, t);
+    gain.gain.exponentialRampToValueAtTime(0.6, end);
+    gain.gain.exponentialRampToValueAtTime(0.0001, end + 0.4);
+    gain.connect(this.master!);
+
+    // Filtered noise opening up like a rush of air
+    const air = ctx.createBufferSource();
+    air.buffer = this.noise;
+    air.loop = true;
+    const band = ctx.createBiquadFilter();
+    band.type = 'bandpass';
+    band.Q.value = 1.2;
+    band.frequency.setValueAtTime(200, t);
+    band.frequency.exponentialRampToValueAtTime(4000, end);
+    air.connect(band).connect(gain);
+
+    // Two detuned saws sliding up an octave and a half underneath
+    const saws = [0, 7].map((detune) => {
+      const osc = ctx.createOscillator();
+      osc.type = 'sawtooth';
+      osc.detune.value = detune;
+      osc.frequency.setValueAtTime(110, t);
+      osc.frequency.exponentialRampToValueAtTime(330, end);
+      return osc;
+    });
+    const low = ctx.createBiquadFilter();
+    low.type = 'lowpass';
+    low.frequency.setValueAtTime(300, t);
+    low.frequency.exponentialRampToValueAtTime(2500, end);
+    const sawGain = ctx.createGain();
+    sawGain.gain.value = 0.25;
+    saws.forEach((osc) => osc.connect(low));
+    low.connect(sawGain).connect(gain);
+
+    const sources: AudioScheduledSourceNode[] = [air, ...saws];
+    sources.forEach((s) => {
+      s.start(t);
+      s.stop(end + 0.5);
+    });
+    this.swellNodes = { gain, sources };
+    air.onended = () => {
+      if (this.swellNodes?.gain === gain) this.swellNodes = null;
+    };
+  }
+
+  /**
+   * Fades out a swell that's still playing (e.g. the show stepped back)
+   */
+  public cancelSwell() {
+    const ctx = this.ctx;
+    const swell = this.swellNodes;
+    if (!ctx || !swell) return;
+    const t = ctx.currentTime;
+    swell.gain.gain.cancelScheduledValues(t);
+    swell.gain.gain.setTargetAtTime(0.0001, t, 0.05);
+    swell.sources.forEach((s) => s.stop(t + 0.3));
+    this.swellNodes = null;
+  }
+
+  /**
+   * One firework: a low boom followed by crackle. `pan` is -1 (left) to 1 (right)
+   */
+  public firework(pan = 0, crackle = true) {
+    const ctx = this.ready();
+    if (!ctx) return;
+    const t = ctx.currentTime;
+
+    const panner = ctx.createStereoPanner();
+    panner.pan.value = Math.max(-1, Math.min(1, pan));
+    panner.connect(this.master!);
+
+    // Boom: low-passed noise with a hard attack
+    this.noiseBurst(t, 1.2, 'lowpass', 400, 0.9, panner);
+    this.tone('sine', 70, t, 0.5, 0.6, panner);
+
+    if (crackle) {
+      for (let i = 0; i < 14; i++) {
+        const at = t + 0.35 + Math.random() * 1.2;
+        this.noiseBurst(at, 0.03 + Math.random() * 0.04, 'highpass', 3000, 0.15 + Math.random() * 0.2, panner);
+      }
+    }
+  }
+
+  /**
+   * Finale: a crowd cheer under a few bursts
+   */
+  public celebrate() {
+    const ctx = this.ready();
+    if (!ctx || !this.noise) return;
+    const t = ctx.currentTime;
+
+    // Cheer: several bands of noise, each with its own slow wobble, like many voices
+    const gain = ctx.createGain();
+    gain.gain.setValueAtTime(0.0001, t);
+    gain.gain.exponentialRampToValueAtTime(0.5, t + 0.4);
+    gain.gain.setValueAtTime(0.5, t + 2);
+    gain.gain.exponentialRampToValueAtTime(0.0001, t + 4.5);
+    gain.connect(this.master!);
+
+    [600, 1100, 1800, 2600].forEach((frequency) => {
+      const source = ctx.createBufferSource();
+      source.buffer = this.noise;
+      source.loop = true;
+
+      const band = ctx.createBiquadFilter();
+      band.type = 'bandpass';
+      band.frequency.value = frequency;
+      band.Q.value = 4;
+
+      const wobble = ctx.createOscillator();
+      wobble.frequency.value = 3 + Math.random() * 5;
+      const depth = ctx.createGain();
+      depth.gain.value = 0.3;
+      const voice = ctx.createGain();
+      voice.gain.value = 0.5;
+      wobble.connect(depth).connect(voice.gain);
+
+      source.connect(band).connect(voice).connect(gain);
+      source.start(t, Math.random());
+      wobble.start(t);
+      source.stop(t + 4.6);
+      wobble.stop(t + 4.6);
+    });
+
+    [0, 0.6, 1.3].forEach((delay, i) => {
+      window.setTimeout(() => this.firework(i === 1 ? 0 : (Math.random() - 0.5) * 1.6), delay * 1000);
+    });
+  }
+
+  /**
+   * Queues a clip of narrator speech (mono samples) to play after the clips
+   * already queued
+   */
+  public narrate(samples: Float32Array, sampleRate: number) {
+    const ctx = this.ready();
+    if (!ctx || samples.length === 0) return;
+
+    const buffer = ctx.createBuffer(1, samples.length, sampleRate);
+    buffer.getChannelData(0).set(samples);
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(this.master!);
+    source.start(this.narrationQueue.schedule(buffer.duration, ctx.currentTime));
+    this.narrationSources.add(source);
+    source.onended = () => this.narrationSources.delete(source);
+  }
+
+  /**
+   * Cuts the narrator off and drops everything queued (reset, barge-in)
+   */
+  public interruptNarration() {
+    this.narrationSources.forEach((source) => {
+      source.onended = null;
+      source.stop();
+    });
+    this.narrationSources.clear();
+    this.narrationQueue.clear();
+  }
+
+  /**
+   * The final mix as a MediaStream (for recording). Null until unlocked
+   */
+  public getCaptureStream(): MediaStream | null {
+    if (!this.ctx || !this.output) return null;
+    if (!this.capture) {
+      this.capture = this.ctx.createMediaStreamDestination();
+      this.output.connect(this.capture);
+    }
+    return this.capture.stream;
+  }
+
+  public close() {
+    this.cancelSwell();
+    this.interruptNarration();
+    this.ctx?.close();
+    this.ctx = null;
+    this.master = null;
+    this.output = null;
+    this.capture = null;
+    this.noise = null;
+  }
+
+  private targetGain(): number {
+    return this.settings.muted ? 0 : this.settings.volume;
+  }
+
+  // The running context, or null while locked or muted (no point scheduling silence)
+  private ready(): AudioContext | null {
+    if (!this.ctx || !this.master || this.ctx.state !== 'running') return null;
+    if (this.settings.muted || this.settings.volume <= 0) return null;
+    return this.ctx;
+  }
+
+  private tone(type: OscillatorType, frequency: number, at: number, duration: number, level: number, out?: AudioNode) {
+    const ctx = this.ctx!;
+    const osc = ctx.createOscillator();
+    osc.type = type;
+    osc.frequency.value = frequency;
+    const gain = ctx.createGain();
+    gain.gain.setValueAtTime(level, at);
+    gain.gain.exponentialRampToValueAtTime(0.0001, at + duration);
+    osc.connect(gain).connect(out ?? this.master!);
+    osc.start(at);
+    osc.stop(at + duration + 0.05);
+  }
+
+  private noiseBurst(at: number, duration: number, filter: BiquadFilterType, frequency: number, level: number, out: AudioNode) {
+    const ctx = this.ctx!;
+    const source = ctx.createBufferSource();
+    source.buffer = this.noise;
+    const biquad = ctx.createBiquadFilter();
+    biquad.type = filter;
+    biquad.frequency.value = frequency;
+    const gain = ctx.createGain();
+    gain.gain.setValueAtTime(level, at);
+    gain.gain.exponentialRampToValueAtTime(0.0001, at + duration);
+    source.connect(biquad).connect(gain).connect(out);
+    source.start(at, Math.random());
+    source.stop(at + duration + 0.05);
+  }
+}
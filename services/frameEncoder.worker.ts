@@ -0,0 +1,53 @@
+// Encodes camera frames off the main thread so JPEG compression doesn't
+// steal time from the render loop. Receives an already cropped and scaled
+// ImageBitmap, answers with base64 JPEG or raw pixels.
+
+export interface EncodeRequest {
+  id: number;
+  bitmap: ImageBitmap;
+  kind: 'jpeg' | 'pixels';
+  quality: number;
+}
+
+export type EncodeResponse =
+  | { id: number; kind: 'jpeg'; data: string }
+  | { id: number; kind: 'pixels'; width: number; height: number; buffer: ArrayBuffer }
+  | { id: number; kind: 'error'; message: string };
+
+let canvas: OffscreenCanvas | null = null;
+let ctx: OffscreenCanvasRenderingContext2D | null = null;
+
+// btoa() only takes strings; chunk to stay under the argument limit of fromCharCode
+const toBase64 = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+self.onmessage = async (e: MessageEvent<EncodeRequest>) => {
+  const { id, bitmap, kind, quality } = e.data;
+  try {
+    if (!canvas || canvas.width !== bitmap.width || canvas.height !== bitmap.height) {
+      canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+      ctx = canvas.getContext('2d', { willReadFrequently: kind === 'pixels' });
+    }
+    ctx!.drawImage(bitmap, 0, 0);
+    bitmap.close();
+
+    if (kind === 'jpeg') {
+      const blob = await canvas.convertToBlob({ type: 'image/jpeg', quality });
+      const response: EncodeResponse = { id, kind, data: toBase64(await blob.arrayBuffer()) };
+      self.postMessage(response);
+    } else {
+      const image = ctx!.getImageData(0, 0, canvas.width, canvas.height);
+      const response: EncodeResponse = { id, kind, width: image.width, height: image.height, buffer: image.data.buffer };
+      self.postMessage(response, { transfer: [image.data.buffer] });
+    }
+  } catch (err: any) {
+    const response: EncodeResponse = { id, kind: 'error', message: err.message || 'Encode failed' };
+    self.postMessage(response);
+  }
+};
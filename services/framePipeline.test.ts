@@ -0,0 +1,203 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { FramePipeline, FramePipelineStats, FrameRect, DEFAULT_FRAME_PIPELINE_OPTIONS } from './framePipeline';
+import { GestureSensor, SensorFrame } from './gestureSensor';
+
+// The pipeline's motion thumbnail is 64x48; the stand-in camera paints it directly
+const WIDTH = 64;
+const HEIGHT = 48;
+
+// Bright cells (x, y in thumbnail cells) on a black picture
+let bright: (x: number, y: number) => boolean = () => false;
+
+const thumbnail = () => {
+  const data = new Uint8ClampedArray(WIDTH * HEIGHT * 4);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      const i = (y * WIDTH + x) * 4;
+      data[i] = data[i + 1] = data[i + 2] = bright(x, y) ? 255 : 0;
+      data[i + 3] = 255;
+    }
+  }
+  return { width: WIDTH, height: HEIGHT, data };
+};
+
+// Just enough canvas for the analysis thumbnail and the main-thread encoder
+const canvasStandIn = () => ({
+  width: 0,
+  height: 0,
+  getContext: () => ({
+    drawImage: () => {},
+    getImageData: thumbnail,
+  }),
+  toDataURL: () => 'data:image/jpeg;base64,AAAA',
+});
+
+const video = { readyState: 4, videoWidth: 640, videoHeight: 480 } as unknown as HTMLVideoElement;
+
+// A sensor that answers each frame when told to, so backpressure can be held open
+const setup = (options = {}) => {
+  const crops: FrameRect[] = [];
+  const stats: FramePipelineStats[] = [];
+  const answers: (() => void)[] = [];
+  let answerAtOnce = true;
+  const sensor: GestureSensor = {
+    frameKind: 'jpeg',
+    connect: async () => {},
+    disconnect: () => {},
+    sendFrame: (_frame: SensorFrame) =>
+      answerAtOnce ? Promise.resolve() : new Promise<void>((resolve) => answers.push(resolve)),
+  };
+  const pipeline = new FramePipeline(video, sensor, {
+    onFrameSent: (_frame, crop) => crops.push(crop),
+    onStats: (s) => stats.push(s),
+  }, options);
+  return {
+    pipeline,
+    crops,
+    stats,
+    holdAnswers: () => { answerAtOnce = false; },
+    answerAll: () => answers.splice(0).forEach((resolve) => resolve()),
+  };
+};
+
+const { minIntervalMs, maxIntervalMs, keepaliveMs, minRoiSize } = DEFAULT_FRAME_PIPELINE_OPTIONS;
+// Stats go out on the first tick a second after the last; ticks are at most maxIntervalMs apart
+const STATS_WAIT_MS = 1000 + maxIntervalMs;
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'performance', 'Date'] });
+  vi.stubGlobal('window', globalThis);
+  vi.stubGlobal('document', { createElement: canvasStandIn });
+  bright = () => false;
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('FramePipeline motion gating', () => {
+  it('sends the first frame whole, then skips still frames until the keepalive', async () => {
+    const { pipeline, crops } = setup();
+    pipeline.start();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(crops).toEqual([{ x: 0, y: 0, w: 1, h: 1 }]);
+
+    await vi.advanceTimersByTimeAsync(keepaliveMs - minIntervalMs);
+    expect(crops).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(minIntervalMs * 2);
+    expect(crops).toHaveLength(2);
+    pipeline.stop();
+  });
+
+  it('sends as soon as something moves', async () => {
+    const { pipeline, crops } = setup({ roi: 'full' });
+    pipeline.start();
+    await vi.advanceTimersByTimeAsync(0);
+    bright = (x, y) => x < 8 && y < 8;
+    await vi.advanceTimersByTimeAsync(minIntervalMs);
+    expect(crops).toHaveLength(2);
+    expect(crops[1]).toEqual({ x: 0, y: 0, w: 1, h: 1 });
+    pipeline.stop();
+  });
+});
+
+describe('FramePipeline crop', () => {
+  it('closes in on the moving area gradually and keeps a minimum size', async () => {
+    const { pipeline, crops } = setup();
+    pipeline.start();
+    await vi.advanceTimersByTimeAsync(0);
+
+    // Movement in the top right quarter
+    bright = (x, y) => x >= 48 && y < 12;
+    await vi.advanceTimersByTimeAsync(minIntervalMs);
+    const first = crops[1];
+    expect(first.x).toBeCloseTo(0.08);
+    expect(first.y).toBe(0);
+    expect(first.x + first.w).toBeCloseTo(1);
+    expect(first.h).toBeCloseTo(0.92);
+
+    // More of the same: the crop keeps shrinking towards the padded area, never below the minimum
+    for (let i = 0; i < 30; i++) {
+      bright = i % 2 ? (x, y) => x >= 48 && y < 12 : (x, y) => x >= 50 && y < 10;
+      await vi.advanceTimersByTimeAsync(minIntervalMs);
+    }
+    const settled = crops[crops.length - 1];
+    expect(settled.w).toBeGreaterThanOrEqual(minRoiSize - 1e-9);
+    expect(settled.w).toBeLessThan(first.w);
+    expect(settled.x + settled.w).toBeCloseTo(1);
+    pipeline.stop();
+  });
+
+  it('widens at once when movement starts outside the crop', async () => {
+    const { pipeline, crops } = setup();
+    pipeline.start();
+    await vi.advanceTimersByTimeAsync(0);
+    for (let i = 0; i < 20; i++) {
+      bright = i % 2 ? (x, y) => x >= 48 && y < 12 : () => false;
+      await vi.advanceTimersByTimeAsync(minIntervalMs);
+    }
+    expect(crops[crops.length - 1].x).toBeGreaterThan(0.3);
+
+    bright = (x, y) => x < 4 && y >= 44;
+    await vi.advanceTimersByTimeAsync(minIntervalMs);
+    const widened = crops[crops.length - 1];
+    expect(widened.x).toBe(0);
+    expect(widened.y + widened.h).toBeCloseTo(1);
+    pipeline.stop();
+  });
+});
+
+describe('FramePipeline backpressure and pacing', () => {
+  it('drops frames while the previous one is still in flight', async () => {
+    const { pipeline, crops, stats, holdAnswers, answerAll } = setup();
+    holdAnswers();
+    pipeline.start();
+    await vi.advanceTimersByTimeAsync(0);
+    for (let i = 0; i < 5; i++) {
+      bright = i % 2 ? () => true : () => false;
+      await vi.advanceTimersByTimeAsync(minIntervalMs);
+    }
+    expect(crops).toHaveLength(1);
+
+    answerAll();
+    await vi.advanceTimersByTimeAsync(minIntervalMs * 2);
+    expect(crops.length).toBeGreaterThan(1);
+    expect(stats[0].skippedBusy).toBeGreaterThan(0);
+    pipeline.stop();
+  });
+
+  it('follows the sensor latency within bounds and ignores long silences', async () => {
+    const { pipeline, stats } = setup();
+    pipeline.start();
+    await vi.advanceTimersByTimeAsync(0);
+    const sentAt = performance.now();
+
+    pipeline.notifyReport(sentAt + 800);
+    // No frame sent since the last report: this one isn't a latency sample
+    pipeline.notifyReport(sentAt + 850);
+    await vi.advanceTimersByTimeAsync(STATS_WAIT_MS);
+    expect(stats[0].latencyMs).toBe(800);
+    expect(stats[0].intervalMs).toBe(400);
+    pipeline.stop();
+
+    // A very slow sensor is capped, a fast one floored
+    const slow = setup();
+    slow.pipeline.start();
+    await vi.advanceTimersByTimeAsync(0);
+    slow.pipeline.notifyReport(performance.now() + 4000);
+    await vi.advanceTimersByTimeAsync(STATS_WAIT_MS);
+    expect(slow.stats[slow.stats.length - 1].intervalMs).toBe(maxIntervalMs);
+    slow.pipeline.stop();
+
+    const fast = setup();
+    fast.pipeline.start();
+    await vi.advanceTimersByTimeAsync(0);
+    fast.pipeline.notifyReport(performance.now() + 20);
+    fast.pipeline.notifyReport(performance.now() + 9000);
+    await vi.advanceTimersByTimeAsync(STATS_WAIT_MS);
+    expect(fast.stats[fast.stats.length - 1].intervalMs).toBe(minIntervalMs);
+    expect(fast.stats[fast.stats.length - 1].latencyMs).toBe(20);
+    fast.pipeline.stop();
+  });
+});
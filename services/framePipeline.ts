@@ -0,0 +1,365 @@
+import { GestureSensor, SensorFrame } from './gestureSensor';
+import type { EncodeRequest, EncodeResponse } from './frameEncoder.worker';
+
+export interface FramePipelineOptions {
+  maxInFlight: number;     // Frames being encoded/sent at once; ticks beyond this are dropped
+  maxWidth: number;        // Sent frames are scaled down to at most this width
+  jpegQuality: number;
+  roi: 'full' | 'motion';  // 'motion' crops to where things moved, plus a margin
+  minRoiSize: number;      // Smallest crop, as a fraction of each side of the frame
+  motionThreshold: number; // Mean luma difference (0-1) from the last sent frame that counts as movement
+  keepaliveMs: number;     // Send a still frame after this long so the sensor keeps reporting
+  minIntervalMs: number;   // Send rate bounds; the rate follows the sensor's response latency
+  maxIntervalMs: number;
+}
+
+export const DEFAULT_FRAME_PIPELINE_OPTIONS: FramePipelineOptions = {
+  maxInFlight: 1,
+  maxWidth: 320,
+  jpegQuality: 0.6,
+  roi: 'motion',
+  minRoiSize: 0.6,
+  motionThreshold: 0.015,
+  keepaliveMs: 1000,
+  minIntervalMs: 150,
+  maxIntervalMs: 1000,
+};
+
+export interface FramePipelineStats {
+  sentPerSec: number;
+  skippedStill: number;     // In the last second
+  skippedBusy: number;
+  intervalMs: number;
+  latencyMs: number | null; // Smoothed frame -> report latency, null until measured
+}
+
+export interface FramePipelineCallbacks {
+  // crop is the part of the video the frame shows; sensors report positions relative to it
+  onFrameSent?: (frame: SensorFrame, crop: FrameRect) => void;
+  onStats?: (stats: FramePipelineStats) => void; // About once a second
+}
+
+export interface FrameRect {
+  x: number; // All 0-1, relative to the video frame
+  y: number;
+  w: number;
+  h: number;
+}
+
+export const FULL_FRAME: FrameRect = { x: 0, y: 0, w: 1, h: 1 };
+
+// Motion is measured on a tiny grayscale copy of the frame
+const ANALYSIS_WIDTH = 64;
+const ANALYSIS_HEIGHT = 48;
+const CELL_MOTION = 0.08;     // Per-cell luma change that marks the cell as moving
+const ROI_MARGIN = 0.15;      // Added around the moving area on each side
+const ROI_SHRINK = 0.2;       // Crop grows at once but shrinks gradually
+const LATENCY_SMOOTHING = 0.3;
+const MAX_LATENCY_SAMPLE_MS = 5000; // Longer gaps mean "nothing changed", not a slow sensor
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Feeds camera frames to a sensor without flooding it.
+ * Each tick it drops the frame if the previous one is still in flight or if
+ * nothing moved since the last frame sent. Otherwise it crops to the moving
+ * area, scales down, and encodes in a worker. The send interval follows how
+ * quickly the sensor answers.
+ */
+export class FramePipeline {
+  private video: HTMLVideoElement;
+  private sensor: GestureSensor;
+  private options: FramePipelineOptions;
+  private callbacks: FramePipelineCallbacks;
+
+  private running = false;
+  private timer: number | null = null;
+  private intervalMs: number;
+  private inFlight = 0;
+
+  private worker: Worker | null = null;
+  private nextRequestId = 0;
+  private pending = new Map<number, { resolve: (r: EncodeResponse) => void; reject: (e: Error) => void }>();
+  private fallbackCanvas: HTMLCanvasElement | null = null;
+
+  private analysisCtx: CanvasRenderingContext2D | null;
+  private lastSentLuma: Float32Array | null = null;
+  private lastSentAt = 0;
+  private roi: FrameRect = FULL_FRAME;
+
+  // Latency: first frame sent since the last report -> next report
+  private awaitingSince: number | null = null;
+  private latencyMs: number | null = null;
+
+  private statsStart = 0;
+  private sent = 0;
+  private skippedStill = 0;
+  private skippedBusy = 0;
+
+  constructor(
+    video: HTMLVideoElement,
+    sensor: GestureSensor,
+    callbacks: FramePipelineCallbacks = {},
+    options: Partial<FramePipelineOptions> = {}
+  ) {
+    this.video = video;
+    this.sensor = sensor;
+    this.callbacks = callbacks;
+    this.options = { ...DEFAULT_FRAME_PIPELINE_OPTIONS, ...options };
+    this.intervalMs = this.options.minIntervalMs;
+
+    const analysis = document.createElement('canvas');
+    analysis.width = ANALYSIS_WIDTH;
+    analysis.height = ANALYSIS_HEIGHT;
+    this.analysisCtx = analysis.getContext('2d', { willReadFrequently: true });
+  }
+
+  public start() {
+    if (this.running) return;
+    this.running = true;
+    this.worker = this.createWorker();
+    this.statsStart = performance.now();
+    this.schedule(0);
+  }
+
+  public stop() {
+    this.running = false;
+    if (this.timer !== null) clearTimeout(this.timer);
+    this.timer = null;
+    this.terminateWorker(new Error('Frame pipeline stopped'));
+    this.lastSentLuma = null;
+    this.awaitingSince = null;
+    this.roi = FULL_FRAME;
+  }
+
+  /**
+   * Call whenever the sensor reports a hand state; drives the adaptive send rate
+   */
+  public notifyReport(now = performance.now()) {
+    if (this.awaitingSince === null) return;
+    const sample = now - this.awaitingSince;
+    this.awaitingSince = null;
+    if (sample > MAX_LATENCY_SAMPLE_MS) return;
+
+    this.latencyMs = this.latencyMs === null ? sample : this.latencyMs + (sample - this.latencyMs) * LATENCY_SMOOTHING;
+    // About two frames per answer: the sensor always has a fresh frame when it's ready
+    this.intervalMs = clamp(this.latencyMs / 2, this.options.minIntervalMs, this.options.maxIntervalMs);
+  }
+
+  private schedule(delay: number) {
+    this.timer = window.setTimeout(() => {
+      this.timer = null;
+      if (!this.running) return;
+      this.tick(performance.now());
+      this.schedule(this.intervalMs);
+    }, delay);
+  }
+
+  private tick(now: number) {
+    if (now - this.statsStart >= 1000) this.emitStats(now);
+
+    const video = this.video;
+    if (video.readyState < 2 || !video.videoWidth) return;
+
+    // Backpressure: never queue frames behind a slow encode or send
+    if (this.inFlight >= this.options.maxInFlight) {
+      this.skippedBusy++;
+      return;
+    }
+
+    const motion = this.measureMotion();
+    const stale = now - this.lastSentAt >= this.options.keepaliveMs;
+    if (motion && this.lastSentLuma && motion.diff < this.options.motionThreshold && !stale) {
+      this.skippedStill++;
+      return;
+    }
+    if (this.options.roi === 'motion' && motion?.box) this.updateRoi(motion.box);
+
+    this.inFlight++;
+    this.send(now, motion?.luma ?? null).finally(() => {
+      this.inFlight--;
+    });
+  }
+
+  private async send(now: number, luma: Float32Array | null) {
+    const kind = this.sensor.frameKind;
+    if (!kind) return;
+    try {
+      const crop = this.roi;
+      const frame = await this.encode(kind, crop);
+      if (!frame || !this.running) return;
+
+      this.lastSentLuma = luma;
+      this.lastSentAt = now;
+      if (this.awaitingSince === null) this.awaitingSince = now;
+      this.callbacks.onFrameSent?.(frame, crop);
+      await this.sensor.sendFrame(frame);
+      this.sent++;
+    } catch (e) {
+      if (this.running) console.error('Frame pipeline error:', e);
+    }
+  }
+
+  // Grayscale thumbnail, its mean difference from the last sent one, and the moving area
+  private measureMotion(): { luma: Float32Array; diff: number; box: FrameRect | null } | null {
+    const ctx = this.analysisCtx;
+    if (!ctx) return null;
+    ctx.drawImage(this.video, 0, 0, ANALYSIS_WIDTH, ANALYSIS_HEIGHT);
+    const data = ctx.getImageData(0, 0, ANALYSIS_WIDTH, ANALYSIS_HEIGHT).data;
+
+    const luma = new Float32Array(ANALYSIS_WIDTH * ANALYSIS_HEIGHT);
+    for (let i = 0; i < luma.length; i++) {
+      luma[i] = (data[i * 4] * 0.299 + data[i * 4 + 1] * 0.587 + data[i * 4 + 2] * 0.114) / 255;
+    }
+
+    const previous = this.lastSentLuma;
+    if (!previous) return { luma, diff: 1, box: null };
+
+    let total = 0;
+    let minX = ANALYSIS_WIDTH, minY = ANALYSIS_HEIGHT, maxX = -1, maxY = -1;
+    for (let y = 0; y < ANALYSIS_HEIGHT; y++) {
+      for (let x = 0; x < ANALYSIS_WIDTH; x++) {
+        const i = y * ANALYSIS_WIDTH + x;
+        const d = Math.abs(luma[i] - previous[i]);
+        total += d;
+        if (d > CELL_MOTION) {
+          if (x < minX) minX = x;
+          if (x > maxX) maxX = x;
+          if (y < minY) minY = y;
+          if (y > maxY) maxY = y;
+        }
+      }
+    }
+
+    const box = maxX < 0 ? null : {
+      x: minX / ANALYSIS_WIDTH,
+      y: minY / ANALYSIS_HEIGHT,
+      w: (maxX - minX + 1) / ANALYSIS_WIDTH,
+      h: (maxY - minY + 1) / ANALYSIS_HEIGHT,
+    };
+    return { luma, diff: total / luma.length, box };
+  }
+
+  private updateRoi(box: FrameRect) {
+    const { minRoiSize } = this.options;
+    // Pad the moving area and enforce the minimum size around its center
+    const w = clamp(box.w + ROI_MARGIN * 2, minRoiSize, 1);
+    const h = clamp(box.h + ROI_MARGIN * 2, minRoiSize, 1);
+    const cx = box.x + box.w / 2;
+    const cy = box.y + box.h / 2;
+    const target = {
+      left: clamp(cx - w / 2, 0, 1 - w),
+      top: clamp(cy - h / 2, 0, 1 - h),
+      right: 0,
+      bottom: 0,
+    };
+    target.right = target.left + w;
+    target.bottom = target.top + h;
+
+    // Edges move out immediately (never cut off the hand) and in slowly
+    const roi = this.roi;
+    const shrink = (from: number, to: number) => from + (to - from) * ROI_SHRINK;
+    const left = target.left < roi.x ? target.left : shrink(roi.x, target.left);
+    const top = target.top < roi.y ? target.top : shrink(roi.y, target.top);
+    const right = target.right > roi.x + roi.w ? target.right : shrink(roi.x + roi.w, target.right);
+    const bottom = target.bottom > roi.y + roi.h ? target.bottom : shrink(roi.y + roi.h, target.bottom);
+    this.roi = { x: left, y: top, w: right - left, h: bottom - top };
+  }
+
+  private async encode(kind: 'jpeg' | 'pixels', crop: FrameRect): Promise<SensorFrame | null> {
+    const video = this.video;
+    const sx = Math.round(crop.x * video.videoWidth);
+    const sy = Math.round(crop.y * video.videoHeight);
+    const sw = Math.max(1, Math.round(crop.w * video.videoWidth));
+    const sh = Math.max(1, Math.round(crop.h * video.videoHeight));
+    const scale = Math.min(1, this.options.maxWidth / sw);
+    const width = Math.max(1, Math.round(sw * scale));
+    const height = Math.max(1, Math.round(sh * scale));
+
+    if (this.worker) {
+      try {
+        const bitmap = await createImageBitmap(video, sx, sy, sw, sh, { resizeWidth: width, resizeHeight: height });
+        const response = await this.postToWorker({ id: this.nextRequestId++, bitmap, kind, quality: this.options.jpegQuality }, bitmap);
+        switch (response.kind) {
+          case 'jpeg':
+            return { kind: 'jpeg', data: response.data };
+          case 'pixels':
+            return { kind: 'pixels', image: new ImageData(new Uint8ClampedArray(response.buffer), response.width, response.height) };
+          case 'error':
+            throw new Error(response.message);
+        }
+      } catch (e) {
+        if (!this.running) return null;
+        console.warn('Worker encode failed, encoding on the main thread from now on', e);
+        this.terminateWorker(e instanceof Error ? e : new Error(String(e)));
+      }
+    }
+
+    // Main-thread fallback (no OffscreenCanvas, or the worker failed)
+    if (!this.fallbackCanvas) this.fallbackCanvas = document.createElement('canvas');
+    const canvas = this.fallbackCanvas;
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: kind === 'pixels' });
+    if (!ctx) return null;
+    ctx.drawImage(video, sx, sy, sw, sh, 0, 0, width, height);
+    if (kind === 'jpeg') {
+      return { kind: 'jpeg', data: canvas.toDataURL('image/jpeg', this.options.jpegQuality).split(',')[1] };
+    }
+    return { kind: 'pixels', image: ctx.getImageData(0, 0, width, height) };
+  }
+
+  private createWorker(): Worker | null {
+    if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') return null;
+    try {
+      const worker = new Worker(new URL('./frameEncoder.worker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (e: MessageEvent<EncodeResponse>) => {
+        const entry = this.pending.get(e.data.id);
+        this.pending.delete(e.data.id);
+        entry?.resolve(e.data);
+      };
+      worker.onerror = (e) => {
+        e.preventDefault();
+        this.terminateWorker(new Error(e.message || 'Frame encoder worker failed'));
+      };
+      return worker;
+    } catch (e) {
+      console.warn('Frame encoder worker unavailable', e);
+      return null;
+    }
+  }
+
+  private postToWorker(request: EncodeRequest, bitmap: ImageBitmap): Promise<EncodeResponse> {
+    return new Promise((resolve, reject) => {
+      if (!this.worker) {
+        bitmap.close();
+        reject(new Error('Frame encoder worker is gone'));
+        return;
+      }
+      this.pending.set(request.id, { resolve, reject });
+      this.worker.postMessage(request, [bitmap]);
+    });
+  }
+
+  private terminateWorker(reason: Error) {
+    this.worker?.terminate();
+    this.worker = null;
+    this.pending.forEach(({ reject }) => reject(reason));
+    this.pending.clear();
+  }
+
+  private emitStats(now: number) {
+    const elapsed = now - this.statsStart;
+    this.callbacks.onStats?.({
+      sentPerSec: (this.sent * 1000) / elapsed,
+      skippedStill: this.skippedStill,
+      skippedBusy: this.skippedBusy,
+      intervalMs: this.intervalMs,
+      latencyMs: this.latencyMs,
+    });
+    this.statsStart = now;
+    this.sent = 0;
+    this.skippedStill = 0;
+    this.skippedBusy = 0;
+  }
+}
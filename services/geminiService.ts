@@ -6,25 +6,148 @@ import {
   FunctionDeclaration,
   FunctionResponse
 } from '@google/genai';
-import { HandState } from '../types';
+import { HandState, HandPosition } from '../types';
+import { VOICE_COMMANDS, parseVoiceCommand } from '../utils/voiceCommands';
+import { MIC_MIME_TYPE } from '../utils/pcm';
+import { GestureSensor, GestureSensorCallbacks, SensorFrame, SensorStatus } from './gestureSensor';
 
-interface GeminiServiceCallbacks {
-  onHandStateChange: (state: HandState) => void;
-  onStatusChange: (connected: boolean) => void;
-  onError: (error: string) => void;
+export interface ReconnectPolicy {
+  baseDelayMs: number;      // First retry waits about this long, doubling each attempt
+  maxDelayMs: number;
+  maxAttempts: number;      // Consecutive failures before giving up ('failed')
+  connectTimeoutMs: number; // A socket that never opens counts as a failure
 }
 
-export class GeminiService {
+export const DEFAULT_RECONNECT_POLICY: ReconnectPolicy = {
+  baseDelayMs: 500,
+  maxDelayMs: 15000,
+  maxAttempts: 8,
+  connectTimeoutMs: 10000,
+};
+
+export interface GeminiServiceOptions {
+  // Point the Live socket somewhere else, e.g. the local stand-in server (server/liveStub.mjs)
+  baseUrl?: string;
+  reconnect?: Partial<ReconnectPolicy>;
+  // Lets the model speak narrated lines (see narrate). Off, it is told never to speak
+  narration?: boolean;
+}
+
+/**
+ * Delay before retry number `attempt` (0-based): exponential, capped, with
+ * "equal jitter" (half fixed, half random) so many clients don't retry in lockstep
+ */
+export const getReconnectDelay = (attempt: number, policy: ReconnectPolicy, random = Math.random()): number => {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return ceiling / 2 + (ceiling / 2) * random;
+};
+
+/**
+ * setHandPosition arguments as a position, clamped to the frame.
+ * Missing or zero size means the hand is out of view
+ */
+export const parseHandPosition = (args: unknown): HandPosition | null => {
+  const { x, y, size } = (args ?? {}) as Record<string, unknown>;
+  if (typeof x !== 'number' || typeof y !== 'number' || typeof size !== 'number' || !(size > 0)) return null;
+  const clamp = (v: number) => Math.min(1, Math.max(0, v));
+  return { x: clamp(x), y: clamp(y), size: clamp(size) };
+};
+
+export class GeminiService implements GestureSensor {
+  public readonly frameKind = 'jpeg' as const;
+
   private ai: GoogleGenAI;
   private sessionPromise: Promise<any> | null = null;
-  private callbacks: GeminiServiceCallbacks;
+  private callbacks: GestureSensorCallbacks;
+  private policy: ReconnectPolicy;
+  private narration: boolean;
+  private status: SensorStatus = 'disconnected';
+  private attempt = 0;
+  private retryTimer: number | null = null;
+  // Bumped per session so callbacks from a dead socket can't touch the current one
+  private generation = 0;
 
-  constructor(apiKey: string, callbacks: GeminiServiceCallbacks) {
-    this.ai = new GoogleGenAI({ apiKey });
+  constructor(apiKey: string, callbacks: GestureSensorCallbacks, options: GeminiServiceOptions = {}) {
+    this.ai = new GoogleGenAI({
+      apiKey,
+      ...(options.baseUrl ? { httpOptions: { baseUrl: options.baseUrl } } : {}),
+    });
     this.callbacks = callbacks;
+    this.policy = { ...DEFAULT_RECONNECT_POLICY, ...options.reconnect };
+    this.narration = !!options.narration;
   }
 
   public async connect() {
+    this.clearRetry();
+    this.attempt = 0;
+    await this.openSession('connecting');
+  }
+
+  public async sendFrame(frame: SensorFrame) {
+    if (this.status !== 'live' || !this.sessionPromise || frame.kind !== 'jpeg') return;
+
+    try {
+      const session = await this.sessionPromise;
+      session.sendRealtimeInput({
+        media: {
+          mimeType: 'image/jpeg',
+          data: frame.data
+        }
+      });
+    } catch (e) {
+      console.error("Error sending frame:", e);
+    }
+  }
+
+  public async sendAudio(data: string) {
+    if (this.status !== 'live' || !this.sessionPromise) return;
+
+    try {
+      const session = await this.sessionPromise;
+      session.sendRealtimeInput({ audio: { mimeType: MIC_MIME_TYPE, data } });
+    } catch (e) {
+      console.error("Error sending audio:", e);
+    }
+  }
+
+  public async endAudio() {
+    if (this.status !== 'live' || !this.sessionPromise) return;
+
+    try {
+      const session = await this.sessionPromise;
+      session.sendRealtimeInput({ audioStreamEnd: true });
+    } catch (e) {
+      console.error("Error ending audio:", e);
+    }
+  }
+
+  public async narrate(request: string) {
+    if (!this.narration || this.status !== 'live' || !this.sessionPromise) return;
+
+    try {
+      const session = await this.sessionPromise;
+      session.sendClientContent({ turns: [{ role: 'user', parts: [{ text: request }] }], turnComplete: true });
+    } catch (e) {
+      console.error("Error requesting narration:", e);
+    }
+  }
+
+  /**
+   * Closes the live session for good; no reconnect follows
+   */
+  public disconnect() {
+    this.clearRetry();
+    this.generation++;
+    this.closeSession();
+    this.attempt = 0;
+    this.setStatus('disconnected');
+  }
+
+  private async openSession(status: SensorStatus) {
+    const generation = ++this.generation;
+    const isCurrent = () => generation === this.generation;
+    this.setStatus(status);
+
     try {
       // Define the tool for the model to report hand state
       const setHandStateTool: FunctionDeclaration = {
@@ -35,19 +158,69 @@ export class GeminiService {
           properties: {
             state: {
               type: Type.STRING,
-              enum: ['OPEN', 'CLOSED'],
-              description: 'OPEN if palm is visible/fingers spread. CLOSED if fist/fingers curled.',
+              enum: ['OPEN', 'CLOSED', 'THUMBS_UP', 'SWIPE_LEFT', 'SWIPE_RIGHT', 'TWO_HANDS_OPEN', 'PEACE'],
+              description: 'OPEN if palm is visible/fingers spread. CLOSED if fist/fingers curled. ' +
+                'THUMBS_UP for a thumbs-up. SWIPE_LEFT/SWIPE_RIGHT for a fast sideways hand sweep, ' +
+                'direction from the person\'s own point of view. TWO_HANDS_OPEN if both palms are open. ' +
+                'PEACE for a V sign (index and middle finger up).',
+            },
+            confidence: {
+              type: Type.NUMBER,
+              description: 'How sure you are about the state, from 0.0 to 1.0.',
             },
           },
           required: ['state'],
         },
       };
 
-      this.sessionPromise = this.ai.live.connect({
+      // And where the hand is, for the particle field
+      const setHandPositionTool: FunctionDeclaration = {
+        name: 'setHandPosition',
+        parameters: {
+          type: Type.OBJECT,
+          description: 'Reports where the user\'s hand is in the video frame.',
+          properties: {
+            x: {
+              type: Type.NUMBER,
+              description: 'Horizontal center of the hand, 0.0 = left edge of the image, 1.0 = right edge.',
+            },
+            y: {
+              type: Type.NUMBER,
+              description: 'Vertical center of the hand, 0.0 = top edge of the image, 1.0 = bottom edge.',
+            },
+            size: {
+              type: Type.NUMBER,
+              description: 'Width of the hand as a fraction of the image width (0.0 to 1.0). 0 if no hand is visible.',
+            },
+          },
+          required: ['x', 'y', 'size'],
+        },
+      };
+
+      // And what the operator says, from the microphone
+      const voiceCommandTool: FunctionDeclaration = {
+        name: 'voiceCommand',
+        parameters: {
+          type: Type.OBJECT,
+          description: 'Runs a show command the operator spoke.',
+          properties: {
+            command: {
+              type: Type.STRING,
+              enum: VOICE_COMMANDS,
+              description: 'NEXT for "next", BACK for "back" or "previous", RESET for "reset", ' +
+                'START_COUNTDOWN for "start countdown" or "start", FIREWORKS for "fireworks".',
+            },
+          },
+          required: ['command'],
+        },
+      };
+
+      const pending = this.ai.live.connect({
         model: 'gemini-2.5-flash-native-audio-preview-09-2025',
         config: {
           responseModalities: [Modality.AUDIO], 
-          tools: [{ functionDeclarations: [setHandStateTool] }],
+          tools: [{ functionDeclarations: [setHandStateTool, setHandPositionTool, voiceCommandTool] }],
+          inputAudioTranscription: {},
           systemInstruction: `
             You are a real-time gesture sensor. 
             Constantly monitor the video input for a hand.
@@ -55,29 +228,59 @@ export class GeminiService {
             Rules:
             1. If you see an OPEN PALM or fingers spread, call setHandState("OPEN").
             2. If you see a CLOSED FIST, call setHandState("CLOSED").
+            3. If you see a THUMBS UP, call setHandState("THUMBS_UP").
+            4. If a hand sweeps quickly sideways, call setHandState("SWIPE_LEFT") or setHandState("SWIPE_RIGHT").
+               Left and right are from the person's point of view (the image is NOT mirrored).
+            5. If BOTH hands are open palms, call setHandState("TWO_HANDS_OPEN").
+            6. If you see a PEACE / V sign, call setHandState("PEACE").
+            7. Always include your confidence from 0.0 to 1.0.
+            8. Whenever the hand moves, call setHandPosition with its center and size in the image.
+               If no hand is visible, call setHandPosition with size 0.
+            9. The audio is the operator's microphone. When they say a show command ("next", "back",
+               "reset", "start countdown", "fireworks", or the same in another language), call
+               voiceCommand once with it. Ignore any other speech.
             
             Do this REPEATEDLY as the state changes. 
-            Do NOT speak. ONLY use the tool.
+            Do NOT speak. ONLY use the tools.${this.narration ? `
+            The one exception: when a text message asks you to narrate a line, say exactly that line
+            aloud in the language it asks for, then go back to watching silently.` : ''}
             Speed is critical.
           `,
         },
         callbacks: {
           onopen: () => {
-            this.callbacks.onStatusChange(true);
             console.log('Gemini Live Connected');
           },
           onmessage: async (message: LiveServerMessage) => {
+            if (!isCurrent()) return;
+
+            // The session is usable once the server has accepted the setup
+            if (message.setupComplete) {
+              this.attempt = 0;
+              this.setStatus('live');
+            }
+
+            // What the microphone picked up, in fragments
+            const heard = message.serverContent?.inputTranscription?.text;
+            if (heard) this.callbacks.onTranscript?.(heard);
+
+            // Narration: speech arrives in pieces; the model stops when the operator talks over it
+            if (message.serverContent?.interrupted) this.callbacks.onSpeechInterrupted?.();
+            for (const part of message.serverContent?.modelTurn?.parts ?? []) {
+              const audio = part.inlineData;
+              if (audio?.data && audio.mimeType?.startsWith('audio/pcm')) this.callbacks.onSpeech?.(audio.data, audio.mimeType);
+            }
+
             // Handle Tool Calls
             if (message.toolCall) {
               const responses: FunctionResponse[] = [];
               for (const fc of message.toolCall.functionCalls) {
                 if (fc.name === 'setHandState') {
-                  const stateStr = (fc.args as any).state;
-                  console.log('Gemini Tool Call:', stateStr);
-                  const state = stateStr === 'OPEN' ? HandState.OPEN : 
-                                stateStr === 'CLOSED' ? HandState.CLOSED : HandState.UNKNOWN;
+                  const { state: stateStr, confidence } = fc.args as any;
+                  console.log('Gemini Tool Call:', stateStr, confidence);
+                  const state = Object.values(HandState).includes(stateStr) ? stateStr as HandState : HandState.UNKNOWN;
                   
-                  this.callbacks.onHandStateChange(state);
+                  this.callbacks.onHandStateChange(state, typeof confidence === 'number' ? confidence : undefined);
                   
                   // Acknowledge the call
                   responses.push({
@@ -85,50 +288,89 @@ export class GeminiService {
                     name: fc.name,
                     response: { result: 'ok' }
                   });
+                } else if (fc.name === 'setHandPosition') {
+                  this.callbacks.onHandPosition?.(parseHandPosition(fc.args));
+                  responses.push({ id: fc.id, name: fc.name, response: { result: 'ok' } });
+                } else if (fc.name === 'voiceCommand') {
+                  const command = parseVoiceCommand(fc.args);
+                  console.log('Gemini Voice Command:', command);
+                  if (command) this.callbacks.onVoiceCommand?.(command);
+                  responses.push({ id: fc.id, name: fc.name, response: command ? { result: 'ok' } : { error: 'Unknown command' } });
                 }
               }
 
               // Send response back to model to keep context (required by API)
-              if (responses.length > 0 && this.sessionPromise) {
+              if (responses.length > 0 && this.sessionPromise && isCurrent()) {
                 const session = await this.sessionPromise;
                 session.sendToolResponse({ functionResponses: responses });
               }
             }
           },
-          onclose: () => {
-            this.callbacks.onStatusChange(false);
+          onclose: (e: CloseEvent) => {
+            if (!isCurrent()) return;
+            console.warn('Gemini Live closed', e.code, e.reason);
+            this.handleDrop(e.reason || `Connection closed (${e.code})`);
           },
           onerror: (e) => {
-            this.callbacks.onError(e.message || 'Unknown error');
+            if (!isCurrent()) return;
+            console.error('Gemini Live error', e);
           }
         }
       });
-      
-      await this.sessionPromise;
+      this.sessionPromise = pending;
+
+      // The SDK waits for the socket to open and never rejects if it doesn't
+      let timeout: number | undefined;
+      await Promise.race([
+        pending,
+        new Promise((_, reject) => {
+          timeout = window.setTimeout(() => reject(new Error('Timed out connecting to Gemini Live')), this.policy.connectTimeoutMs);
+        }),
+      ]).finally(() => clearTimeout(timeout));
 
     } catch (err: any) {
-      this.callbacks.onError(err.message);
-      this.callbacks.onStatusChange(false);
+      if (!isCurrent()) return;
+      this.handleDrop(err.message || 'Could not connect to Gemini Live');
     }
   }
 
-  public async sendFrame(base64Image: string) {
-    if (!this.sessionPromise) return;
+  // Socket closed or never opened: retry with backoff until the policy runs out
+  private handleDrop(reason: string) {
+    this.generation++;
+    this.closeSession();
 
-    try {
-      const session = await this.sessionPromise;
-      session.sendRealtimeInput({
-        media: {
-          mimeType: 'image/jpeg',
-          data: base64Image
-        }
-      });
-    } catch (e) {
-      console.error("Error sending frame:", e);
+    if (this.attempt >= this.policy.maxAttempts) {
+      this.setStatus('failed');
+      this.callbacks.onError(`Gemini Live link lost: ${reason}. Gave up after ${this.attempt} retries.`);
+      return;
     }
+
+    const delay = getReconnectDelay(this.attempt, this.policy);
+    this.attempt++;
+    this.setStatus('reconnecting');
+    console.log(`Gemini Live reconnect ${this.attempt}/${this.policy.maxAttempts} in ${Math.round(delay)}ms`);
+    this.retryTimer = window.setTimeout(() => {
+      this.retryTimer = null;
+      this.openSession('reconnecting');
+    }, delay);
   }
 
-  public disconnect() {
+  private closeSession() {
+    const pending = this.sessionPromise;
     this.sessionPromise = null;
+    pending?.then((session) => session.close()).catch(() => {
+      // Never opened, nothing to close
+    });
+  }
+
+  private clearRetry() {
+    if (this.retryTimer !== null) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+  }
+
+  private setStatus(status: SensorStatus) {
+    if (status === this.status) return;
+    this.status = status;
+    this.callbacks.onStatusChange(status);
   }
 }
\ No newline at end of file
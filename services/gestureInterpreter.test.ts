@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { HandState, GestureAction } from '../types';
+import { GestureInterpreter, DEFAULT_GESTURE_THRESHOLDS } from './gestureInterpreter';
+
+// Reports are fed with explicit timestamps, so nothing here depends on the real clock
+const setup = () => {
+  const actions: GestureAction[] = [];
+  const interpreter = new GestureInterpreter({ onAction: (action) => actions.push(action) });
+  return { interpreter, actions };
+};
+
+const { openDwellMs, closedConfirmCount, cooldownMs, reportTimeoutMs } = DEFAULT_GESTURE_THRESHOLDS;
+
+// Open hand held long enough to arm, starting at `t`. Returns the time of the last report
+const arm = (interpreter: GestureInterpreter, t: number): number => {
+  interpreter.report(HandState.OPEN, 1, t);
+  interpreter.report(HandState.OPEN, 1, t + openDwellMs);
+  return t + openDwellMs;
+};
+
+const fist = (interpreter: GestureInterpreter, t: number, count = closedConfirmCount): number => {
+  for (let i = 0; i < count; i++) interpreter.report(HandState.CLOSED, 1, t + i * 100);
+  return t + (count - 1) * 100;
+};
+
+describe('GestureInterpreter OPEN -> CLOSED', () => {
+  it('fires TRIGGER on an armed open hand closing', () => {
+    const { interpreter, actions } = setup();
+    fist(interpreter, arm(interpreter, 0) + 100);
+    expect(actions).toEqual(['TRIGGER']);
+    expect(interpreter.getStatus().phase).toBe('COOLDOWN');
+  });
+
+  it('does not arm before the open hand has dwelled', () => {
+    const { interpreter, actions } = setup();
+    interpreter.report(HandState.OPEN, 1, 0);
+    fist(interpreter, openDwellMs / 2);
+    expect(actions).toEqual([]);
+  });
+
+  it('ignores a fist without an open hand first', () => {
+    const { interpreter, actions } = setup();
+    fist(interpreter, 0, 5);
+    expect(actions).toEqual([]);
+    expect(interpreter.getStatus().phase).toBe('IDLE');
+  });
+
+  it('needs enough consecutive CLOSED reports', () => {
+    const { interpreter, actions } = setup();
+    const t = arm(interpreter, 0);
+    interpreter.report(HandState.CLOSED, 1, t + 100);
+    expect(interpreter.getStatus().phase).toBe('CONFIRMING');
+    // A CLOSED blip followed by OPEN stays armed but starts counting again
+    interpreter.report(HandState.OPEN, 1, t + 200);
+    expect(interpreter.getStatus().phase).toBe('ARMED');
+    interpreter.report(HandState.CLOSED, 1, t + 300);
+    expect(actions).toEqual([]);
+    interpreter.report(HandState.CLOSED, 1, t + 400);
+    expect(actions).toEqual(['TRIGGER']);
+  });
+
+  it('fires once per edge, not per report', () => {
+    const { interpreter, actions } = setup();
+    const t = fist(interpreter, arm(interpreter, 0) + 100, 10);
+    expect(actions).toEqual(['TRIGGER']);
+    // Still closed after the cooldown: no new edge
+    fist(interpreter, t + cooldownMs + 100, 5);
+    expect(actions).toEqual(['TRIGGER']);
+  });
+
+  it('fires again after the cooldown for a new open -> closed', () => {
+    const { interpreter, actions } = setup();
+    const t = fist(interpreter, arm(interpreter, 0) + 100);
+    fist(interpreter, arm(interpreter, t + cooldownMs) + 100);
+    expect(actions).toEqual(['TRIGGER', 'TRIGGER']);
+  });
+
+  it('drops reports below the confidence floor', () => {
+    const { interpreter, actions } = setup();
+    const t = arm(interpreter, 0);
+    interpreter.report(HandState.CLOSED, 0.1, t + 100);
+    interpreter.report(HandState.CLOSED, 0.1, t + 200);
+    expect(actions).toEqual([]);
+    expect(interpreter.getStatus().phase).toBe('ARMED');
+  });
+
+  it('disarms when the sensor goes quiet', () => {
+    const { interpreter, actions } = setup();
+    const t = arm(interpreter, 0);
+    interpreter.tick(t + reportTimeoutMs + 1);
+    expect(interpreter.getStatus().phase).toBe('IDLE');
+    fist(interpreter, t + reportTimeoutMs + 100);
+    expect(actions).toEqual([]);
+  });
+
+  it('arms from tick() once the dwell has passed', () => {
+    const { interpreter } = setup();
+    interpreter.report(HandState.OPEN, 1, 0);
+    interpreter.tick(openDwellMs);
+    expect(interpreter.getStatus().phase).toBe('ARMED');
+  });
+});
+
+describe('GestureInterpreter poses', () => {
+  it('fires a swipe on its first report', () => {
+    const { interpreter, actions } = setup();
+    interpreter.report(HandState.SWIPE_RIGHT, 1, 0);
+    expect(actions).toEqual(['NEXT']);
+  });
+
+  it('holds the peace sign before resetting', () => {
+    const { interpreter, actions } = setup();
+    interpreter.report(HandState.PEACE, 1, 0);
+    interpreter.report(HandState.PEACE, 1, 500);
+    expect(actions).toEqual([]);
+    interpreter.tick(1000);
+    expect(actions).toEqual(['RESET']);
+  });
+
+  it('interrupts an armed trigger', () => {
+    const { interpreter, actions } = setup();
+    const t = arm(interpreter, 0);
+    interpreter.report(HandState.THUMBS_UP, 1, t + 100);
+    fist(interpreter, t + 200);
+    expect(actions).toEqual([]);
+  });
+});
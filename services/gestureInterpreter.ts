@@ -0,0 +1,234 @@
+import { HandState, GestureAction } from '../types';
+
+export interface GestureThresholds {
+  minConfidence: number;     // Reports below this are ignored entirely (0-1)
+  openDwellMs: number;       // OPEN must be held this long before the trigger arms
+  closedConfirmCount: number; // Consecutive CLOSED reports needed to fire
+  cooldownMs: number;        // Dead time after each trigger
+  reportTimeoutMs: number;   // Silence longer than this disarms
+}
+
+export const DEFAULT_GESTURE_THRESHOLDS: GestureThresholds = {
+  minConfidence: 0.5,
+  openDwellMs: 400,
+  closedConfirmCount: 2,
+  cooldownMs: 1200,
+  reportTimeoutMs: 3000,
+};
+
+// Single-pose gestures (everything except the OPEN -> CLOSED sequence)
+export type PoseGesture = Exclude<HandState, HandState.UNKNOWN | HandState.OPEN | HandState.CLOSED>;
+
+export interface PoseBinding {
+  pose: PoseGesture;
+  action: GestureAction;
+  minReports: number; // Consecutive reports of the pose before it fires
+  holdMs: number;     // ...and for at least this long
+}
+
+export const DEFAULT_POSE_BINDINGS: PoseBinding[] = [
+  { pose: HandState.THUMBS_UP, action: 'CONFIRM', minReports: 2, holdMs: 0 },
+  // Swipes are motion, the model sees them in a frame or two at most
+  { pose: HandState.SWIPE_RIGHT, action: 'NEXT', minReports: 1, holdMs: 0 },
+  { pose: HandState.SWIPE_LEFT, action: 'PREVIOUS', minReports: 1, holdMs: 0 },
+  { pose: HandState.TWO_HANDS_OPEN, action: 'TOGGLE_PAUSE', minReports: 2, holdMs: 0 },
+  // Reset is destructive mid-show, so it has to be held
+  { pose: HandState.PEACE, action: 'RESET', minReports: 2, holdMs: 1000 },
+];
+
+// Shown next to each pose's localized name ('pose.*' messages)
+export const POSE_ICONS: Record<PoseGesture, string> = {
+  [HandState.THUMBS_UP]: '👍',
+  [HandState.SWIPE_RIGHT]: '👉',
+  [HandState.SWIPE_LEFT]: '👈',
+  [HandState.TWO_HANDS_OPEN]: '🙌',
+  [HandState.PEACE]: '✌️',
+};
+
+// IDLE -> DWELL (open seen) -> ARMED (open held) -> CONFIRMING (closed seen) -> fire -> COOLDOWN -> IDLE
+// HOLDING tracks a single-pose gesture until its binding is satisfied
+export type GesturePhase = 'IDLE' | 'DWELL' | 'ARMED' | 'CONFIRMING' | 'HOLDING' | 'COOLDOWN';
+
+export interface GestureStatus {
+  phase: GesturePhase;
+  closedCount: number;
+  pose: PoseGesture | null;      // Pose being held, only while HOLDING
+  lastAction: GestureAction | null;
+  cooldownUntil: number | null;  // epoch ms, only while cooling down
+}
+
+interface GestureInterpreterCallbacks {
+  onAction: (action: GestureAction) => void;
+  onStatusChange?: (status: GestureStatus) => void;
+}
+
+/**
+ * Turns a noisy stream of hand-state reports into deliberate gesture actions:
+ * the OPEN -> CLOSED trigger plus the single-pose bindings. Call report() for
+ * every sensor report and tick() periodically so timeouts, holds and
+ * cooldowns progress even when the sensor goes quiet.
+ */
+export class GestureInterpreter {
+  private callbacks: GestureInterpreterCallbacks;
+  private thresholds: GestureThresholds;
+  private bindings: PoseBinding[];
+  private phase: GesturePhase = 'IDLE';
+  private openSince = 0;
+  private closedCount = 0;
+  private pose: PoseGesture | null = null;
+  private poseSince = 0;
+  private poseCount = 0;
+  private lastAction: GestureAction | null = null;
+  private cooldownUntil = 0;
+  private lastReportAt = 0;
+
+  constructor(
+    callbacks: GestureInterpreterCallbacks,
+    thresholds: Partial<GestureThresholds> = {},
+    bindings: PoseBinding[] = DEFAULT_POSE_BINDINGS
+  ) {
+    this.callbacks = callbacks;
+    this.thresholds = { ...DEFAULT_GESTURE_THRESHOLDS, ...thresholds };
+    this.bindings = bindings;
+  }
+
+  public configure(thresholds: Partial<GestureThresholds>) {
+    this.thresholds = { ...this.thresholds, ...thresholds };
+  }
+
+  public getThresholds(): GestureThresholds {
+    return { ...this.thresholds };
+  }
+
+  public getBindings(): PoseBinding[] {
+    return this.bindings;
+  }
+
+  public getStatus(): GestureStatus {
+    return {
+      phase: this.phase,
+      closedCount: this.closedCount,
+      pose: this.phase === 'HOLDING' ? this.pose : null,
+      lastAction: this.lastAction,
+      cooldownUntil: this.phase === 'COOLDOWN' ? this.cooldownUntil : null,
+    };
+  }
+
+  public report(state: HandState, confidence = 1, now = Date.now()) {
+    if (confidence < this.thresholds.minConfidence) return;
+    this.lastReportAt = now;
+    this.expireCooldown(now);
+
+    if (this.phase === 'COOLDOWN') return;
+
+    const binding = this.bindings.find((b) => b.pose === state);
+    if (binding) {
+      this.reportPose(binding, now);
+      return;
+    }
+
+    switch (state) {
+      case HandState.OPEN:
+        if (this.phase === 'IDLE' || this.phase === 'HOLDING') {
+          this.openSince = now;
+          this.setPhase('DWELL');
+        } else if (this.phase === 'CONFIRMING') {
+          // A lone CLOSED blip between OPENs: stay armed, start counting again
+          this.closedCount = 0;
+          this.setPhase('ARMED');
+        }
+        this.checkDwell(now);
+        break;
+
+      case HandState.CLOSED:
+        if (this.phase === 'ARMED' || this.phase === 'CONFIRMING') {
+          this.closedCount++;
+          if (this.closedCount >= this.thresholds.closedConfirmCount) {
+            this.fire('TRIGGER', now);
+          } else {
+            this.setPhase('CONFIRMING');
+          }
+        } else {
+          // Fist without a held open hand first doesn't count
+          this.disarm();
+        }
+        break;
+
+      default:
+        // UNKNOWN, or a pose with no binding
+        this.disarm();
+    }
+  }
+
+  public tick(now = Date.now()) {
+    this.expireCooldown(now);
+    if (this.phase !== 'IDLE' && this.phase !== 'COOLDOWN' && now - this.lastReportAt > this.thresholds.reportTimeoutMs) {
+      this.disarm();
+      return;
+    }
+    this.checkDwell(now);
+    this.checkPose(now);
+  }
+
+  public reset() {
+    this.disarm();
+  }
+
+  private reportPose(binding: PoseBinding, now: number) {
+    if (this.phase === 'HOLDING' && this.pose === binding.pose) {
+      this.poseCount++;
+    } else {
+      // Any pose interrupts the OPEN -> CLOSED sequence
+      this.closedCount = 0;
+      this.pose = binding.pose;
+      this.poseSince = now;
+      this.poseCount = 1;
+      this.setPhase('HOLDING');
+    }
+    this.checkPose(now);
+  }
+
+  private checkPose(now: number) {
+    if (this.phase !== 'HOLDING' || !this.pose) return;
+    const binding = this.bindings.find((b) => b.pose === this.pose);
+    if (binding && this.poseCount >= binding.minReports && now - this.poseSince >= binding.holdMs) {
+      this.fire(binding.action, now);
+    }
+  }
+
+  private checkDwell(now: number) {
+    if (this.phase === 'DWELL' && now - this.openSince >= this.thresholds.openDwellMs) {
+      this.setPhase('ARMED');
+    }
+  }
+
+  private fire(action: GestureAction, now: number) {
+    this.closedCount = 0;
+    this.pose = null;
+    this.lastAction = action;
+    this.cooldownUntil = now + this.thresholds.cooldownMs;
+    this.setPhase('COOLDOWN');
+    this.callbacks.onAction(action);
+  }
+
+  private expireCooldown(now: number) {
+    if (this.phase === 'COOLDOWN' && now >= this.cooldownUntil) {
+      this.setPhase('IDLE');
+    }
+  }
+
+  private disarm() {
+    this.closedCount = 0;
+    this.pose = null;
+    this.setPhase('IDLE');
+  }
+
+  private setPhase(phase: GesturePhase) {
+    const changed = phase !== this.phase;
+    this.phase = phase;
+    // CONFIRMING/HOLDING report progress on every report, other phases only on change
+    if (changed || phase === 'CONFIRMING' || phase === 'HOLDING') {
+      this.callbacks.onStatusChange?.(this.getStatus());
+    }
+  }
+}
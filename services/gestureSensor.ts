@@ -0,0 +1,60 @@
+import { HandState, HandPosition, VoiceCommand, GestureAction } from '../types';
+import type { ActionSource } from './sessionLog';
+
+// Link lifecycle. Only 'live' sensors get camera frames
+// - 'reconnecting': the link dropped and the sensor is retrying on its own
+// - 'failed': retries ran out; the user has to initialize again
+export type SensorStatus = 'disconnected' | 'connecting' | 'live' | 'reconnecting' | 'failed';
+
+export interface GestureSensorCallbacks {
+  // confidence is 0-1 when the sensor can estimate it, otherwise omitted (treated as 1)
+  onHandStateChange: (state: HandState, confidence?: number) => void;
+  // Sensors that can locate the hand report it here; null = no hand in view
+  onHandPosition?: (position: HandPosition | null) => void;
+  // Sensors that listen to the microphone report spoken commands, and what they hear as it comes in
+  onVoiceCommand?: (command: VoiceCommand) => void;
+  onTranscript?: (text: string) => void;
+  // Only replays send these: actions from the log that came from outside any sensor (remote, panel, keyboard)
+  onAction?: (action: GestureAction, source: ActionSource) => void;
+  // Sensors that can narrate send their speech as it's generated (base64 PCM, rate in the mime type),
+  // and say when it was cut short so queued speech can be dropped
+  onSpeech?: (data: string, mimeType: string) => void;
+  onSpeechInterrupted?: () => void;
+  onStatusChange: (status: SensorStatus) => void;
+  onError: (error: string) => void;
+}
+
+// What a sensor wants from the camera loop
+// - 'jpeg': base64 JPEG payload (no data: prefix), for remote models
+// - 'pixels': raw ImageData, for on-device heuristics
+export type SensorFrameKind = 'jpeg' | 'pixels';
+
+export type SensorFrame =
+  | { kind: 'jpeg'; data: string }
+  | { kind: 'pixels'; image: ImageData };
+
+/**
+ * Common surface for anything that can report a HandState
+ */
+export interface GestureSensor {
+  // null = no camera needed (e.g. scripted sensors)
+  readonly frameKind: SensorFrameKind | null;
+  connect(): Promise<void>;
+  disconnect(): void;
+  sendFrame(frame: SensorFrame): Promise<void>;
+  // Microphone audio (base64 16 kHz PCM, see utils/pcm.ts), for sensors that take voice commands.
+  // endAudio marks a pause in the stream, e.g. the push-to-talk button was released
+  sendAudio?(data: string): Promise<void>;
+  endAudio?(): Promise<void>;
+  // Asks the sensor to speak (see utils/narration.ts); the audio arrives through onSpeech
+  narrate?(request: string): Promise<void>;
+  // Sensors on their own clock (replays) report its time here, used for gesture timing instead of Date.now()
+  now?(): number;
+  // How fast that clock runs against the wall clock (a 4× replay says 4); timed stages follow it
+  readonly clockRate?: number;
+}
+
+export type SensorType = 'gemini' | 'local' | 'mock' | 'replay';
+
+// In the order the sensor picker lists them; names come from the 'sensor.*' messages
+export const SENSOR_TYPES: SensorType[] = ['gemini', 'local', 'mock', 'replay'];
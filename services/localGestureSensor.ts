@@ -0,0 +1,149 @@
+import { HandState, HandPosition } from '../types';
+import { GestureSensor, GestureSensorCallbacks, SensorFrame } from './gestureSensor';
+
+export interface LocalSensorOptions {
+  gridWidth: number;      // Frames are downsampled to this many columns before analysis
+  minAreaRatio: number;   // Smallest blob (fraction of the grid) that counts as a hand
+  openFillRatio: number;  // Blob fill of its bounding box below this = OPEN (spread fingers leave gaps)
+  closedFillRatio: number; // Above this = CLOSED (a fist is a compact blob)
+}
+
+const DEFAULT_OPTIONS: LocalSensorOptions = {
+  gridWidth: 80,
+  minAreaRatio: 0.02,
+  openFillRatio: 0.55,
+  closedFillRatio: 0.68,
+};
+
+// Classic YCbCr skin range, good enough under normal indoor lighting
+const isSkin = (r: number, g: number, b: number): boolean => {
+  const cb = 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+  const cr = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+  return cb >= 77 && cb <= 127 && cr >= 133 && cr <= 173;
+};
+
+/**
+ * On-device hand detector. Builds a coarse skin mask, keeps the largest
+ * connected blob and classifies it by how much of its bounding box it fills.
+ * Works best with the hand closer to the camera than the face.
+ */
+export class LocalGestureSensor implements GestureSensor {
+  public readonly frameKind = 'pixels' as const;
+
+  private callbacks: GestureSensorCallbacks;
+  private options: LocalSensorOptions;
+  private connected = false;
+  private lastState: HandState = HandState.UNKNOWN;
+
+  constructor(callbacks: GestureSensorCallbacks, options: Partial<LocalSensorOptions> = {}) {
+    this.callbacks = callbacks;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  public async connect() {
+    this.connected = true;
+    this.lastState = HandState.UNKNOWN;
+    this.callbacks.onStatusChange('live');
+  }
+
+  public async sendFrame(frame: SensorFrame) {
+    if (!this.connected || frame.kind !== 'pixels') return;
+
+    try {
+      const { state, confidence, position } = this.classify(frame.image);
+      this.lastState = state;
+      this.callbacks.onHandStateChange(state, confidence);
+      this.callbacks.onHandPosition?.(position);
+    } catch (e) {
+      console.error('Local sensor failed on frame:', e);
+    }
+  }
+
+  public disconnect() {
+    if (!this.connected) return;
+    this.connected = false;
+    this.callbacks.onStatusChange('disconnected');
+  }
+
+  private classify(image: ImageData): { state: HandState; confidence: number; position: HandPosition | null } {
+    const { width, height, data } = image;
+    const step = Math.max(1, Math.floor(width / this.options.gridWidth));
+    const cols = Math.floor(width / step);
+    const rows = Math.floor(height / step);
+
+    // Skin mask on the downsampled grid
+    const mask = new Uint8Array(cols * rows);
+    for (let gy = 0; gy < rows; gy++) {
+      for (let gx = 0; gx < cols; gx++) {
+        const index = (gy * step * width + gx * step) * 4;
+        if (isSkin(data[index], data[index + 1], data[index + 2])) {
+          mask[gy * cols + gx] = 1;
+        }
+      }
+    }
+
+    // Largest 4-connected component
+    const labels = new Int32Array(cols * rows);
+    const stack: number[] = [];
+    let best = { area: 0, minX: 0, maxX: 0, minY: 0, maxY: 0, sumX: 0, sumY: 0 };
+    let label = 0;
+
+    for (let start = 0; start < mask.length; start++) {
+      if (!mask[start] || labels[start]) continue;
+      label++;
+      labels[start] = label;
+      stack.push(start);
+      const blob = { area: 0, minX: cols, maxX: 0, minY: rows, maxY: 0, sumX: 0, sumY: 0 };
+
+      while (stack.length > 0) {
+        const cell = stack.pop()!;
+        const x = cell % cols;
+        const y = (cell - x) / cols;
+        blob.area++;
+        blob.sumX += x;
+        blob.sumY += y;
+        if (x < blob.minX) blob.minX = x;
+        if (x > blob.maxX) blob.maxX = x;
+        if (y < blob.minY) blob.minY = y;
+        if (y > blob.maxY) blob.maxY = y;
+
+        const neighbors = [
+          x > 0 ? cell - 1 : -1,
+          x < cols - 1 ? cell + 1 : -1,
+          y > 0 ? cell - cols : -1,
+          y < rows - 1 ? cell + cols : -1,
+        ];
+        for (const n of neighbors) {
+          if (n >= 0 && mask[n] && !labels[n]) {
+            labels[n] = label;
+            stack.push(n);
+          }
+        }
+      }
+
+      if (blob.area > best.area) best = blob;
+    }
+
+    if (best.area < cols * rows * this.options.minAreaRatio) {
+      return { state: HandState.UNKNOWN, confidence: 1, position: null };
+    }
+
+    // Centroid rather than box center, so a raised finger doesn't drag it around
+    const position = {
+      x: (best.sumX / best.area + 0.5) / cols,
+      y: (best.sumY / best.area + 0.5) / rows,
+      size: (best.maxX - best.minX + 1) / cols,
+    };
+
+    const boxArea = (best.maxX - best.minX + 1) * (best.maxY - best.minY + 1);
+    const fill = best.area / boxArea;
+    // The further from the ambiguous band, the surer we are
+    const mid = (this.options.openFillRatio + this.options.closedFillRatio) / 2;
+    const confidence = Math.min(1, 0.5 + Math.abs(fill - mid) * 4);
+
+    if (fill < this.options.openFillRatio) return { state: HandState.OPEN, confidence, position };
+    if (fill > this.options.closedFillRatio) return { state: HandState.CLOSED, confidence, position };
+    // In the ambiguous band, repeat whatever we saw last but flag it as a guess
+    return { state: this.lastState, confidence: 0.3, position };
+  }
+}
@@ -0,0 +1,96 @@
+import { MIC_SAMPLE_RATE, resample, floatToPcm16, pcm16ToBase64 } from '../utils/pcm';
+
+export interface MicrophoneStreamCallbacks {
+  onChunk: (data: string) => void; // base64 16 kHz 16-bit mono PCM, about CHUNK_MS long
+}
+
+// Copies the microphone's samples out of the audio thread as they arrive
+const CAPTURE_WORKLET = `
+  class MicCapture extends AudioWorkletProcessor {
+    process(inputs) {
+      const channel = inputs[0] && inputs[0][0];
+      if (channel) this.port.postMessage(channel.slice(0));
+      return true;
+    }
+  }
+  registerProcessor('mic-capture', MicCapture);
+`;
+
+/**
+ * Streams the microphone as Live API audio chunks. Runs at the audio
+ * context's own rate and resamples to 16 kHz per chunk; the browser does the
+ * echo cancellation, so the show's own sounds mostly stay out.
+ */
+export class MicrophoneStream {
+  private callbacks: MicrophoneStreamCallbacks;
+  private stream: MediaStream | null = null;
+  private context: AudioContext | null = null;
+  private node: AudioWorkletNode | null = null;
+  private buffered: Float32Array[] = [];
+  private bufferedLength = 0;
+
+  private static readonly CHUNK_MS = 100;
+
+  constructor(callbacks: MicrophoneStreamCallbacks) {
+    this.callbacks = callbacks;
+  }
+
+  /**
+   * Asks for the microphone and starts streaming. Throws if access is denied
+   */
+  public async start() {
+    if (this.stream) return;
+    try {
+      this.stream = await navigator.mediaDevices.getUserMedia({
+        audio: { channelCount: 1, echoCancellation: true, noiseSuppression: true, autoGainControl: true },
+      });
+      const context = new AudioContext();
+      this.context = context;
+      const url = URL.createObjectURL(new Blob([CAPTURE_WORKLET], { type: 'application/javascript' }));
+      try {
+        await context.audioWorklet.addModule(url);
+      } finally {
+        URL.revokeObjectURL(url);
+      }
+      // Stopped while the module loaded
+      if (this.context !== context || !this.stream) return;
+
+      // No outputs: a sink, so nothing reaches the speakers
+      const node = new AudioWorkletNode(context, 'mic-capture', { numberOfInputs: 1, numberOfOutputs: 0 });
+      node.port.onmessage = (e: MessageEvent<Float32Array>) => this.push(e.data, context.sampleRate);
+      context.createMediaStreamSource(this.stream).connect(node);
+      this.node = node;
+    } catch (e) {
+      this.stop();
+      throw e;
+    }
+  }
+
+  public stop() {
+    this.node?.port.close();
+    this.node?.disconnect();
+    this.node = null;
+    this.context?.close().catch(() => {});
+    this.context = null;
+    this.stream?.getTracks().forEach((track) => track.stop());
+    this.stream = null;
+    this.buffered = [];
+    this.bufferedLength = 0;
+  }
+
+  private push(samples: Float32Array, sampleRate: number) {
+    this.buffered.push(samples);
+    this.bufferedLength += samples.length;
+    if (this.bufferedLength < (sampleRate * MicrophoneStream.CHUNK_MS) / 1000) return;
+
+    const chunk = new Float32Array(this.bufferedLength);
+    let offset = 0;
+    for (const part of this.buffered) {
+      chunk.set(part, offset);
+      offset += part.length;
+    }
+    this.buffered = [];
+    this.bufferedLength = 0;
+    this.callbacks.onChunk(pcm16ToBase64(floatToPcm16(resample(chunk, sampleRate, MIC_SAMPLE_RATE))));
+  }
+}
@@ -0,0 +1,94 @@
+import { HandState } from '../types';
+import { GestureSensor, GestureSensorCallbacks, SensorFrame } from './gestureSensor';
+
+export interface ScriptedGesture {
+  state: HandState;
+  holdMs: number; // How long to report this state before moving on
+}
+
+// Open, then fist: one stage advance every ~3 seconds
+export const DEFAULT_GESTURE_SCRIPT: ScriptedGesture[] = [
+  { state: HandState.OPEN, holdMs: 1800 },
+  { state: HandState.CLOSED, holdMs: 1200 },
+];
+
+/**
+ * Plays back a fixed gesture script on a timer. No camera, no network.
+ * Useful for rehearsals and for exercising the stage logic.
+ */
+export class MockGestureSensor implements GestureSensor {
+  public readonly frameKind = null;
+
+  private callbacks: GestureSensorCallbacks;
+  private script: ScriptedGesture[];
+  private loop: boolean;
+  private reportIntervalMs: number;
+  private connected = false;
+  private stepIndex = 0;
+  private stepTimer: number | null = null;
+  private reportTimer: number | null = null;
+
+  constructor(
+    callbacks: GestureSensorCallbacks,
+    script: ScriptedGesture[] = DEFAULT_GESTURE_SCRIPT,
+    options: { loop?: boolean; reportIntervalMs?: number } = {}
+  ) {
+    this.callbacks = callbacks;
+    this.script = script;
+    this.loop = options.loop ?? true;
+    // Repeat the current state like a live sensor would
+    this.reportIntervalMs = options.reportIntervalMs ?? 300;
+  }
+
+  public async connect() {
+    if (this.script.length === 0) {
+      this.callbacks.onError('Gesture script is empty');
+      return;
+    }
+    this.stepIndex = 0;
+    this.connected = true;
+    this.callbacks.onStatusChange('live');
+    this.playStep();
+  }
+
+  public async sendFrame(_frame: SensorFrame) {
+    // Scripted sensor ignores camera input
+  }
+
+  public disconnect() {
+    if (!this.connected) return;
+    this.connected = false;
+    this.clearTimers();
+    this.callbacks.onStatusChange('disconnected');
+  }
+
+  private playStep() {
+    this.clearTimers();
+    const step = this.script[this.stepIndex];
+    this.callbacks.onHandStateChange(step.state);
+
+    this.reportTimer = window.setInterval(() => {
+      this.callbacks.onHandStateChange(step.state);
+    }, this.reportIntervalMs);
+
+    this.stepTimer = window.setTimeout(() => {
+      this.stepIndex++;
+      if (this.stepIndex >= this.script.length) {
+        if (!this.loop) {
+          this.clearTimers();
+          this.callbacks.onHandStateChange(HandState.UNKNOWN);
+          return;
+        }
+        this.stepIndex = 0;
+      }
+      this.playStep();
+    }, step.holdMs);
+  }
+
+  private clearTimers() {
+    if (this.stepTimer !== null) clearTimeout(this.stepTimer);
+    if (this.reportTimer !== null) clearInterval(this.reportTimer);
+    this.stepTimer = null;
+    this.reportTimer = null;
+  }
+}
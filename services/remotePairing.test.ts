@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { RemotePairing, PairingStorage, DEFAULT_PAIRING_OPTIONS } from './remotePairing';
+
+// A Map standing in for sessionStorage, shared between "reloads"
+const memoryStorage = (): PairingStorage => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => { items.set(key, value); },
+  };
+};
+
+const wrongCode = (pairing: RemotePairing) => (pairing.code === '0000' ? '0001' : '0000');
+
+const { maxFailures, lockoutMs } = DEFAULT_PAIRING_OPTIONS;
+
+describe('RemotePairing', () => {
+  it('issues a token for the right code and accepts only that token', () => {
+    const pairing = new RemotePairing(null);
+    const attempt = pairing.pair(pairing.code, 0);
+    expect(attempt.ok).toBe(true);
+    if (!attempt.ok) return;
+    expect(pairing.isPaired(attempt.token)).toBe(true);
+    expect(pairing.isPaired(pairing.code)).toBe(false);
+    expect(pairing.isPaired(undefined)).toBe(false);
+  });
+
+  it('rejects a wrong code', () => {
+    const pairing = new RemotePairing(null);
+    expect(pairing.pair(wrongCode(pairing), 0)).toEqual({ ok: false });
+  });
+
+  it('locks out after repeated wrong codes, even for the right one', () => {
+    const pairing = new RemotePairing(null);
+    for (let i = 0; i < maxFailures - 1; i++) pairing.pair(wrongCode(pairing), i);
+    expect(pairing.pair(wrongCode(pairing), 10)).toEqual({ ok: false, retryAfterMs: lockoutMs });
+    expect(pairing.pair(pairing.code, 1010)).toEqual({ ok: false, retryAfterMs: lockoutMs - 1000 });
+    expect(pairing.pair(pairing.code, 10 + lockoutMs).ok).toBe(true);
+  });
+
+  it('resets the failure count after a successful pair', () => {
+    const pairing = new RemotePairing(null);
+    for (let i = 0; i < maxFailures - 1; i++) pairing.pair(wrongCode(pairing), i);
+    pairing.pair(pairing.code, 10);
+    expect(pairing.pair(wrongCode(pairing), 20)).toEqual({ ok: false });
+  });
+
+  it('keeps the code and tokens across a reload', () => {
+    const storage = memoryStorage();
+    const before = new RemotePairing(storage);
+    const attempt = before.pair(before.code, 0);
+    const after = new RemotePairing(storage);
+    expect(after.code).toBe(before.code);
+    expect(attempt.ok && after.isPaired(attempt.token)).toBe(true);
+  });
+
+  it('forgets the oldest tokens past the cap', () => {
+    const pairing = new RemotePairing(null, { maxTokens: 2 });
+    const tokens = [0, 1, 2].map((t) => {
+      const attempt = pairing.pair(pairing.code, t);
+      return attempt.ok ? attempt.token : '';
+    });
+    expect(tokens.map((token) => pairing.isPaired(token))).toEqual([false, true, true]);
+  });
+
+  it('starts over when storage holds garbage', () => {
+    const storage = memoryStorage();
+    storage.setItem('remotePairing', '{not json');
+    expect(new RemotePairing(storage).code).toMatch(/^\d{4}$/);
+  });
+});
@@ -0,0 +1,91 @@
+// Controller side of phone remote pairing. A right code earns the phone its own token, which it sends
+// instead of the code. Wrong codes lead to a lockout. Kept in session storage so a reload keeps phones paired
+
+export interface PairingOptions {
+  maxFailures: number; // Wrong codes in a row before pairing locks
+  lockoutMs: number;
+  maxTokens: number;   // Oldest paired phones are forgotten past this
+}
+
+export const DEFAULT_PAIRING_OPTIONS: PairingOptions = {
+  maxFailures: 5,
+  lockoutMs: 60000,
+  maxTokens: 20,
+};
+
+export type PairAttempt =
+  | { ok: true; token: string }
+  | { ok: false; retryAfterMs?: number }; // Set while locked out
+
+// Minimal Storage, so tests can pass a stand-in
+export type PairingStorage = Pick<Storage, 'getItem' | 'setItem'>;
+
+const STORAGE_KEY = 'remotePairing';
+
+export const createPairingCode = (): string => String(Math.floor(1000 + Math.random() * 9000));
+
+const createToken = (): string => {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+};
+
+export class RemotePairing {
+  public readonly code: string;
+
+  private tokens: string[];
+  private failures = 0;
+  private lockedUntil = 0;
+  private storage: PairingStorage | null;
+  private options: PairingOptions;
+
+  constructor(storage: PairingStorage | null, options: Partial<PairingOptions> = {}) {
+    this.storage = storage;
+    this.options = { ...DEFAULT_PAIRING_OPTIONS, ...options };
+
+    let saved: { code?: unknown; tokens?: unknown } = {};
+    try {
+      saved = JSON.parse(storage?.getItem(STORAGE_KEY) ?? '{}') ?? {};
+    } catch {
+      // Unreadable: start over with a new code
+    }
+    this.code = typeof saved.code === 'string' && /^\d{4}$/.test(saved.code) ? saved.code : createPairingCode();
+    this.tokens = Array.isArray(saved.tokens) ? saved.tokens.filter((t): t is string => typeof t === 'string') : [];
+    this.save();
+  }
+
+  /**
+   * Checks a code a phone entered. `now` is Date.now(), passed in for tests
+   */
+  public pair(code: string, now: number): PairAttempt {
+    if (now < this.lockedUntil) return { ok: false, retryAfterMs: this.lockedUntil - now };
+
+    if (code !== this.code) {
+      this.failures++;
+      if (this.failures >= this.options.maxFailures) {
+        this.failures = 0;
+        this.lockedUntil = now + this.options.lockoutMs;
+        return { ok: false, retryAfterMs: this.options.lockoutMs };
+      }
+      return { ok: false };
+    }
+
+    this.failures = 0;
+    const token = createToken();
+    this.tokens = [...this.tokens, token].slice(-this.options.maxTokens);
+    this.save();
+    return { ok: true, token };
+  }
+
+  public isPaired(token: unknown): boolean {
+    return typeof token === 'string' && this.tokens.includes(token);
+  }
+
+  private save() {
+    try {
+      this.storage?.setItem(STORAGE_KEY, JSON.stringify({ code: this.code, tokens: this.tokens }));
+    } catch {
+      // Storage full or blocked: pairing still works until the next reload
+    }
+  }
+}
@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { HandState } from '../types';
+import { ReplayGestureSensor } from './replayGestureSensor';
+import { GestureSensorCallbacks } from './gestureSensor';
+import { SessionEvent, SessionLog } from './sessionLog';
+import { DEFAULT_SHOW } from '../utils/showScript';
+import { DEFAULT_GESTURE_THRESHOLDS } from './gestureInterpreter';
+
+const makeLog = (events: SessionEvent[], durationMs: number): SessionLog => ({
+  version: 1,
+  recordedAt: '',
+  sensor: 'gemini',
+  script: DEFAULT_SHOW,
+  thresholds: DEFAULT_GESTURE_THRESHOLDS,
+  stageIndex: 0,
+  durationMs,
+  events,
+});
+
+const LOG = makeLog([
+  { t: 1000, type: 'hand', state: HandState.OPEN },
+  { t: 1400, type: 'hand', state: HandState.CLOSED },
+  { t: 2000, type: 'action', action: 'NEXT', source: 'remote' },
+], 3000);
+
+// What each delivery looked like: the log clock and the wall clock when it arrived
+interface Delivery { what: string; logAt: number; wallAt: number }
+
+const play = (log: SessionLog, speed: number) => {
+  const deliveries: Delivery[] = [];
+  const statuses: string[] = [];
+  let finishedAt: number | null = null;
+  const note = (what: string) => deliveries.push({ what, logAt: sensor.now(), wallAt: performance.now() });
+  const callbacks: GestureSensorCallbacks = {
+    onHandStateChange: (state) => note(state),
+    onHandPosition: (position) => note(position ? 'hand seen' : 'hand lost'),
+    onAction: (action, source) => note(`${source} ${action}`),
+    onStatusChange: (status) => statuses.push(status),
+    onError: (message) => note(`error ${message}`),
+  };
+  const sensor = new ReplayGestureSensor(callbacks, log, {
+    speed,
+    onFinished: () => { finishedAt = performance.now(); },
+  });
+  return { sensor, deliveries, statuses, finishedAt: () => finishedAt };
+};
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'performance'] });
+  vi.stubGlobal('window', globalThis);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('ReplayGestureSensor', () => {
+  it.each([1, 2, 4, 10])('delivers each event at its log time at %ix speed', async (speed) => {
+    const { sensor, deliveries, statuses, finishedAt } = play(LOG, speed);
+    const startedAt = performance.now();
+    await sensor.connect();
+    await vi.advanceTimersByTimeAsync(LOG.durationMs / speed);
+
+    expect(deliveries.slice(0, 3)).toEqual([
+      { what: HandState.OPEN, logAt: 1000, wallAt: startedAt + 1000 / speed },
+      { what: HandState.CLOSED, logAt: 1400, wallAt: startedAt + 1400 / speed },
+      { what: 'remote NEXT', logAt: 2000, wallAt: startedAt + 2000 / speed },
+    ]);
+    expect(finishedAt()).toBe(startedAt + LOG.durationMs / speed);
+    expect(statuses).toEqual(['live', 'disconnected']);
+  });
+
+  it('runs the log clock at the replay speed between events', async () => {
+    const { sensor } = play(LOG, 4);
+    await sensor.connect();
+    await vi.advanceTimersByTimeAsync(100);
+    expect(sensor.now()).toBe(400);
+    expect(sensor.clockRate).toBe(4);
+  });
+
+  it('clears the hand at the end', async () => {
+    const { sensor, deliveries } = play(LOG, 10);
+    await sensor.connect();
+    await vi.advanceTimersByTimeAsync(LOG.durationMs);
+    expect(deliveries.slice(3).map((d) => d.what)).toEqual([HandState.UNKNOWN, 'hand lost']);
+  });
+
+  it('stops the clock and delivers nothing more once disconnected', async () => {
+    const { sensor, deliveries, finishedAt } = play(LOG, 1);
+    await sensor.connect();
+    await vi.advanceTimersByTimeAsync(1200);
+    sensor.disconnect();
+    await vi.advanceTimersByTimeAsync(LOG.durationMs);
+    expect(deliveries.map((d) => d.what)).toEqual([HandState.OPEN]);
+    expect(sensor.now()).toBe(1200);
+    expect(finishedAt()).toBeNull();
+  });
+
+  it('replays outside input but not what the sensor itself caused', async () => {
+    const log = makeLog([
+      { t: 100, type: 'action', action: 'TRIGGER', source: 'gesture' },
+      { t: 100, type: 'action', action: 'NEXT', source: 'voice' },
+      { t: 100, type: 'action', action: 'PREVIOUS', source: 'panel' },
+      { t: 100, type: 'action', action: 'RESET', source: 'keyboard' },
+      { t: 100, type: 'stage', index: 1, id: '3' },
+      { t: 200, type: 'position', position: { x: 0.5, y: 0.5, size: 0.2 } },
+      { t: 300, type: 'status', status: 'reconnecting' },
+      { t: 400, type: 'status', status: 'live' },
+    ], 500);
+    const { sensor, deliveries, statuses } = play(log, 1);
+    await sensor.connect();
+    await vi.advanceTimersByTimeAsync(400);
+
+    expect(deliveries.map((d) => d.what)).toEqual(['panel PREVIOUS', 'keyboard RESET', 'hand seen', 'hand lost']);
+    expect(statuses).toEqual(['live']);
+    sensor.disconnect();
+  });
+});
@@ -0,0 +1,110 @@
+import { HandState } from '../types';
+import { GestureSensor, GestureSensorCallbacks, SensorFrame } from './gestureSensor';
+import { SessionLog, ActionSource } from './sessionLog';
+
+export interface ReplayOptions {
+  speed: number; // 1 = real time, 4 = four times faster
+  onFinished?: () => void;
+}
+
+export const REPLAY_SPEEDS = [1, 2, 4, 10];
+
+// Gesture and voice actions come back out of the replayed reports, so only these are replayed as actions
+const REPLAYED_SOURCES: ActionSource[] = ['remote', 'panel', 'keyboard'];
+
+/**
+ * Plays a recorded session back through the normal sensor callbacks.
+ * Time is the log's own: now() runs at `speed` times the wall clock, and
+ * each event is delivered when now() reaches its timestamp, so gesture
+ * timing works out the same at any speed.
+ */
+export class ReplayGestureSensor implements GestureSensor {
+  public readonly frameKind = null;
+
+  private callbacks: GestureSensorCallbacks;
+  private log: SessionLog;
+  private options: ReplayOptions;
+  private connected = false;
+  private eventIndex = 0;
+  private startedAt = 0;
+  private timer: number | null = null;
+  private dispatchingAt: number | null = null; // Timestamp of the event being delivered
+  private stoppedAt = 0; // The clock stands still once playback stops
+
+  constructor(callbacks: GestureSensorCallbacks, log: SessionLog, options: ReplayOptions = { speed: 1 }) {
+    this.callbacks = callbacks;
+    this.log = log;
+    this.options = options;
+  }
+
+  public get clockRate(): number {
+    return this.options.speed;
+  }
+
+  // Log time in ms, comparable with the event timestamps. While an event is being
+  // delivered it is exactly that event's time, however late the timer fired
+  public now(): number {
+    if (this.dispatchingAt !== null) return this.dispatchingAt;
+    return this.connected ? (performance.now() - this.startedAt) * this.options.speed : this.stoppedAt;
+  }
+
+  public async connect() {
+    this.eventIndex = 0;
+    this.connected = true;
+    this.startedAt = performance.now();
+    this.callbacks.onStatusChange('live');
+    this.scheduleNext();
+  }
+
+  public async sendFrame(_frame: SensorFrame) {
+    // Replay ignores camera input
+  }
+
+  public disconnect() {
+    if (!this.connected) return;
+    this.stoppedAt = this.now();
+    this.connected = false;
+    if (this.timer !== null) clearTimeout(this.timer);
+    this.timer = null;
+    this.callbacks.onStatusChange('disconnected');
+  }
+
+  private scheduleNext() {
+    const next = this.log.events[this.eventIndex];
+    const endAt = this.log.durationMs;
+    const dueAt = next ? next.t : endAt;
+    const delay = Math.max(0, (dueAt - this.now()) / this.options.speed);
+    this.timer = window.setTimeout(() => this.step(), delay);
+  }
+
+  private step() {
+    this.timer = null;
+    if (!this.connected) return;
+
+    // Everything that's due, in order. Stage, frame and gesture/voice action entries are what the show did,
+    // not input; remote, panel and keyboard actions are input from outside the sensor
+    const now = this.now();
+    while (this.eventIndex < this.log.events.length && this.log.events[this.eventIndex].t <= now) {
+      const event = this.log.events[this.eventIndex++];
+      this.dispatchingAt = event.t;
+      if (event.type === 'hand') this.callbacks.onHandStateChange(event.state, event.confidence);
+      else if (event.type === 'position') this.callbacks.onHandPosition?.(event.position);
+      else if (event.type === 'voice') this.callbacks.onVoiceCommand?.(event.command);
+      else if (event.type === 'action' && REPLAYED_SOURCES.includes(event.source)) this.callbacks.onAction?.(event.action, event.source);
+      // The recorded link's ups and downs aren't this link's, which stays live; a lost link did lose the hand
+      else if (event.type === 'status' && event.status !== 'live') this.callbacks.onHandPosition?.(null);
+      else if (event.type === 'error') this.callbacks.onError(event.message);
+      this.dispatchingAt = null;
+      if (!this.connected) return;
+    }
+
+    if (this.eventIndex < this.log.events.length || now < this.log.durationMs) {
+      this.scheduleNext();
+      return;
+    }
+    this.callbacks.onHandStateChange(HandState.UNKNOWN);
+    this.callbacks.onHandPosition?.(null);
+    this.disconnect();
+    this.options.onFinished?.();
+  }
+}
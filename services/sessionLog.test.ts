@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { HandState } from '../types';
+import {
+  SessionRecorder,
+  SessionLogError,
+  SESSION_LOG_VERSION,
+  serializeSessionLog,
+  validateSessionLog,
+} from './sessionLog';
+import { DEFAULT_SHOW, serializeShowScript } from '../utils/showScript';
+import { DEFAULT_GESTURE_THRESHOLDS } from './gestureInterpreter';
+
+// The smallest log that loads
+const minimalLog = (overrides: Record<string, unknown> = {}) => ({
+  version: SESSION_LOG_VERSION,
+  script: serializeShowScript(DEFAULT_SHOW),
+  events: [],
+  ...overrides,
+});
+
+// The issues a log is rejected with, or [] if it loads
+const issuesOf = (data: unknown): string[] => {
+  try {
+    validateSessionLog(data);
+    return [];
+  } catch (e) {
+    if (!(e instanceof SessionLogError)) throw e;
+    return e.issues;
+  }
+};
+
+describe('validateSessionLog', () => {
+  it('loads what the recorder saves', () => {
+    const recorder = new SessionRecorder();
+    recorder.begin({ sensor: 'local', script: DEFAULT_SHOW, thresholds: DEFAULT_GESTURE_THRESHOLDS, stageIndex: 2 });
+    recorder.record({ type: 'hand', state: HandState.OPEN, confidence: 0.8 });
+    recorder.record({ type: 'action', action: 'NEXT', source: 'keyboard' });
+    const log = recorder.end();
+
+    expect(validateSessionLog(JSON.parse(serializeSessionLog(log)))).toEqual(log);
+  });
+
+  it('sorts events by time and keeps the stage index in range', () => {
+    const log = validateSessionLog(minimalLog({
+      stageIndex: 99,
+      events: [
+        { t: 500, type: 'stage', index: 1, id: '3' },
+        { t: 100, type: 'position', position: null },
+      ],
+    }));
+    expect(log.events.map((event) => event.t)).toEqual([100, 500]);
+    expect(log.stageIndex).toBe(DEFAULT_SHOW.stages.length - 1);
+    expect(log.durationMs).toBe(500);
+  });
+
+  it('fills in what older logs leave out', () => {
+    const log = validateSessionLog(minimalLog({
+      events: [{ t: 0, type: 'action', action: 'NEXT' }],
+    }));
+    expect(log.sensor).toBe('gemini');
+    expect(log.thresholds).toEqual(DEFAULT_GESTURE_THRESHOLDS);
+    expect(log.events[0]).toEqual({ t: 0, type: 'action', action: 'NEXT', source: 'gesture' });
+  });
+
+  it('rejects anything that is not an object', () => {
+    expect(issuesOf([])).toEqual(['(root): expected a JSON object']);
+    expect(issuesOf(null)).toEqual(['(root): expected a JSON object']);
+  });
+
+  it('rejects another version', () => {
+    expect(issuesOf(minimalLog({ version: 2 }))).toEqual(['version: expected 1, got 2']);
+  });
+
+  it('reports script problems under script.', () => {
+    const issues = issuesOf(minimalLog({ script: { name: 'Empty', stages: [] } }));
+    expect(issues.length).toBeGreaterThan(0);
+    expect(issues.every((issue) => issue.startsWith('script.'))).toBe(true);
+  });
+
+  it('rejects thresholds that are not numbers', () => {
+    expect(issuesOf(minimalLog({ thresholds: 'strict' }))).toEqual(['thresholds: expected an object']);
+    expect(issuesOf(minimalLog({ thresholds: { openDwellMs: '300' } }))).toEqual(['thresholds.openDwellMs: expected a number']);
+  });
+
+  it('rejects a log without an events array', () => {
+    expect(issuesOf(minimalLog({ events: {} }))).toEqual(['events: expected an array']);
+  });
+
+  it('lists every bad event by its index', () => {
+    const issues = issuesOf(minimalLog({
+      version: 0,
+      events: [
+        { t: 0, type: 'hand', state: HandState.CLOSED },
+        { t: -1, type: 'hand', state: HandState.CLOSED },
+        { t: 10, type: 'hand', state: 'WAVING' },
+        { t: 20, type: 'position', position: { x: 0.5, y: 0.5 } },
+        { t: 30, type: 'voice', command: 'sing' },
+        { t: 40, type: 'status', status: 'sleeping' },
+        { t: 50, type: 'action', action: 'EXPLODE', source: 'panel' },
+        { t: 60, type: 'stage', index: '2' },
+        { t: 70, type: 'telemetry' },
+      ],
+    }));
+    expect(issues).toEqual([
+      'version: expected 1, got 0',
+      'events[1]: expected an object with a "t" time in ms',
+      'events[2]: unrecognised "hand" event',
+      'events[3]: unrecognised "position" event',
+      'events[4]: unrecognised "voice" event',
+      'events[5]: unrecognised "status" event',
+      'events[6]: unrecognised "action" event',
+      'events[7]: unrecognised "stage" event',
+      'events[8]: unrecognised "telemetry" event',
+    ]);
+  });
+});
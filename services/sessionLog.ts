@@ -0,0 +1,247 @@
+import { HandState, HandPosition, GestureAction, VoiceCommand, ShowScript } from '../types';
+import { SensorStatus, SensorType, SensorFrame, SensorFrameKind } from './gestureSensor';
+import { GestureThresholds, DEFAULT_GESTURE_THRESHOLDS } from './gestureInterpreter';
+import { validateShowScript, serializeShowScript, ShowScriptError } from '../utils/showScript';
+import { VOICE_COMMANDS } from '../utils/voiceCommands';
+
+// A recorded gesture session: everything the sensor reported, plus what the
+// show did about it, so an incident can be replayed (ReplayGestureSensor)
+// or kept as a regression fixture.
+
+export const SESSION_LOG_VERSION = 1;
+
+// t = ms since recording started
+export type SessionEvent =
+  | { t: number; type: 'hand'; state: HandState; confidence?: number }
+  | { t: number; type: 'position'; position: HandPosition | null }
+  | { t: number; type: 'voice'; command: VoiceCommand }
+  | { t: number; type: 'status'; status: SensorStatus }
+  | { t: number; type: 'error'; message: string }
+  // Actions that reached the show, from the gesture interpreter, a voice command, a paired remote,
+  // the panel buttons or a keyboard shortcut
+  | { t: number; type: 'action'; action: GestureAction; source: ActionSource }
+  | { t: number; type: 'stage'; index: number; id: string }
+  // Sent camera frames, only when enabled. Raw pixels are too big for JSON, so only their size is kept
+  | { t: number; type: 'frame'; kind: SensorFrameKind; data?: string; width?: number; height?: number };
+
+export type ActionSource = 'gesture' | 'voice' | 'remote' | 'panel' | 'keyboard';
+
+type WithoutTime<E> = E extends SessionEvent ? Omit<E, 't'> : never;
+export type SessionEventInput = WithoutTime<SessionEvent>;
+
+export interface SessionLog {
+  version: number;
+  recordedAt: string; // ISO timestamp
+  sensor: SensorType;
+  // What the show looked like when recording started; replay restores it
+  script: ShowScript;
+  thresholds: GestureThresholds;
+  stageIndex: number;
+  durationMs: number;
+  events: SessionEvent[];
+}
+
+export type SessionStart = Pick<SessionLog, 'sensor' | 'script' | 'thresholds' | 'stageIndex'>;
+
+/**
+ * Thrown when a session log doesn't validate, one line per problem in `issues`
+ */
+export class SessionLogError extends Error {
+  public readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid session log:\n${issues.join('\n')}`);
+    this.name = 'SessionLogError';
+    this.issues = issues;
+  }
+}
+
+export class SessionRecorder {
+  private start: SessionStart | null = null;
+  private startedAt = 0;
+  private recordedAt = '';
+  private events: SessionEvent[] = [];
+  private withFrames = false;
+
+  public get isRecording(): boolean {
+    return this.start !== null;
+  }
+
+  public get includeFrames(): boolean {
+    return this.withFrames;
+  }
+
+  public get eventCount(): number {
+    return this.events.length;
+  }
+
+  public begin(start: SessionStart, options: { includeFrames?: boolean } = {}) {
+    this.start = start;
+    this.withFrames = options.includeFrames ?? false;
+    this.startedAt = performance.now();
+    this.recordedAt = new Date().toISOString();
+    this.events = [];
+  }
+
+  public record(event: SessionEventInput) {
+    if (!this.start) return;
+    this.events.push({ ...event, t: Math.round(performance.now() - this.startedAt) } as SessionEvent);
+  }
+
+  public recordFrame(frame: SensorFrame) {
+    if (!this.start || !this.withFrames) return;
+    if (frame.kind === 'jpeg') this.record({ type: 'frame', kind: 'jpeg', data: frame.data });
+    else this.record({ type: 'frame', kind: 'pixels', width: frame.image.width, height: frame.image.height });
+  }
+
+  public end(): SessionLog {
+    if (!this.start) throw new Error('Not recording');
+    const log: SessionLog = {
+      version: SESSION_LOG_VERSION,
+      recordedAt: this.recordedAt,
+      ...this.start,
+      durationMs: Math.round(performance.now() - this.startedAt),
+      events: this.events,
+    };
+    this.start = null;
+    this.events = [];
+    return log;
+  }
+}
+
+// The file form: the script goes back to its JSON shape so the log validates on load
+export const serializeSessionLog = (log: SessionLog): string =>
+  JSON.stringify({ ...log, script: serializeShowScript(log.script) });
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const HAND_STATES = Object.values(HandState) as string[];
+const SENSOR_STATUSES: SensorStatus[] = ['disconnected', 'connecting', 'live', 'reconnecting', 'failed'];
+const SENSOR_TYPES: SensorType[] = ['gemini', 'local', 'mock', 'replay'];
+const ACTIONS: GestureAction[] = ['TRIGGER', 'CONFIRM', 'NEXT', 'PREVIOUS', 'TOGGLE_PAUSE', 'RESET', 'FIREWORKS'];
+const ACTION_SOURCES: ActionSource[] = ['gesture', 'voice', 'remote', 'panel', 'keyboard'];
+
+const validateEvent = (value: unknown, path: string, issues: string[]): SessionEvent | null => {
+  if (!isObject(value) || typeof value.t !== 'number' || value.t < 0) {
+    issues.push(`${path}: expected an object with a "t" time in ms`);
+    return null;
+  }
+  const t = value.t;
+  switch (value.type) {
+    case 'hand':
+      if (!HAND_STATES.includes(value.state as string)) break;
+      return {
+        t,
+        type: 'hand',
+        state: value.state as HandState,
+        ...(typeof value.confidence === 'number' ? { confidence: value.confidence } : {}),
+      };
+    case 'position': {
+      const position = value.position;
+      if (position === null) return { t, type: 'position', position: null };
+      if (!isObject(position) || typeof position.x !== 'number' || typeof position.y !== 'number' || typeof position.size !== 'number') break;
+      return { t, type: 'position', position: { x: position.x, y: position.y, size: position.size } };
+    }
+    case 'voice':
+      if (!VOICE_COMMANDS.includes(value.command as VoiceCommand)) break;
+      return { t, type: 'voice', command: value.command as VoiceCommand };
+    case 'status':
+      if (!SENSOR_STATUSES.includes(value.status as SensorStatus)) break;
+      return { t, type: 'status', status: value.status as SensorStatus };
+    case 'error':
+      return { t, type: 'error', message: String(value.message ?? '') };
+    case 'action':
+      if (!ACTIONS.includes(value.action as GestureAction)) break;
+      return {
+        t,
+        type: 'action',
+        action: value.action as GestureAction,
+        source: ACTION_SOURCES.includes(value.source as ActionSource) ? (value.source as ActionSource) : 'gesture',
+      };
+    case 'stage':
+      if (typeof value.index !== 'number') break;
+      return { t, type: 'stage', index: value.index, id: String(value.id ?? '') };
+    case 'frame':
+      // Only needed for inspection; replay ignores them
+      return {
+        t,
+        type: 'frame',
+        kind: value.kind === 'pixels' ? 'pixels' : 'jpeg',
+        ...(typeof value.data === 'string' ? { data: value.data } : {}),
+        ...(typeof value.width === 'number' && typeof value.height === 'number' ? { width: value.width, height: value.height } : {}),
+      };
+  }
+  issues.push(`${path}: unrecognised ${JSON.stringify(value.type)} event`);
+  return null;
+};
+
+/**
+ * Checks an uploaded log. Throws SessionLogError listing every problem found.
+ * Events are sorted by time, so hand-edited fixtures don't have to be.
+ */
+export const validateSessionLog = (data: unknown): SessionLog => {
+  if (!isObject(data)) throw new SessionLogError(['(root): expected a JSON object']);
+  const issues: string[] = [];
+
+  if (data.version !== SESSION_LOG_VERSION) {
+    issues.push(`version: expected ${SESSION_LOG_VERSION}, got ${JSON.stringify(data.version)}`);
+  }
+
+  let script: ShowScript | null = null;
+  try {
+    script = validateShowScript(data.script);
+  } catch (e) {
+    if (!(e instanceof ShowScriptError)) throw e;
+    issues.push(...e.issues.map((issue) => `script.${issue}`));
+  }
+
+  const thresholds = { ...DEFAULT_GESTURE_THRESHOLDS };
+  if (data.thresholds !== undefined) {
+    if (!isObject(data.thresholds)) issues.push('thresholds: expected an object');
+    else {
+      (Object.keys(thresholds) as (keyof GestureThresholds)[]).forEach((key) => {
+        const value = (data.thresholds as Record<string, unknown>)[key];
+        if (value === undefined) return;
+        if (typeof value !== 'number') issues.push(`thresholds.${key}: expected a number`);
+        else thresholds[key] = value;
+      });
+    }
+  }
+
+  if (!Array.isArray(data.events)) {
+    issues.push('events: expected an array');
+    throw new SessionLogError(issues);
+  }
+  const events: SessionEvent[] = [];
+  data.events.forEach((raw, i) => {
+    const event = validateEvent(raw, `events[${i}]`, issues);
+    if (event) events.push(event);
+  });
+
+  if (issues.length > 0 || !script) throw new SessionLogError(issues);
+
+  events.sort((a, b) => a.t - b.t);
+  const stageIndex = typeof data.stageIndex === 'number' ? data.stageIndex : 0;
+
+  return {
+    version: SESSION_LOG_VERSION,
+    recordedAt: typeof data.recordedAt === 'string' ? data.recordedAt : '',
+    sensor: SENSOR_TYPES.includes(data.sensor as SensorType) ? (data.sensor as SensorType) : 'gemini',
+    script,
+    thresholds,
+    stageIndex: Math.min(Math.max(0, Math.floor(stageIndex)), script.stages.length - 1),
+    durationMs: typeof data.durationMs === 'number' ? data.durationMs : (events[events.length - 1]?.t ?? 0),
+    events,
+  };
+};
+
+export const loadSessionLogFromFile = async (file: File): Promise<SessionLog> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(await file.text());
+  } catch (e: any) {
+    throw new SessionLogError([`${file.name}: not valid JSON (${e.message})`]);
+  }
+  return validateSessionLog(data);
+};
@@ -0,0 +1,86 @@
+// Canvas (+ optional audio) to WebM through MediaRecorder.
+
+export interface RecordingResolution {
+  label: string;
+  size: { width: number; height: number } | null; // null = whatever the window is
+}
+
+export const RECORDING_RESOLUTIONS: RecordingResolution[] = [
+  { label: 'Window', size: null },
+  { label: '720p', size: { width: 1280, height: 720 } },
+  { label: '1080p', size: { width: 1920, height: 1080 } },
+  { label: '1440p', size: { width: 2560, height: 1440 } },
+];
+
+export const RECORDING_BITRATES = [4_000_000, 8_000_000, 16_000_000];
+
+export interface RecordingOptions {
+  bitrate: number; // Video bits per second
+  fps: number;
+}
+
+export const DEFAULT_RECORDING_OPTIONS: RecordingOptions = {
+  bitrate: 8_000_000,
+  fps: 60,
+};
+
+// Best WebM the browser can do; the audio codec only matters when there's an audio track
+const pickMimeType = (withAudio: boolean): string | undefined => {
+  const candidates = withAudio
+    ? ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm']
+    : ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+  return candidates.find((type) => MediaRecorder.isTypeSupported(type));
+};
+
+export const isRecordingSupported = (): boolean =>
+  typeof MediaRecorder !== 'undefined' && typeof HTMLCanvasElement.prototype.captureStream === 'function';
+
+export class ShowRecorder {
+  private recorder: MediaRecorder | null = null;
+  private videoTrack: MediaStreamTrack | null = null;
+  private chunks: Blob[] = [];
+
+  public get isRecording(): boolean {
+    return this.recorder !== null && this.recorder.state !== 'inactive';
+  }
+
+  public start(canvas: HTMLCanvasElement, audio: MediaStream | null, options: RecordingOptions = DEFAULT_RECORDING_OPTIONS) {
+    if (this.isRecording) throw new Error('Already recording');
+
+    const stream = canvas.captureStream(options.fps);
+    const audioTracks = audio?.getAudioTracks() ?? [];
+    audioTracks.forEach((track) => stream.addTrack(track));
+
+    const mimeType = pickMimeType(audioTracks.length > 0);
+    if (!mimeType) throw new Error('This browser cannot record WebM');
+
+    this.chunks = [];
+    this.videoTrack = stream.getVideoTracks()[0] ?? null;
+    this.recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: options.bitrate });
+    this.recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) this.chunks.push(e.data);
+    };
+    // Timeslices keep memory flat-ish and mean a crash still leaves most of the clip
+    this.recorder.start(1000);
+  }
+
+  /**
+   * Finishes the file. Only the canvas track is stopped; the audio tap stays usable for the next take
+   */
+  public stop(): Promise<Blob> {
+    const recorder = this.recorder;
+    if (!recorder || recorder.state === 'inactive') return Promise.reject(new Error('Not recording'));
+
+    return new Promise((resolve) => {
+      recorder.onstop = () => {
+        const blob = new Blob(this.chunks, { type: recorder.mimeType || 'video/webm' });
+        this.chunks = [];
+        this.recorder = null;
+        resolve(blob);
+      };
+      recorder.stop();
+      this.videoTrack?.stop();
+      this.videoTrack = null;
+    });
+  }
+}
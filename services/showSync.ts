@@ -0,0 +1,175 @@
+import { HandState, HandPosition, ShowScript, GestureAction } from '../types';
+import { SensorStatus } from './gestureSensor';
+import { ParticleBudget } from '../utils/particleBudget';
+import { AudioSettings } from './audioEngine';
+import { Locale } from '../utils/i18n';
+import { HandFieldSettings } from '../utils/handField';
+import { getReconnectDelay, DEFAULT_RECONNECT_POLICY } from './geminiService';
+
+// Keeps the controller, display windows and phone remotes in step.
+// Same machine: BroadcastChannel. Other machines: an optional WebSocket
+// relay (server/relay.mjs) that forwards every message to the other clients
+// in the same room. Both transports carry the same envelopes; duplicates are
+// dropped by sender + sequence number. Over the relay only a controller that
+// connected with the relay's key counts as one; same-machine windows are trusted.
+
+export type SyncRole = 'controller' | 'display' | 'remote';
+
+// Everything a display needs to mirror the controller
+export interface SyncedShowState {
+  stageIndex: number;
+  handState: HandState;
+  hand: HandPosition | null;
+  handField: HandFieldSettings;
+  reducedMotion: boolean;
+  sensorStatus: SensorStatus;
+  isPaused: boolean;
+  label: string | null; // Clock sync readout shown instead of the stage
+  budget: ParticleBudget;
+  audio: AudioSettings;
+  locale: Locale;
+  year: number; // Year the show's text counts into, from the controller's target date
+}
+
+export type SyncMessage =
+  | { type: 'hello'; role: SyncRole }              // A window joined; the controller answers with script + state
+  | { type: 'script'; script: ShowScript }
+  | { type: 'state'; state: SyncedShowState }
+  | { type: 'fireworks' }
+  // Phone remote (server/remote.html). A right code earns a token, and actions only count with a known token.
+  // A rejected action is answered with the token and ok: false so the phone asks for the code again
+  | { type: 'pair'; code: string; nonce: string }
+  | { type: 'pairResult'; nonce?: string; token?: string; ok: boolean; retryAfterMs?: number }
+  | { type: 'action'; action: GestureAction; token: string };
+
+// What a paired remote may ask for
+export const REMOTE_ACTIONS: GestureAction[] = ['NEXT', 'PREVIOUS', 'RESET', 'FIREWORKS', 'TOGGLE_PAUSE'];
+
+interface SyncEnvelope {
+  from: string;
+  seq: number;
+  to?: string;                  // Only for this client; sent over the relay alone
+  via?: 'controller' | 'peer';  // Set by the relay
+  message: SyncMessage;
+}
+
+// Who a message came from. fromController: it can be followed (script, state, pair results)
+export interface SyncSender {
+  id: string;
+  fromController: boolean;
+}
+
+export type RelayStatus = 'off' | 'connecting' | 'open' | 'closed';
+
+export interface ShowSyncCallbacks {
+  onMessage: (message: SyncMessage, sender: SyncSender) => void;
+  onRelayStatusChange?: (status: RelayStatus) => void;
+}
+
+export interface ShowSyncOptions {
+  channelName?: string;
+  relayUrl?: string | null; // e.g. ws://192.168.1.20:8787/show
+  relayKey?: string | null; // Printed by the relay; makes this client the controller there
+}
+
+const DEFAULT_CHANNEL = 'new-year-countdown';
+
+export class ShowSync {
+  private callbacks: ShowSyncCallbacks;
+  private id = Math.random().toString(36).slice(2, 10);
+  private seq = 0;
+  private lastSeen = new Map<string, number>();
+
+  private channel: BroadcastChannel | null = null;
+  private relayUrl: string | null;
+  private relayKey: string | null;
+  private socket: WebSocket | null = null;
+  private relayAttempt = 0;
+  private relayTimer: number | null = null;
+  private closed = false;
+
+  constructor(callbacks: ShowSyncCallbacks, options: ShowSyncOptions = {}) {
+    this.callbacks = callbacks;
+    this.relayUrl = options.relayUrl ?? null;
+    this.relayKey = options.relayKey ?? null;
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(options.channelName ?? DEFAULT_CHANNEL);
+      this.channel.onmessage = (e: MessageEvent<SyncEnvelope>) => this.receive(e.data, true);
+    }
+
+    if (this.relayUrl) this.openRelay();
+    else this.callbacks.onRelayStatusChange?.('off');
+  }
+
+  /**
+   * Sends to every window, or with `to` only to that client (a sender id), through the relay
+   */
+  public send(message: SyncMessage, to?: string) {
+    if (this.closed) return;
+    const envelope: SyncEnvelope = { from: this.id, seq: ++this.seq, message, ...(to ? { to } : {}) };
+    if (!to) this.channel?.postMessage(envelope);
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(envelope));
+    }
+  }
+
+  public close() {
+    this.closed = true;
+    this.channel?.close();
+    this.channel = null;
+    if (this.relayTimer !== null) clearTimeout(this.relayTimer);
+    this.socket?.close();
+    this.socket = null;
+  }
+
+  private receive(envelope: SyncEnvelope, sameMachine: boolean) {
+    if (!envelope || envelope.from === this.id || !envelope.message) return;
+    if (envelope.to && envelope.to !== this.id) return;
+    // The same envelope can arrive over both transports, and the relay doesn't guarantee order
+    const last = this.lastSeen.get(envelope.from) ?? 0;
+    if (envelope.seq <= last) return;
+    this.lastSeen.set(envelope.from, envelope.seq);
+    this.callbacks.onMessage(envelope.message, {
+      id: envelope.from,
+      fromController: sameMachine || envelope.via === 'controller',
+    });
+  }
+
+  private openRelay() {
+    if (this.closed || !this.relayUrl) return;
+    this.callbacks.onRelayStatusChange?.('connecting');
+
+    let url = this.relayUrl;
+    if (this.relayKey) {
+      const withKey = new URL(url);
+      withKey.searchParams.set('key', this.relayKey);
+      url = withKey.toString();
+    }
+    const socket = new WebSocket(url);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.relayAttempt = 0;
+      this.callbacks.onRelayStatusChange?.('open');
+    };
+    socket.onmessage = (e) => {
+      try {
+        this.receive(JSON.parse(e.data), false);
+      } catch {
+        console.warn('Ignoring malformed relay message');
+      }
+    };
+    socket.onclose = () => {
+      if (this.socket !== socket || this.closed) return;
+      this.socket = null;
+      this.callbacks.onRelayStatusChange?.('closed');
+      // The relay is a best-effort extra: keep retrying, never give up
+      const delay = getReconnectDelay(this.relayAttempt++, DEFAULT_RECONNECT_POLICY);
+      this.relayTimer = window.setTimeout(() => {
+        this.relayTimer = null;
+        this.openRelay();
+      }, delay);
+    };
+  }
+}
@@ -0,0 +1,292 @@
+import { describe, it, expect, vi } from 'vitest';
+import { HandState, ShowScript, CountdownSchedule } from '../types';
+import {
+  StageController,
+  StageState,
+  createStageState,
+  getCurrentStage,
+  reduceStage,
+} from './stageController';
+import { makeStage } from '../test/fixtures';
+
+// tree -> 3 -> 2 -> 1 -> finale, like the default show
+const SCRIPT: ShowScript = {
+  name: 'Test',
+  stages: [
+    makeStage('tree'),
+    makeStage('3', { advance: 'timer' }),
+    makeStage('2', { advance: 'timer' }),
+    makeStage('1', { advance: 'manual' }),
+    makeStage('finale', { fireworks: true }),
+  ],
+};
+
+const SCHEDULE: CountdownSchedule = { status: 'OFF', timeZone: 'UTC', targetTime: 0 };
+
+const initial = (overrides: Partial<StageState> = {}): StageState => ({
+  ...createStageState(SCRIPT, SCHEDULE),
+  ...overrides,
+});
+
+describe('reduceStage', () => {
+  describe('NEXT / PREVIOUS', () => {
+    it('moves one stage at a time', () => {
+      expect(reduceStage(initial(), { type: 'ACTION', action: 'NEXT' }).stageIndex).toBe(1);
+      expect(reduceStage(initial({ stageIndex: 2 }), { type: 'ACTION', action: 'PREVIOUS' }).stageIndex).toBe(1);
+    });
+
+    it('clamps at both ends and returns the same state', () => {
+      const last = initial({ stageIndex: 4 });
+      expect(reduceStage(last, { type: 'ACTION', action: 'NEXT' })).toBe(last);
+      const first = initial();
+      expect(reduceStage(first, { type: 'ACTION', action: 'PREVIOUS' })).toBe(first);
+    });
+
+    it('takes over from a running clock', () => {
+      const running = initial({ schedule: { ...SCHEDULE, status: 'RUNNING' } });
+      const next = reduceStage(running, { type: 'ACTION', action: 'NEXT' });
+      expect(next.schedule.status).toBe('PAUSED');
+    });
+
+    it('leaves a stopped clock alone', () => {
+      const next = reduceStage(initial(), { type: 'ACTION', action: 'NEXT' });
+      expect(next.schedule).toBe(SCHEDULE);
+    });
+  });
+
+  describe('RESET', () => {
+    it('goes back to the first stage and clears the hand state', () => {
+      const state = initial({ stageIndex: 3, handState: HandState.CLOSED });
+      const next = reduceStage(state, { type: 'ACTION', action: 'RESET' });
+      expect(next.stageIndex).toBe(0);
+      expect(next.handState).toBe(HandState.UNKNOWN);
+      expect(next.restarts).toBe(state.restarts + 1);
+    });
+
+    it('counts as a restart even on the first stage', () => {
+      const state = initial();
+      expect(reduceStage(state, { type: 'ACTION', action: 'RESET' }).restarts).toBe(1);
+    });
+  });
+
+  describe('TOGGLE_PAUSE', () => {
+    it('pauses and resumes the clock with the show', () => {
+      const running = initial({ schedule: { ...SCHEDULE, status: 'RUNNING' } });
+      const paused = reduceStage(running, { type: 'ACTION', action: 'TOGGLE_PAUSE' });
+      expect(paused.isPaused).toBe(true);
+      expect(paused.schedule.status).toBe('PAUSED');
+
+      const resumed = reduceStage(paused, { type: 'ACTION', action: 'TOGGLE_PAUSE' });
+      expect(resumed.isPaused).toBe(false);
+      expect(resumed.schedule.status).toBe('RUNNING');
+    });
+
+    it('does not start a clock that was off', () => {
+      const paused = reduceStage(initial(), { type: 'ACTION', action: 'TOGGLE_PAUSE' });
+      const resumed = reduceStage(paused, { type: 'ACTION', action: 'TOGGLE_PAUSE' });
+      expect(resumed.schedule.status).toBe('OFF');
+    });
+  });
+
+  describe('GESTURE', () => {
+    it('advances a gesture stage on TRIGGER and CONFIRM', () => {
+      expect(reduceStage(initial(), { type: 'GESTURE', action: 'TRIGGER' }).stageIndex).toBe(1);
+      expect(reduceStage(initial(), { type: 'GESTURE', action: 'CONFIRM' }).stageIndex).toBe(1);
+    });
+
+    it('ignores TRIGGER on timer and manual stages', () => {
+      for (const stageIndex of [1, 3]) {
+        const state = initial({ stageIndex });
+        expect(reduceStage(state, { type: 'GESTURE', action: 'TRIGGER' })).toBe(state);
+      }
+    });
+
+    it('turns TRIGGER into fireworks on a fireworks stage it cannot advance', () => {
+      const finale = initial({ stageIndex: 4, script: { ...SCRIPT, stages: [...SCRIPT.stages.slice(0, 4), makeStage('finale', { advance: 'manual', fireworks: true })] } });
+      const next = reduceStage(finale, { type: 'GESTURE', action: 'TRIGGER' });
+      expect(next.stageIndex).toBe(4);
+      expect(next.fireworks).toBe(1);
+    });
+
+    it('still advances a gesture stage that also has fireworks', () => {
+      const state = initial({ script: { ...SCRIPT, stages: [makeStage('a', { fireworks: true }), makeStage('b')] } });
+      const next = reduceStage(state, { type: 'GESTURE', action: 'TRIGGER' });
+      expect(next.stageIndex).toBe(1);
+      expect(next.fireworks).toBe(0);
+    });
+
+    it('only lets TOGGLE_PAUSE through while paused', () => {
+      const paused = initial({ isPaused: true });
+      for (const action of ['TRIGGER', 'NEXT', 'PREVIOUS', 'RESET', 'FIREWORKS'] as const) {
+        expect(reduceStage(paused, { type: 'GESTURE', action })).toBe(paused);
+      }
+      expect(reduceStage(paused, { type: 'GESTURE', action: 'TOGGLE_PAUSE' }).isPaused).toBe(false);
+    });
+
+    it('lets buttons through while paused', () => {
+      const paused = initial({ isPaused: true });
+      expect(reduceStage(paused, { type: 'ACTION', action: 'NEXT' }).stageIndex).toBe(1);
+    });
+
+    it('passes swipes and poses through like buttons', () => {
+      expect(reduceStage(initial({ stageIndex: 3 }), { type: 'GESTURE', action: 'NEXT' }).stageIndex).toBe(4);
+      expect(reduceStage(initial({ stageIndex: 3 }), { type: 'GESTURE', action: 'RESET' }).stageIndex).toBe(0);
+    });
+  });
+
+  describe('TIMER_ELAPSED', () => {
+    it('advances the timed stage it was started for', () => {
+      expect(reduceStage(initial({ stageIndex: 1 }), { type: 'TIMER_ELAPSED', stageIndex: 1 }).stageIndex).toBe(2);
+    });
+
+    it('ignores stale timers, non-timer stages, pauses and a running clock', () => {
+      const cases = [
+        [initial({ stageIndex: 2 }), 1],
+        [initial({ stageIndex: 0 }), 0],
+        [initial({ stageIndex: 1, isPaused: true }), 1],
+        [initial({ stageIndex: 1, schedule: { ...SCHEDULE, status: 'RUNNING' } }), 1],
+      ] as const;
+      for (const [state, stageIndex] of cases) {
+        expect(reduceStage(state, { type: 'TIMER_ELAPSED', stageIndex })).toBe(state);
+      }
+    });
+  });
+
+  describe('CLOCK_TICK', () => {
+    it('follows the clock only while it runs', () => {
+      const running = initial({ schedule: { ...SCHEDULE, status: 'RUNNING' } });
+      // Lead stages are 3, 2, 1 at one second each
+      expect(reduceStage(running, { type: 'CLOCK_TICK', remainingMs: 60_000 })).toBe(running);
+      expect(reduceStage(running, { type: 'CLOCK_TICK', remainingMs: 2500 }).stageIndex).toBe(1);
+      expect(reduceStage(running, { type: 'CLOCK_TICK', remainingMs: 1500 }).stageIndex).toBe(2);
+      expect(reduceStage(running, { type: 'CLOCK_TICK', remainingMs: 0 }).stageIndex).toBe(4);
+
+      const paused = initial({ schedule: { ...SCHEDULE, status: 'PAUSED' } });
+      expect(reduceStage(paused, { type: 'CLOCK_TICK', remainingMs: 0 })).toBe(paused);
+    });
+  });
+
+  describe('scripts', () => {
+    it('restarts on a new script', () => {
+      const other: ShowScript = { name: 'Other', stages: [makeStage('x'), makeStage('y')] };
+      const next = reduceStage(initial({ stageIndex: 3, handState: HandState.OPEN }), { type: 'LOAD_SCRIPT', script: other });
+      expect(next.script).toBe(other);
+      expect(next.stageIndex).toBe(0);
+      expect(next.handState).toBe(HandState.UNKNOWN);
+      expect(next.restarts).toBe(1);
+    });
+
+    it('jumps to a clamped stage and takes over from the clock', () => {
+      const running = initial({ schedule: { ...SCHEDULE, status: 'RUNNING' } });
+      const next = reduceStage(running, { type: 'LOAD_SCRIPT', script: SCRIPT, stageIndex: 99 });
+      expect(next.stageIndex).toBe(4);
+      expect(next.schedule.status).toBe('PAUSED');
+    });
+
+    it('inserts added stages after the current one with a unique id', () => {
+      const state = initial({ stageIndex: 1 });
+      const once = reduceStage(state, { type: 'ADD_STAGE', stage: makeStage('2') });
+      expect(once.script.stages.map((s) => s.id)).toEqual(['tree', '3', '2-2', '2', '1', 'finale']);
+      const twice = reduceStage(once, { type: 'ADD_STAGE', stage: makeStage('2') });
+      expect(twice.script.stages[2].id).toBe('2-3');
+      expect(twice.stageIndex).toBe(1);
+    });
+
+    it('falls back to "image" for an empty id and numbers from there', () => {
+      const once = reduceStage(initial(), { type: 'ADD_STAGE', stage: makeStage('') });
+      expect(once.script.stages[1].id).toBe('image');
+      const twice = reduceStage(once, { type: 'ADD_STAGE', stage: makeStage('') });
+      expect(twice.script.stages[1].id).toBe('image-2');
+    });
+  });
+
+  describe('SET_TRANSITION', () => {
+    it('changes one stage in place without moving or restarting', () => {
+      const state = initial({ stageIndex: 2 });
+      const transition = { effect: 'vortex', durationMs: 1500, easing: 'easeInOut' } as const;
+      const next = reduceStage(state, { type: 'SET_TRANSITION', stageIndex: 2, transition });
+      expect(next.script.stages[2].transition).toEqual(transition);
+      expect(next.script.stages[1]).toBe(state.script.stages[1]);
+      expect(next.stageIndex).toBe(2);
+      expect(next.restarts).toBe(0);
+      expect(reduceStage(state, { type: 'SET_TRANSITION', stageIndex: 9, transition })).toBe(state);
+    });
+  });
+
+  describe('MIRROR', () => {
+    it('copies what it is given without restarting', () => {
+      const next = reduceStage(initial(), { type: 'MIRROR', stageIndex: 3, isPaused: true });
+      expect(next.stageIndex).toBe(3);
+      expect(next.isPaused).toBe(true);
+      expect(next.restarts).toBe(0);
+    });
+
+    it('keeps an index past the end until the script arrives', () => {
+      const next = reduceStage(initial(), { type: 'MIRROR', stageIndex: 9 });
+      expect(next.stageIndex).toBe(9);
+      expect(getCurrentStage(next).id).toBe('finale');
+    });
+
+    it('returns the same state when nothing differs', () => {
+      const state = initial();
+      expect(reduceStage(state, { type: 'MIRROR', stageIndex: 0, handState: HandState.UNKNOWN })).toBe(state);
+    });
+  });
+
+  it('records hand states', () => {
+    const state = initial();
+    expect(reduceStage(state, { type: 'HAND_STATE', state: HandState.OPEN }).handState).toBe(HandState.OPEN);
+    expect(reduceStage(state, { type: 'HAND_STATE', state: HandState.UNKNOWN })).toBe(state);
+  });
+});
+
+describe('StageController', () => {
+  it('reports changes, stage changes, fireworks and restarts', () => {
+    const onChange = vi.fn();
+    const onStageChange = vi.fn();
+    const onFireworks = vi.fn();
+    const onRestart = vi.fn();
+    const controller = new StageController(initial(), { onChange, onStageChange, onFireworks, onRestart });
+
+    controller.dispatch({ type: 'ACTION', action: 'NEXT' });
+    expect(onStageChange).toHaveBeenLastCalledWith(SCRIPT.stages[1], 1);
+    expect(controller.getState().stageIndex).toBe(1);
+
+    controller.dispatch({ type: 'ACTION', action: 'FIREWORKS' });
+    expect(onFireworks).toHaveBeenCalledTimes(1);
+
+    controller.dispatch({ type: 'ACTION', action: 'RESET' });
+    expect(onRestart).toHaveBeenCalledTimes(1);
+    expect(onStageChange).toHaveBeenLastCalledWith(SCRIPT.stages[0], 0);
+
+    expect(onChange).toHaveBeenCalledTimes(3);
+  });
+
+  it('stays quiet when an event changes nothing', () => {
+    const onChange = vi.fn();
+    const controller = new StageController(initial(), { onChange });
+    controller.dispatch({ type: 'ACTION', action: 'PREVIOUS' });
+    controller.dispatch({ type: 'GESTURE', action: 'TRIGGER' });
+    controller.dispatch({ type: 'ACTION', action: 'NEXT' });
+    // Stage 1 is a timer stage, so the second TRIGGER does nothing
+    controller.dispatch({ type: 'GESTURE', action: 'TRIGGER' });
+    expect(onChange).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not report a stage change for a stage added elsewhere', () => {
+    const onStageChange = vi.fn();
+    const controller = new StageController(initial(), { onStageChange });
+    controller.dispatch({ type: 'ADD_STAGE', stage: makeStage('extra') });
+    expect(onStageChange).not.toHaveBeenCalled();
+  });
+
+  it('runs a gesture-driven show to the finale', () => {
+    const controller = new StageController(initial());
+    controller.dispatch({ type: 'GESTURE', action: 'TRIGGER' });          // tree -> 3
+    controller.dispatch({ type: 'TIMER_ELAPSED', stageIndex: 1 });        // 3 -> 2
+    controller.dispatch({ type: 'TIMER_ELAPSED', stageIndex: 2 });        // 2 -> 1
+    controller.dispatch({ type: 'GESTURE', action: 'TRIGGER' });          // manual: ignored
+    controller.dispatch({ type: 'ACTION', action: 'NEXT' });              // 1 -> finale
+    expect(getCurrentStage(controller.getState()).id).toBe('finale');
+  });
+});
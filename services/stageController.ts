@@ -0,0 +1,225 @@
+import { HandState, CountdownSchedule, ShowScript, ShowStage, StageTransition, GestureAction } from '../types';
+import { getScheduledStageIndex } from '../utils/countdownClock';
+
+// The show's rules without React, timers or a camera: which stage is up and
+// what each action, timer and clock tick does to it. reduceStage is pure;
+// StageController holds the current state and reports what changed.
+
+export interface StageState {
+  script: ShowScript;
+  stageIndex: number;    // Can briefly run past the end on a display waiting for its script; see getCurrentStage
+  isPaused: boolean;
+  handState: HandState;
+  schedule: CountdownSchedule;
+  fireworks: number;     // Bumped per on-demand salvo
+  restarts: number;      // Bumped when the show starts over (reset, new script); gesture progress should be dropped
+}
+
+export type StageEvent =
+  // From the gesture interpreter: ignored while paused, and TRIGGER/CONFIRM depend on the stage
+  | { type: 'GESTURE'; action: GestureAction }
+  // Buttons and the phone remote
+  | { type: 'ACTION'; action: GestureAction }
+  | { type: 'HAND_STATE'; state: HandState }
+  // A timed stage ran its duration. Carries the index it was started for, so a stale timer does nothing
+  | { type: 'TIMER_ELAPSED'; stageIndex: number }
+  | { type: 'CLOCK_TICK'; remainingMs: number }
+  | { type: 'SET_SCHEDULE'; schedule: CountdownSchedule }
+  // Starts the show over with a new script. A given stageIndex jumps there and takes over from the clock
+  | { type: 'LOAD_SCRIPT'; script: ShowScript; stageIndex?: number }
+  // Inserted after the current stage
+  | { type: 'ADD_STAGE'; stage: ShowStage }
+  // How a stage comes in; edits the script in place without restarting
+  | { type: 'SET_TRANSITION'; stageIndex: number; transition: StageTransition }
+  // A display copying its controller; nothing is derived or restarted
+  | { type: 'MIRROR'; script?: ShowScript; stageIndex?: number; handState?: HandState; isPaused?: boolean };
+
+export const createStageState = (script: ShowScript, schedule: CountdownSchedule): StageState => ({
+  script,
+  stageIndex: 0,
+  isPaused: false,
+  handState: HandState.UNKNOWN,
+  schedule,
+  fireworks: 0,
+  restarts: 0,
+});
+
+export const getCurrentStage = (state: StageState): ShowStage =>
+  state.script.stages[Math.min(state.stageIndex, state.script.stages.length - 1)];
+
+// In clock sync mode the stages between the first and the finale count back from zero
+export const getLeadDurations = (script: ShowScript): number[] =>
+  script.stages.slice(1, -1).map((s) => s.durationMs);
+
+const lastIndex = (state: StageState) => state.script.stages.length - 1;
+
+// Manual control takes over from the clock until the schedule is resumed
+const pauseSchedule = (schedule: CountdownSchedule): CountdownSchedule =>
+  schedule.status === 'RUNNING' ? { ...schedule, status: 'PAUSED' } : schedule;
+
+const goTo = (state: StageState, stageIndex: number): StageState => {
+  const schedule = pauseSchedule(state.schedule);
+  if (stageIndex === state.stageIndex && schedule === state.schedule) return state;
+  return { ...state, stageIndex, schedule };
+};
+
+const runAction = (state: StageState, action: GestureAction): StageState => {
+  switch (action) {
+    case 'NEXT':
+      return goTo(state, Math.min(state.stageIndex + 1, lastIndex(state)));
+    case 'PREVIOUS':
+      return goTo(state, Math.max(state.stageIndex - 1, 0));
+    case 'TOGGLE_PAUSE': {
+      // Freezes timed stages and the clock; resuming re-syncs a paused clock schedule
+      const isPaused = !state.isPaused;
+      let schedule = state.schedule;
+      if (isPaused && schedule.status === 'RUNNING') schedule = { ...schedule, status: 'PAUSED' };
+      if (!isPaused && schedule.status === 'PAUSED') schedule = { ...schedule, status: 'RUNNING' };
+      return { ...state, isPaused, schedule };
+    }
+    case 'RESET':
+      return {
+        ...state,
+        stageIndex: 0,
+        schedule: pauseSchedule(state.schedule),
+        handState: HandState.UNKNOWN,
+        restarts: state.restarts + 1,
+      };
+    case 'FIREWORKS':
+      return { ...state, fireworks: state.fireworks + 1 };
+    case 'TRIGGER':
+    case 'CONFIRM':
+      // Only meaningful for gestures; a button meaning "next" sends NEXT
+      return state;
+  }
+};
+
+/**
+ * Next state for an event. Returns the same object when nothing changed.
+ */
+export const reduceStage = (state: StageState, event: StageEvent): StageState => {
+  switch (event.type) {
+    case 'GESTURE': {
+      if (state.isPaused && event.action !== 'TOGGLE_PAUSE') return state;
+      if (event.action === 'TRIGGER' || event.action === 'CONFIRM') {
+        const stage = getCurrentStage(state);
+        if (stage.advance === 'gesture') return runAction(state, 'NEXT');
+        if (stage.fireworks) return runAction(state, 'FIREWORKS');
+        return state;
+      }
+      return runAction(state, event.action);
+    }
+
+    case 'ACTION':
+      return runAction(state, event.action);
+
+    case 'HAND_STATE':
+      return event.state === state.handState ? state : { ...state, handState: event.state };
+
+    case 'TIMER_ELAPSED': {
+      // The clock owns the stages while sync is running
+      const stage = getCurrentStage(state);
+      if (event.stageIndex !== state.stageIndex || stage.advance !== 'timer' || state.isPaused || state.schedule.status === 'RUNNING') {
+        return state;
+      }
+      const stageIndex = Math.min(state.stageIndex + 1, lastIndex(state));
+      return stageIndex === state.stageIndex ? state : { ...state, stageIndex };
+    }
+
+    case 'CLOCK_TICK': {
+      if (state.schedule.status !== 'RUNNING') return state;
+      const stageIndex = Math.min(getScheduledStageIndex(event.remainingMs, getLeadDurations(state.script)), lastIndex(state));
+      return stageIndex === state.stageIndex ? state : { ...state, stageIndex };
+    }
+
+    case 'SET_SCHEDULE':
+      return { ...state, schedule: event.schedule };
+
+    case 'LOAD_SCRIPT': {
+      const jump = event.stageIndex !== undefined;
+      return {
+        ...state,
+        script: event.script,
+        stageIndex: jump ? Math.min(Math.max(0, event.stageIndex!), event.script.stages.length - 1) : 0,
+        schedule: jump ? pauseSchedule(state.schedule) : state.schedule,
+        handState: HandState.UNKNOWN,
+        restarts: state.restarts + 1,
+      };
+    }
+
+    case 'ADD_STAGE': {
+      // Ids must stay unique for the script to remain valid
+      const { stages } = state.script;
+      const base = event.stage.id || 'image';
+      let id = base;
+      for (let n = 2; stages.some((s) => s.id === id); n++) id = `${base}-${n}`;
+
+      const nextStages = [...stages];
+      nextStages.splice(state.stageIndex + 1, 0, { ...event.stage, id });
+      return { ...state, script: { ...state.script, stages: nextStages } };
+    }
+
+    case 'SET_TRANSITION': {
+      const { stages } = state.script;
+      if (!stages[event.stageIndex]) return state;
+      const nextStages = stages.map((s, i) => (i === event.stageIndex ? { ...s, transition: event.transition } : s));
+      return { ...state, script: { ...state.script, stages: nextStages } };
+    }
+
+    case 'MIRROR': {
+      const { type: _type, ...fields } = event;
+      const changed = (Object.keys(fields) as (keyof typeof fields)[]).some(
+        (key) => fields[key] !== undefined && fields[key] !== state[key]
+      );
+      if (!changed) return state;
+      return {
+        ...state,
+        script: fields.script ?? state.script,
+        stageIndex: fields.stageIndex ?? state.stageIndex,
+        handState: fields.handState ?? state.handState,
+        isPaused: fields.isPaused ?? state.isPaused,
+      };
+    }
+  }
+};
+
+export interface StageControllerCallbacks {
+  onChange?: (state: StageState, previous: StageState) => void;
+  onStageChange?: (stage: ShowStage, index: number) => void;
+  onFireworks?: () => void;
+  onRestart?: () => void;
+}
+
+/**
+ * Holds the show state and runs events through reduceStage. Callbacks fire
+ * after the state is updated, so they can read getState() or dispatch again.
+ */
+export class StageController {
+  private state: StageState;
+  private callbacks: StageControllerCallbacks;
+
+  constructor(initial: StageState, callbacks: StageControllerCallbacks = {}) {
+    this.state = initial;
+    this.callbacks = callbacks;
+  }
+
+  public getState(): StageState {
+    return this.state;
+  }
+
+  public dispatch(event: StageEvent): StageState {
+    const previous = this.state;
+    const next = reduceStage(previous, event);
+    if (next === previous) return next;
+    this.state = next;
+
+    this.callbacks.onChange?.(next, previous);
+    if (next.stageIndex !== previous.stageIndex || next.script !== previous.script) {
+      const stage = getCurrentStage(next);
+      if (stage !== getCurrentStage(previous)) this.callbacks.onStageChange?.(stage, next.stageIndex);
+    }
+    if (next.fireworks !== previous.fireworks) this.callbacks.onFireworks?.();
+    if (next.restarts !== previous.restarts) this.callbacks.onRestart?.();
+    return next;
+  }
+}
@@ -0,0 +1,13 @@
+import { ShowStage } from '../types';
+
+// Stage fixture for tests: a plain gesture-advanced text stage showing its id
+export const makeStage = (id: string, overrides: Partial<ShowStage> = {}): ShowStage => ({
+  id,
+  shape: { type: 'text', text: id },
+  colors: [[1, 1, 1]],
+  watermark: id,
+  durationMs: 1000,
+  advance: 'gesture',
+  fireworks: false,
+  ...overrides,
+});
@@ -1,26 +1,115 @@
-export enum AppStage {
-  TREE = 'TREE',
-  COUNTDOWN_5 = '5',
-  COUNTDOWN_4 = '4',
-  COUNTDOWN_3 = '3',
-  COUNTDOWN_2 = '2',
-  COUNTDOWN_1 = '1',
-  HAPPY_NEW_YEAR = 'HAPPY_NEW_YEAR'
-}
-
 export enum HandState {
   UNKNOWN = 'UNKNOWN',
   OPEN = 'OPEN',
-  CLOSED = 'CLOSED'
+  CLOSED = 'CLOSED',
+  THUMBS_UP = 'THUMBS_UP',
+  SWIPE_LEFT = 'SWIPE_LEFT',   // Directions are from the presenter's point of view
+  SWIPE_RIGHT = 'SWIPE_RIGHT',
+  TWO_HANDS_OPEN = 'TWO_HANDS_OPEN',
+  PEACE = 'PEACE'
+}
+
+// Where the hand is in the camera image (as the camera sees it, not mirrored), 0-1 each.
+// size is the hand's width as a fraction of the frame's: a rough stand-in for distance
+export interface HandPosition {
+  x: number; // 0 = image left
+  y: number; // 0 = image top
+  size: number;
 }
 
+// What a recognized gesture asks the show to do
+// TRIGGER: open -> fist, CONFIRM: thumbs up. Both advance stages whose trigger is 'gesture'
+// NEXT / PREVIOUS step regardless of the stage trigger, RESET goes back to the first stage
+// FIREWORKS launches a salvo; TRIGGER / CONFIRM do the same on a fireworks stage they can't advance
+export type GestureAction = 'TRIGGER' | 'CONFIRM' | 'NEXT' | 'PREVIOUS' | 'TOGGLE_PAUSE' | 'RESET' | 'FIREWORKS';
+
+// What the operator can say instead of gesturing (see utils/voiceCommands.ts)
+export type VoiceCommand = 'NEXT' | 'BACK' | 'RESET' | 'START_COUNTDOWN' | 'FIREWORKS';
+
+export type RGB = [number, number, number]; // 0-1 per channel
+
 export interface ParticlePoint {
   x: number;
   y: number;
   z: number;
-  color: [number, number, number]; // RGB 0-1
+  color: RGB;
+}
+
+// --- Show scripts ---
+// A show is a list of stages loaded from JSON (see shows/default.json)
+
+// How image pixels are picked:
+// alpha: opaque pixels (logos with transparency), luminance: bright pixels,
+// auto: alpha if the image has any transparency, else luminance
+export type ImageSampling = 'auto' | 'alpha' | 'luminance';
+
+export interface ImageShapeOptions {
+  sampling?: ImageSampling;
+  threshold?: number;   // 0-1 cut-off for the sampled channel (default 0.5)
+  invert?: boolean;     // Keep pixels BELOW the threshold (dark logo on white)
+  keepColors?: boolean; // Use each pixel's own color instead of the stage palette (default true)
+  extrude?: number;     // Depth range pushed out by brightness, 0 = flat (default 0)
+}
+
+export interface TextShapeOptions {
+  direction?: 'ltr' | 'rtl'; // Defaults to the locale's
+  font?: string;             // CSS font family (default Arial)
+  fontUrl?: string;          // Web font file (woff2/ttf/otf) registered under `font` before drawing
+  weight?: number;           // 100-900 (default 700)
+  maxLines?: number;         // Long text wraps onto up to this many lines (default 2)
+  extrude?: number;          // Letter depth in world units (default 2, a slight jitter)
+  edges?: boolean;           // Outline particles take the palette's second color
+}
+
+export type ShapeSource =
+  | ({ type: 'text'; text: string } & TextShapeOptions)
+  | { type: 'tree' }
+  | ({ type: 'image'; src: string } & ImageShapeOptions)            // URL or data: URL (PNG/JPEG/SVG)
+  | { type: 'shape'; name: string; params?: Record<string, number> }; // Procedural, by name
+
+// How particles travel to a stage's shape (see utils/transitions.ts)
+// morph: straight there, explode: burst outwards and fall back in, vortex: spiral round the center,
+// wipe: left to right, stagger: each particle sets off after its own delay, implode: in through the center
+export type TransitionEffect = 'morph' | 'explode' | 'vortex' | 'wipe' | 'stagger' | 'implode';
+export type TransitionEasing = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut';
+
+export interface StageTransition {
+  effect: TransitionEffect;
+  durationMs: number;
+  easing: TransitionEasing;
+}
+
+// gesture: OPEN -> CLOSED (or Next button) advances
+// timer:   advances by itself after durationMs
+// manual:  ignores gestures, buttons only
+export type AdvanceTrigger = 'gesture' | 'timer' | 'manual';
+
+export interface ShowStage {
+  id: string;
+  shape: ShapeSource;
+  colors: RGB[];       // Palette, first entry is the primary color
+  watermark: string;   // Big faint label in the corner
+  durationMs: number;  // Used by 'timer' stages and by clock sync
+  advance: AdvanceTrigger;
+  fireworks: boolean;  // Timed fireworks salvos once the shape has formed
+  transition?: StageTransition; // How the stage comes in; the default morph if omitted
+  narration?: string;  // Spoken in narrator mode when the stage comes in; text stages say their text if omitted
+}
+
+export interface ShowScript {
+  name: string;
+  stages: ShowStage[];
 }
 
 export interface GeminiConfig {
   apiKey: string;
 }
+
+export type ScheduleStatus = 'OFF' | 'RUNNING' | 'PAUSED';
+
+// Wall-clock countdown settings. PAUSED means a gesture or button took over
+export interface CountdownSchedule {
+  status: ScheduleStatus;
+  timeZone: string;   // IANA zone name
+  targetTime: number; // epoch ms of the HAPPY_NEW_YEAR moment
+}
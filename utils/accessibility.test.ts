@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { makeStage } from '../test/fixtures';
+import { getPreferredAccessibility, reduceTransition, getStageAnnouncement, REDUCED_MOTION_TRANSITION_MS } from './accessibility';
+
+describe('accessibility', () => {
+  it('starts from the system preferences', () => {
+    const prefers = (query: string) => ({ matches: query.includes('reduced-motion') });
+    expect(getPreferredAccessibility(prefers)).toEqual({ reducedMotion: true, highContrast: false });
+    expect(getPreferredAccessibility(() => ({ matches: false }))).toEqual({ reducedMotion: false, highContrast: false });
+  });
+
+  it('turns transitions into short plain morphs', () => {
+    expect(reduceTransition({ effect: 'explode', durationMs: 2000, easing: 'easeInOut' })).toEqual({
+      effect: 'morph',
+      durationMs: REDUCED_MOTION_TRANSITION_MS,
+      easing: 'easeInOut',
+    });
+    expect(reduceTransition({ effect: 'vortex', durationMs: 200, easing: 'linear' }).durationMs).toBe(200);
+  });
+
+  it('announces the text of text stages and the watermark of the rest', () => {
+    expect(getStageAnnouncement(makeStage('finale', { shape: { type: 'text', text: 'HAPPY\nNEW YEAR' }, watermark: '2027' }))).toBe('HAPPY NEW YEAR');
+    expect(getStageAnnouncement(makeStage('tree', { shape: { type: 'tree' }, watermark: 'TREE' }))).toBe('TREE');
+    expect(getStageAnnouncement(makeStage('heart', { shape: { type: 'shape', name: 'heart' }, watermark: '' }))).toBe('heart');
+  });
+});
@@ -0,0 +1,36 @@
+import { ShowStage, StageTransition } from '../types';
+
+// Viewer comfort settings. Reduced motion keeps the show readable for people
+// sensitive to movement: stage changes become short plain morphs, the
+// particles stop bobbing, the stars stop turning and fireworks burst dimmer
+// without flicker. High contrast is a panel theme (see index.html).
+
+export interface AccessibilitySettings {
+  reducedMotion: boolean;
+  highContrast: boolean;
+}
+
+// Starts from the system setting; the panel can change it either way
+export const getPreferredAccessibility = (
+  matchMedia: ((query: string) => { matches: boolean }) | undefined = window.matchMedia?.bind(window)
+): AccessibilitySettings => ({
+  reducedMotion: !!matchMedia?.('(prefers-reduced-motion: reduce)').matches,
+  highContrast: !!matchMedia?.('(prefers-contrast: more)').matches,
+});
+
+export const REDUCED_MOTION_TRANSITION_MS = 400;
+
+export const reduceTransition = (transition: StageTransition): StageTransition => ({
+  effect: 'morph',
+  durationMs: Math.min(transition.durationMs, REDUCED_MOTION_TRANSITION_MS),
+  easing: transition.easing,
+});
+
+/**
+ * What screen readers hear when a stage comes in: the text a text stage
+ * spells out, otherwise its watermark. Expects a localized stage
+ */
+export const getStageAnnouncement = (stage: ShowStage): string => {
+  const text = stage.shape.type === 'text' ? stage.shape.text : stage.watermark;
+  return text.replace(/\s+/g, ' ').trim() || stage.id;
+};
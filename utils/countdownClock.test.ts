@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import {
+  zonedTimeToInstant,
+  getTimeZoneOffset,
+  getNextNewYear,
+  getScheduledStageIndex,
+  getMsToNextChange,
+  formatRemaining,
+  toDateTimeLocalValue,
+  fromDateTimeLocalValue,
+} from './countdownClock';
+
+const HOUR = 3600000;
+
+describe('zonedTimeToInstant', () => {
+  it('converts in a zone without daylight saving', () => {
+    expect(zonedTimeToInstant('Asia/Shanghai', 2025, 1, 1)).toBe(Date.UTC(2024, 11, 31, 16));
+    expect(zonedTimeToInstant('UTC', 2025, 6, 15, 12, 30, 5)).toBe(Date.UTC(2025, 5, 15, 12, 30, 5));
+  });
+
+  it('uses the right offset on each side of a spring-forward change', () => {
+    // New York went from EST (-5) to EDT (-4) at 02:00 on 10 March 2024
+    expect(zonedTimeToInstant('America/New_York', 2024, 3, 10, 1, 30)).toBe(Date.UTC(2024, 2, 10, 6, 30));
+    expect(zonedTimeToInstant('America/New_York', 2024, 3, 10, 3, 30)).toBe(Date.UTC(2024, 2, 10, 7, 30));
+  });
+
+  it('uses the right offset on each side of a fall-back change', () => {
+    // London went from BST (+1) back to GMT at 02:00 on 27 October 2024
+    expect(zonedTimeToInstant('Europe/London', 2024, 10, 27, 0, 30)).toBe(Date.UTC(2024, 9, 26, 23, 30));
+    expect(zonedTimeToInstant('Europe/London', 2024, 10, 27, 2, 30)).toBe(Date.UTC(2024, 9, 27, 2, 30));
+  });
+
+  it('lands within the hour for a wall-clock time that is skipped', () => {
+    const instant = zonedTimeToInstant('America/New_York', 2024, 3, 10, 2, 30);
+    expect(Math.abs(instant - Date.UTC(2024, 2, 10, 7, 0))).toBeLessThanOrEqual(HOUR);
+  });
+
+  it('follows summer time in the southern hemisphere', () => {
+    // Sydney is on AEDT (+11) at new year
+    expect(getTimeZoneOffset(Date.UTC(2025, 0, 1), 'Australia/Sydney')).toBe(11 * HOUR);
+    expect(getTimeZoneOffset(Date.UTC(2025, 6, 1), 'Australia/Sydney')).toBe(10 * HOUR);
+    expect(zonedTimeToInstant('Australia/Sydney', 2025, 1, 1)).toBe(Date.UTC(2024, 11, 31, 13));
+  });
+});
+
+describe('getNextNewYear', () => {
+  it('is the coming midnight of 1 January in the zone', () => {
+    const now = Date.UTC(2024, 11, 31, 12);
+    expect(getNextNewYear('Australia/Sydney', now)).toBe(Date.UTC(2024, 11, 31, 13));
+    expect(getNextNewYear('America/New_York', now)).toBe(Date.UTC(2025, 0, 1, 5));
+  });
+
+  it('moves on to the following year once the zone has passed midnight', () => {
+    expect(getNextNewYear('Asia/Tokyo', Date.UTC(2024, 11, 31, 15))).toBe(Date.UTC(2025, 11, 31, 15));
+  });
+});
+
+// Five stages: a waiting stage, three timed lead stages of 1 s, then the one that fires at zero
+const LEADS = [1000, 1000, 1000];
+
+describe('getScheduledStageIndex', () => {
+  it('sits on the first stage until the lead stages begin', () => {
+    expect(getScheduledStageIndex(HOUR, LEADS)).toBe(0);
+    expect(getScheduledStageIndex(3001, LEADS)).toBe(0);
+  });
+
+  it('counts the lead stages back from zero', () => {
+    expect(getScheduledStageIndex(3000, LEADS)).toBe(1);
+    expect(getScheduledStageIndex(2000, LEADS)).toBe(2);
+    expect(getScheduledStageIndex(1999, LEADS)).toBe(2);
+    expect(getScheduledStageIndex(1, LEADS)).toBe(3);
+  });
+
+  it('reaches the last stage at zero and stays there', () => {
+    expect(getScheduledStageIndex(0, LEADS)).toBe(4);
+    expect(getScheduledStageIndex(-5000, LEADS)).toBe(4);
+  });
+
+  it('goes straight from the first stage to the last without lead stages', () => {
+    expect(getScheduledStageIndex(1, [])).toBe(0);
+    expect(getScheduledStageIndex(0, [])).toBe(1);
+  });
+});
+
+describe('getMsToNextChange', () => {
+  it('waits for the next whole second of the readout', () => {
+    expect(getMsToNextChange(HOUR + 250, LEADS)).toBe(250);
+    expect(getMsToNextChange(HOUR, LEADS)).toBe(1000);
+  });
+
+  it('wakes up early for a stage boundary between seconds', () => {
+    expect(getMsToNextChange(1700, [1500])).toBe(200);
+    expect(getMsToNextChange(5700, [2000, 1500, 2000])).toBe(200);
+  });
+
+  it('never asks for a zero or negative wait', () => {
+    for (const remaining of [1, 999, 1000, 1500, 3000, 3001]) {
+      expect(getMsToNextChange(remaining, LEADS)).toBeGreaterThan(0);
+    }
+  });
+});
+
+describe('formatting', () => {
+  it('rounds the readout up and lets hours pass 99', () => {
+    expect(formatRemaining(1)).toBe('00:00:01');
+    expect(formatRemaining(-1000)).toBe('00:00:00');
+    expect(formatRemaining(100 * HOUR + 61000)).toBe('100:01:01');
+  });
+
+  it('round-trips datetime-local values in a zone', () => {
+    const instant = Date.UTC(2024, 2, 10, 7, 30);
+    const value = toDateTimeLocalValue(instant, 'America/New_York');
+    expect(value).toBe('2024-03-10T03:30:00');
+    expect(fromDateTimeLocalValue(value, 'America/New_York')).toBe(instant);
+    expect(fromDateTimeLocalValue('soon', 'UTC')).toBeNull();
+  });
+});
@@ -0,0 +1,126 @@
+// Wall-clock helpers for the scheduled countdown mode.
+// Everything works in epoch milliseconds; time zones are IANA names ('Asia/Shanghai').
+
+export const getLocalTimeZone = (): string =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+/**
+ * All IANA zones the browser knows about, falling back to a short list on old engines
+ */
+export const getTimeZones = (): string[] => {
+  try {
+    return Intl.supportedValuesOf('timeZone');
+  } catch {
+    return ['UTC', 'America/New_York', 'Europe/London', 'Asia/Shanghai', 'Asia/Tokyo', 'Australia/Sydney'];
+  }
+};
+
+// Wall-clock parts of an instant as seen in a zone
+const getZonedParts = (time: number, timeZone: string) => {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric', month: 'numeric', day: 'numeric',
+    hour: 'numeric', minute: 'numeric', second: 'numeric',
+  });
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(new Date(time))) {
+    if (part.type !== 'literal') parts[part.type] = parseInt(part.value, 10);
+  }
+  return parts as { year: number; month: number; day: number; hour: number; minute: number; second: number };
+};
+
+/**
+ * Offset of a zone from UTC at a given instant, in ms (positive east of Greenwich)
+ */
+export const getTimeZoneOffset = (time: number, timeZone: string): number => {
+  const p = getZonedParts(time, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(time / 1000) * 1000;
+};
+
+/**
+ * Converts a wall-clock time in a zone to an instant.
+ * Month is 1-based to match how people write dates.
+ */
+export const zonedTimeToInstant = (
+  timeZone: string,
+  year: number, month: number, day: number,
+  hour = 0, minute = 0, second = 0
+): number => {
+  const guess = Date.UTC(year, month - 1, day, hour, minute, second);
+  // Two passes settle the offset even when the guess lands across a DST change
+  let instant = guess - getTimeZoneOffset(guess, timeZone);
+  instant = guess - getTimeZoneOffset(instant, timeZone);
+  return instant;
+};
+
+/**
+ * Next 1 January 00:00:00 in the given zone, strictly after `now`
+ */
+export const getNextNewYear = (timeZone: string, now: number = Date.now()): number => {
+  const { year } = getZonedParts(now, timeZone);
+  return zonedTimeToInstant(timeZone, year + 1, 1, 1);
+};
+
+/**
+ * Calendar year of an instant in a zone; for a new year target, the year it starts
+ */
+export const getYearAt = (time: number, timeZone: string): number => getZonedParts(time, timeZone).year;
+
+/**
+ * Maps remaining time onto the stage list. The last stage fires at zero and
+ * the stages before it take their durations counting back from there
+ * (`leadDurations` covers stages 1..n-2). Anything earlier sits on stage 0.
+ */
+export const getScheduledStageIndex = (remainingMs: number, leadDurations: number[]): number => {
+  if (remainingMs <= 0) return leadDurations.length + 1;
+  let elapsedBack = 0;
+  for (let i = leadDurations.length - 1; i >= 0; i--) {
+    elapsedBack += leadDurations[i];
+    if (remainingMs <= elapsedBack) return i + 1;
+  }
+  return 0;
+};
+
+/**
+ * Delay until something visible changes: the next whole second of the
+ * readout or the next stage boundary, whichever comes first
+ */
+export const getMsToNextChange = (remainingMs: number, leadDurations: number[]): number => {
+  let next = remainingMs % 1000 || 1000;
+  let boundary = 0;
+  for (let i = leadDurations.length; i >= 0; i--) {
+    const gap = remainingMs - boundary;
+    if (gap > 0 && gap < next) next = gap;
+    if (i > 0) boundary += leadDurations[i - 1];
+  }
+  return next;
+};
+
+/**
+ * "HH:MM:SS" with hours allowed past 99 for multi-day countdowns
+ */
+export const formatRemaining = (remainingMs: number): string => {
+  const total = Math.max(0, Math.ceil(remainingMs / 1000));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const seconds = total % 60;
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}`;
+};
+
+// Value for <input type="datetime-local"> showing an instant in a zone
+export const toDateTimeLocalValue = (time: number, timeZone: string): string => {
+  const p = getZonedParts(time, timeZone);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}T${pad(p.hour)}:${pad(p.minute)}:${pad(p.second)}`;
+};
+
+// Inverse of toDateTimeLocalValue. Returns null for unparseable input
+export const fromDateTimeLocalValue = (value: string, timeZone: string): number | null => {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?/);
+  if (!match) return null;
+  const [, y, mo, d, h, mi, s] = match;
+  return zonedTimeToInstant(timeZone, +y, +mo, +d, +h, +mi, s ? +s : 0);
+};
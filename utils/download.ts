@@ -0,0 +1,15 @@
+// Saves a blob through a temporary link; the object URL is released once the click has been handled
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// "2025-12-31_23-59-58", safe for file names
+export const fileTimestamp = (date = new Date()): string =>
+  date.toISOString().slice(0, 19).replace('T', '_').replace(/:/g, '-');
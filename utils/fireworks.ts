@@ -0,0 +1,313 @@
+import * as THREE from 'three';
+import { RGB } from '../types';
+
+// Physics-based fireworks drawn as one pooled THREE.Points.
+// Rockets climb from below the frame, burst at their apex and the stars fall
+// under gravity and drag while fading. The pool is small enough (tens of
+// thousands) that plain CPU integration is fine.
+
+export type BurstType = 'radial' | 'peony' | 'willow';
+
+export interface LaunchOptions {
+  x?: number;          // Launch position across the frame
+  apex?: number;       // Burst height
+  burst?: BurstType;
+  palette?: RGB[];
+}
+
+export const FIREWORK_PALETTES: RGB[][] = [
+  [[1, 0.3, 0.3], [1, 0.82, 0.3]],             // Red / gold
+  [[0.4, 0.6, 1], [0.85, 0.95, 1]],            // Blue / white
+  [[0.3, 1, 0.5], [1, 1, 0.5]],                // Green / lemon
+  [[1, 0.4, 0.9], [0.6, 0.4, 1]],              // Pink / violet
+  [[1, 0.75, 0.35]],                           // Pure gold
+];
+
+const POOL_SIZE = 30000;
+const GRAVITY = 12;      // Units/s², tuned to the camera at z = 30
+const LAUNCH_Y = -26;    // Just below the bottom edge of the frame
+const LAUNCH_Z = -8;     // Behind the main text so the greeting stays readable
+const GENTLE_BRIGHTNESS = 0.45; // Reduced motion: dimmer bursts, no flicker
+
+const enum Kind { DEAD, ROCKET, STAR, TRAIL }
+
+interface BurstProfile {
+  count: number;
+  speed: number;
+  speedJitter: number;
+  drag: number;
+  gravity: number;  // Multiplier on GRAVITY
+  life: number;
+  trails: boolean;
+  size: number;
+}
+
+const BURSTS: Record<BurstType, BurstProfile> = {
+  // Crisp even sphere that pops and fades fast
+  radial: { count: 260, speed: 11, speedJitter: 0.05, drag: 1.2, gravity: 0.5, life: 1.5, trails: false, size: 0.9 },
+  // Fuller, softer sphere with uneven star speeds
+  peony: { count: 360, speed: 8.5, speedJitter: 0.35, drag: 1.0, gravity: 0.6, life: 2.1, trails: false, size: 1.0 },
+  // Slow, heavy stars that droop and leave long trails
+  willow: { count: 180, speed: 6, speedJitter: 0.25, drag: 2.2, gravity: 0.7, life: 3.2, trails: true, size: 0.8 },
+};
+
+const vertexShader = `
+  attribute float aSize;
+  uniform float uScale;
+  varying vec3 vColor;
+
+  void main() {
+    vColor = color;
+    vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
+    gl_PointSize = aSize * (uScale / -mvPosition.z);
+    gl_Position = projectionMatrix * mvPosition;
+  }
+`;
+
+const fragmentShader = `
+  varying vec3 vColor;
+
+  void main() {
+    // Soft round spark
+    float d = length(gl_PointCoord - 0.5);
+    if (d > 0.5) discard;
+    gl_FragColor = vec4(vColor * (1.0 - d * 2.0), 1.0);
+    #include <colorspace_fragment>
+  }
+`;
+
+const pick = <T,>(items: T[]): T => items[Math.floor(Math.random() * items.length)];
+
+export class FireworksSystem {
+  public readonly object: THREE.Points;
+
+  private geometry: THREE.BufferGeometry;
+  private material: THREE.ShaderMaterial;
+  private positions: Float32Array;
+  private colors: Float32Array;
+  private sizes: Float32Array;
+
+  // Per-particle simulation state
+  private kind = new Uint8Array(POOL_SIZE);
+  private velocity = new Float32Array(POOL_SIZE * 3);
+  private baseColor = new Float32Array(POOL_SIZE * 3);
+  private baseSize = new Float32Array(POOL_SIZE);
+  private life = new Float32Array(POOL_SIZE);
+  private maxLife = new Float32Array(POOL_SIZE);
+  private drag = new Float32Array(POOL_SIZE);
+  private gravity = new Float32Array(POOL_SIZE);
+  private trails = new Uint8Array(POOL_SIZE);
+  private burst: BurstType[] = new Array(POOL_SIZE);
+  private palette: RGB[][] = new Array(POOL_SIZE);
+
+  private cursor = 0; // Ring allocation: when full, the oldest particle is recycled
+  private time = 0;
+  private queue: { at: number; options: LaunchOptions }[] = [];
+  private gentle = false;
+  private onBurst?: (burst: BurstType, x: number) => void;
+
+  constructor(onBurst?: (burst: BurstType, x: number) => void) {
+    this.onBurst = onBurst;
+    this.positions = new Float32Array(POOL_SIZE * 3);
+    this.colors = new Float32Array(POOL_SIZE * 3);
+    this.sizes = new Float32Array(POOL_SIZE);
+
+    this.geometry = new THREE.BufferGeometry();
+    this.geometry.setAttribute('position', new THREE.BufferAttribute(this.positions, 3));
+    this.geometry.setAttribute('color', new THREE.BufferAttribute(this.colors, 3));
+    this.geometry.setAttribute('aSize', new THREE.BufferAttribute(this.sizes, 1));
+
+    this.material = new THREE.ShaderMaterial({
+      uniforms: { uScale: { value: window.innerHeight * 0.5 } },
+      vertexShader,
+      fragmentShader,
+      vertexColors: true,
+      blending: THREE.AdditiveBlending,
+      depthTest: false,
+      depthWrite: false,
+      transparent: true,
+    });
+
+    this.object = new THREE.Points(this.geometry, this.material);
+    this.object.frustumCulled = false;
+  }
+
+  public setViewportHeight(height: number) {
+    this.material.uniforms.uScale.value = height * 0.5;
+  }
+
+  /**
+   * Tones down the flashes for reduced motion: bursts glow at under half
+   * brightness and stars fade out steadily instead of flickering
+   */
+  public setGentle(gentle: boolean) {
+    this.gentle = gentle;
+  }
+
+  /**
+   * Sends up one rocket now
+   */
+  public launch(options: LaunchOptions = {}) {
+    const x = options.x ?? (Math.random() - 0.5) * 40;
+    const apex = options.apex ?? 4 + Math.random() * 14;
+    const burst = options.burst ?? pick<BurstType>(['radial', 'peony', 'peony', 'willow']);
+    const palette = options.palette ?? (burst === 'willow' ? FIREWORK_PALETTES[4] : pick(FIREWORK_PALETTES));
+
+    // Just enough upward speed to coast to the apex
+    const vy = Math.sqrt(2 * GRAVITY * (apex - LAUNCH_Y));
+    const i = this.spawn(
+      Kind.ROCKET,
+      x, LAUNCH_Y, LAUNCH_Z + (Math.random() - 0.5) * 6,
+      (Math.random() - 0.5) * 2, vy, 0,
+      [1, 0.85, 0.6], 0.7, 10, 0, 1
+    );
+    this.trails[i] = 1;
+    this.burst[i] = burst;
+    this.palette[i] = palette;
+  }
+
+  /**
+   * Queues `count` rockets spread over `spreadMs`
+   */
+  public salvo(count = 4, spreadMs = 900) {
+    for (let n = 0; n < count; n++) {
+      this.queue.push({ at: this.time + (Math.random() * spreadMs) / 1000, options: {} });
+    }
+  }
+
+  public clear() {
+    this.queue = [];
+    this.kind.fill(Kind.DEAD);
+    this.colors.fill(0);
+    this.sizes.fill(0);
+    this.geometry.attributes.color.needsUpdate = true;
+    this.geometry.attributes.aSize.needsUpdate = true;
+  }
+
+  /**
+   * Advances the simulation by dt seconds
+   */
+  public update(dt: number) {
+    this.time += dt;
+
+    if (this.queue.length > 0) {
+      const due = this.queue.filter((q) => q.at <= this.time);
+      this.queue = this.queue.filter((q) => q.at > this.time);
+      due.forEach((q) => this.launch(q.options));
+    }
+
+    const p = this.positions;
+    const v = this.velocity;
+
+    for (let i = 0; i < POOL_SIZE; i++) {
+      const kind = this.kind[i];
+      if (kind === Kind.DEAD) continue;
+      const i3 = i * 3;
+
+      this.life[i] -= dt;
+
+      // Rockets burst at the top of their climb
+      if (kind === Kind.ROCKET && (v[i3 + 1] <= 0 || this.life[i] <= 0)) {
+        this.kill(i);
+        this.explode(p[i3], p[i3 + 1], p[i3 + 2], this.burst[i], this.palette[i]);
+        continue;
+      }
+      if (this.life[i] <= 0) {
+        this.kill(i);
+        continue;
+      }
+
+      const damping = Math.exp(-this.drag[i] * dt);
+      v[i3] *= damping;
+      v[i3 + 1] = v[i3 + 1] * damping - GRAVITY * this.gravity[i] * dt;
+      v[i3 + 2] *= damping;
+      p[i3] += v[i3] * dt;
+      p[i3 + 1] += v[i3 + 1] * dt;
+      p[i3 + 2] += v[i3 + 2] * dt;
+
+      // Fade out; stars flicker a little near the end
+      const t = this.life[i] / this.maxLife[i];
+      let fade = kind === Kind.TRAIL ? t * t : Math.pow(t, 0.6);
+      if (this.gentle) fade *= GENTLE_BRIGHTNESS;
+      else if (kind === Kind.STAR && t < 0.3) fade *= 0.6 + Math.random() * 0.4;
+      this.colors[i3] = this.baseColor[i3] * fade;
+      this.colors[i3 + 1] = this.baseColor[i3 + 1] * fade;
+      this.colors[i3 + 2] = this.baseColor[i3 + 2] * fade;
+      this.sizes[i] = this.baseSize[i] * (kind === Kind.TRAIL ? 0.5 + t * 0.5 : 1);
+
+      // Trails: short-lived dim sparks left behind
+      if (this.trails[i] && Math.random() < (kind === Kind.ROCKET ? 0.9 : 0.35)) {
+        const c: RGB = [this.colors[i3] * 0.6, this.colors[i3 + 1] * 0.5, this.colors[i3 + 2] * 0.4];
+        this.spawn(
+          Kind.TRAIL,
+          p[i3], p[i3 + 1], p[i3 + 2],
+          (Math.random() - 0.5) * 0.6, (Math.random() - 0.5) * 0.6 - 0.5, (Math.random() - 0.5) * 0.6,
+          c, 0.25 + Math.random() * 0.35, 3, 0.2, this.baseSize[i] * 0.7
+        );
+      }
+    }
+
+    this.geometry.attributes.position.needsUpdate = true;
+    this.geometry.attributes.color.needsUpdate = true;
+    this.geometry.attributes.aSize.needsUpdate = true;
+  }
+
+  public dispose() {
+    this.geometry.dispose();
+    this.material.dispose();
+  }
+
+  private explode(x: number, y: number, z: number, burst: BurstType, palette: RGB[]) {
+    const profile = BURSTS[burst];
+    this.onBurst?.(burst, x);
+    for (let n = 0; n < profile.count; n++) {
+      // Uniform direction on the sphere
+      const u = Math.random() * 2 - 1;
+      const theta = Math.random() * Math.PI * 2;
+      const r = Math.sqrt(1 - u * u);
+      const speed = profile.speed * (1 + (Math.random() - 0.5) * 2 * profile.speedJitter);
+
+      const i = this.spawn(
+        Kind.STAR,
+        x, y, z,
+        Math.cos(theta) * r * speed, u * speed, Math.sin(theta) * r * speed,
+        pick(palette),
+        profile.life * (0.8 + Math.random() * 0.4),
+        profile.drag, profile.gravity, profile.size
+      );
+      this.trails[i] = profile.trails ? 1 : 0;
+    }
+  }
+
+  private spawn(
+    kind: Kind,
+    x: number, y: number, z: number,
+    vx: number, vy: number, vz: number,
+    color: RGB, life: number, drag: number, gravity: number, size: number
+  ): number {
+    const i = this.cursor;
+    this.cursor = (this.cursor + 1) % POOL_SIZE;
+    const i3 = i * 3;
+
+    this.kind[i] = kind;
+    this.positions[i3] = x; this.positions[i3 + 1] = y; this.positions[i3 + 2] = z;
+    this.velocity[i3] = vx; this.velocity[i3 + 1] = vy; this.velocity[i3 + 2] = vz;
+    this.baseColor[i3] = color[0]; this.baseColor[i3 + 1] = color[1]; this.baseColor[i3 + 2] = color[2];
+    this.colors[i3] = color[0]; this.colors[i3 + 1] = color[1]; this.colors[i3 + 2] = color[2];
+    this.life[i] = life;
+    this.maxLife[i] = life;
+    this.drag[i] = drag;
+    this.gravity[i] = gravity;
+    this.baseSize[i] = size;
+    this.sizes[i] = size;
+    this.trails[i] = 0;
+    return i;
+  }
+
+  private kill(i: number) {
+    const i3 = i * 3;
+    this.kind[i] = Kind.DEAD;
+    this.colors[i3] = 0; this.colors[i3 + 1] = 0; this.colors[i3 + 2] = 0;
+    this.sizes[i] = 0;
+  }
+}
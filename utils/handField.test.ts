@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { HandState } from '../types';
+import { HandTracker, HandFieldSettings, DEFAULT_HAND_FIELD, getFieldPolarity, handToScene, uncropHandPosition } from './handField';
+
+const FRAME = 1 / 60;
+
+type Target = { x: number; y: number; z: number } | null;
+
+// Runs the tracker for `seconds` of frames with the same input
+const run = (tracker: HandTracker, seconds: number, target: Target, polarity: number, settings: HandFieldSettings) => {
+  for (let t = 0; t < seconds; t += FRAME) tracker.update(target, polarity, settings, FRAME);
+  return tracker.getField();
+};
+
+describe('hand field mapping', () => {
+  it('attracts on open palms, repels on fists and idles otherwise', () => {
+    expect(getFieldPolarity(HandState.OPEN)).toBe(1);
+    expect(getFieldPolarity(HandState.TWO_HANDS_OPEN)).toBe(1);
+    expect(getFieldPolarity(HandState.CLOSED)).toBe(-1);
+    expect(getFieldPolarity(HandState.PEACE)).toBe(0);
+    expect(getFieldPolarity(HandState.UNKNOWN)).toBe(0);
+  });
+
+  it('mirrors the camera image onto the scene', () => {
+    expect(handToScene({ x: 0.5, y: 0.5, size: 0.2 }, 1)).toEqual({ x: 0, y: 0, z: 0 });
+    // The presenter's right hand is on the image's left, and should be on the screen's right
+    const right = handToScene({ x: 0.1, y: 0.1, size: 0.2 }, 16 / 9);
+    expect(right.x).toBeGreaterThan(0);
+    expect(right.y).toBeGreaterThan(0);
+    expect(handToScene({ x: 0, y: 0.5, size: 0.2 }, 2).x).toBeCloseTo(handToScene({ x: 0, y: 0, size: 0.2 }, 1).y * 2);
+  });
+
+  it('brings nearer hands forward, within limits', () => {
+    expect(handToScene({ x: 0.5, y: 0.5, size: 0.3 }, 1).z).toBeGreaterThan(0);
+    expect(handToScene({ x: 0.5, y: 0.5, size: 0.1 }, 1).z).toBeLessThan(0);
+    expect(handToScene({ x: 0.5, y: 0.5, size: 1 }, 1).z).toBe(8);
+  });
+
+  it('maps positions in a cropped frame back to the whole frame', () => {
+    const crop = { x: 0.4, y: 0.2, w: 0.6, h: 0.6 };
+    const position = uncropHandPosition({ x: 0.5, y: 0, size: 0.5 }, crop);
+    expect(position.x).toBeCloseTo(0.7);
+    expect(position.y).toBeCloseTo(0.2);
+    expect(position.size).toBeCloseTo(0.3);
+    // The same hand seen through two different crops lands in the same place
+    const other = uncropHandPosition({ x: 0.75, y: 1 / 3, size: 0.3 / 0.8 }, { x: 0.1, y: 0, w: 0.8, h: 0.6 });
+    expect(other.x).toBeCloseTo(position.x);
+    expect(other.y).toBeCloseTo(position.y);
+    expect(other.size).toBeCloseTo(position.size);
+    expect(uncropHandPosition({ x: 0.3, y: 0.6, size: 0.2 }, { x: 0, y: 0, w: 1, h: 1 })).toEqual({ x: 0.3, y: 0.6, size: 0.2 });
+  });
+});
+
+describe('HandTracker', () => {
+  const hand = { x: 10, y: -4, z: 0 };
+
+  it('starts at the hand and fades the force in', () => {
+    const tracker = new HandTracker();
+    const first = { ...tracker.update(hand, 1, DEFAULT_HAND_FIELD, FRAME) };
+    expect(first.x).toBe(10);
+    expect(first.force).toBeGreaterThan(0);
+    expect(first.force).toBeLessThan(0.1);
+    expect(run(tracker, 2, hand, 1, DEFAULT_HAND_FIELD).force).toBeCloseTo(1, 2);
+  });
+
+  it('glides after a moving hand instead of jumping', () => {
+    const tracker = new HandTracker();
+    run(tracker, 2, hand, 1, DEFAULT_HAND_FIELD);
+    const moved = { x: -10, y: -4, z: 0 };
+    expect(tracker.update(moved, 1, DEFAULT_HAND_FIELD, FRAME).x).toBeGreaterThan(5);
+    expect(run(tracker, 1, moved, 1, DEFAULT_HAND_FIELD).x).toBeCloseTo(-10, 1);
+  });
+
+  it('turns a fist into a repelling force scaled by strength', () => {
+    const tracker = new HandTracker();
+    expect(run(tracker, 3, hand, -1, { ...DEFAULT_HAND_FIELD, strength: 1.5 }).force).toBeCloseTo(-1.5, 2);
+  });
+
+  it('fades out and stays put when the hand is lost', () => {
+    const tracker = new HandTracker();
+    run(tracker, 2, hand, 1, DEFAULT_HAND_FIELD);
+    const lost = run(tracker, 3, null, 1, DEFAULT_HAND_FIELD);
+    expect(lost.force).toBe(0);
+    expect(lost.x).toBeCloseTo(10);
+  });
+
+  it('does nothing while disabled', () => {
+    const tracker = new HandTracker();
+    expect(run(tracker, 1, hand, 1, { ...DEFAULT_HAND_FIELD, enabled: false }).force).toBe(0);
+  });
+});
@@ -0,0 +1,124 @@
+import { HandState, HandPosition } from '../types';
+
+// Lets the presenter's hand push the particles around between stage changes.
+// Sensors report where the hand is; HandTracker smooths that into a field the
+// morph shader applies on top of the stage shape: an open palm draws nearby
+// particles in and swirls them, a fist scatters them. The field only offsets
+// particles, so the shape comes back as soon as it fades.
+
+export interface HandFieldSettings {
+  enabled: boolean;
+  strength: number; // 0-2; at 1 particles next to an open palm move ~40% of the way in
+  radius: number;   // Reach in world units (the shapes span about ±10)
+}
+
+export const DEFAULT_HAND_FIELD: HandFieldSettings = {
+  enabled: true,
+  strength: 1,
+  radius: 6,
+};
+
+export const MAX_FIELD_STRENGTH = 2;
+export const MIN_FIELD_RADIUS = 2;
+export const MAX_FIELD_RADIUS = 20;
+
+// Scene point the field is centered on, and its signed force: > 0 attracts, < 0 repels
+export interface HandField {
+  x: number;
+  y: number;
+  z: number;
+  force: number;
+}
+
+// Open palms attract, fists repel; other poses let the shape settle
+export const getFieldPolarity = (state: HandState): number => {
+  switch (state) {
+    case HandState.OPEN:
+    case HandState.TWO_HANDS_OPEN:
+      return 1;
+    case HandState.CLOSED:
+      return -1;
+    default:
+      return 0;
+  }
+};
+
+// Visible half-height at z = 0 for the scene camera (z = 30, 75° fov)
+const VIEW_HALF_HEIGHT = 30 * Math.tan((37.5 * Math.PI) / 180);
+// A hand this wide (fraction of the frame) sits at z = 0; nearer hands come forward
+const REFERENCE_HAND_SIZE = 0.2;
+const DEPTH_PER_SIZE = 40;
+const MAX_DEPTH = 8;
+
+/**
+ * A position reported for a cropped frame, back in whole-frame terms. `crop`
+ * is the part of the frame that was sent, all 0-1 (see FramePipeline)
+ */
+export const uncropHandPosition = (
+  position: HandPosition,
+  crop: { x: number; y: number; w: number; h: number }
+): HandPosition => ({
+  x: crop.x + position.x * crop.w,
+  y: crop.y + position.y * crop.h,
+  size: position.size * crop.w,
+});
+
+/**
+ * Camera-image position to scene coordinates. x is mirrored so the field
+ * follows the hand the way a mirror would for a presenter facing the screen
+ */
+export const handToScene = (position: HandPosition, aspect: number): { x: number; y: number; z: number } => ({
+  x: (0.5 - position.x) * 2 * VIEW_HALF_HEIGHT * aspect,
+  y: (0.5 - position.y) * 2 * VIEW_HALF_HEIGHT,
+  z: Math.max(-MAX_DEPTH, Math.min(MAX_DEPTH, (position.size - REFERENCE_HAND_SIZE) * DEPTH_PER_SIZE)),
+});
+
+/**
+ * Smooths sensor reports into the field, one update per animation frame.
+ * Reports arrive a few times a second and jitter, so the center glides
+ * after the hand and the force fades in and out rather than switching.
+ * A hand that appears while the field is faded out starts where it is.
+ */
+export class HandTracker {
+  private field: HandField = { x: 0, y: 0, z: 0, force: 0 };
+
+  // Seconds to close ~63% of the gap
+  private static readonly POSITION_TIME = 0.12;
+  private static readonly FORCE_TIME = 0.3;
+  // Below this the field has no visible effect
+  private static readonly IDLE_FORCE = 0.01;
+
+  public getField(): HandField {
+    return this.field;
+  }
+
+  /**
+   * `target` in scene units (see handToScene), null when no hand is in view.
+   * `delta` is the frame time in seconds
+   */
+  public update(
+    target: { x: number; y: number; z: number } | null,
+    polarity: number,
+    settings: HandFieldSettings,
+    delta: number
+  ): HandField {
+    const field = this.field;
+    const targetForce = target && settings.enabled ? polarity * settings.strength : 0;
+
+    if (target) {
+      if (Math.abs(field.force) < HandTracker.IDLE_FORCE) {
+        field.x = target.x;
+        field.y = target.y;
+        field.z = target.z;
+      } else {
+        const k = 1 - Math.exp(-delta / HandTracker.POSITION_TIME);
+        field.x += (target.x - field.x) * k;
+        field.y += (target.y - field.y) * k;
+        field.z += (target.z - field.z) * k;
+      }
+    }
+    field.force += (targetForce - field.force) * (1 - Math.exp(-delta / HandTracker.FORCE_TIME));
+    if (targetForce === 0 && Math.abs(field.force) < HandTracker.IDLE_FORCE) field.force = 0;
+    return field;
+  }
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { makeStage } from '../test/fixtures';
+import {
+  getPreferredLocale,
+  localizeDigits,
+  resolveStageText,
+  localizeStage,
+  createTranslator
+} from './i18n';
+
+describe('getPreferredLocale', () => {
+  it('picks the first supported language by its primary subtag', () => {
+    expect(getPreferredLocale(['fr-FR', 'es-MX', 'en'])).toBe('es');
+    expect(getPreferredLocale(['ZH-Hant-TW'])).toBe('zh');
+  });
+
+  it('falls back to English', () => {
+    expect(getPreferredLocale(['fr', 'de'])).toBe('en');
+    expect(getPreferredLocale([])).toBe('en');
+  });
+});
+
+describe('resolveStageText', () => {
+  it('fills in the greeting and year for the locale', () => {
+    expect(resolveStageText('{greeting} {year}', { locale: 'en', year: 2027 })).toBe('Happy New Year 2027');
+    expect(resolveStageText('{greeting}', { locale: 'ko', year: 2027 })).toBe('새해 복 많이 받으세요');
+  });
+
+  it('writes numbers in the locale numerals', () => {
+    expect(resolveStageText('{year}', { locale: 'ar', year: 2027 })).toBe('٢٠٢٧');
+    expect(localizeDigits('00:12:59', 'ar')).toBe('٠٠:١٢:٥٩');
+    expect(localizeDigits('00:12:59', 'he')).toBe('00:12:59');
+  });
+});
+
+describe('localizeStage', () => {
+  it('resolves text and watermark and takes the locale direction', () => {
+    const shown = localizeStage(makeStage('HAPPY_NEW_YEAR', { shape: { type: 'text', text: '{greeting}' }, watermark: '{year}' }), { locale: 'he', year: 2027 });
+    expect(shown.watermark).toBe('2027');
+    expect(shown.shape).toEqual({ type: 'text', text: 'שנה אזרחית טובה', direction: 'rtl' });
+  });
+
+  it('keeps a direction set by the script', () => {
+    const shown = localizeStage(makeStage('HAPPY_NEW_YEAR', { shape: { type: 'text', text: '{greeting}', direction: 'ltr' } }), { locale: 'ar', year: 2027 });
+    expect(shown.shape).toMatchObject({ direction: 'ltr' });
+  });
+
+  it('returns the same stage when nothing changes', () => {
+    const plain = makeStage('5', { shape: { type: 'text', text: '5', direction: 'ltr' } });
+    expect(localizeStage(plain, { locale: 'en', year: 2027 })).toBe(plain);
+    const tree = makeStage('tree', { shape: { type: 'tree' }, watermark: 'XMAS' });
+    expect(localizeStage(tree, { locale: 'ar', year: 2027 })).toBe(tree);
+  });
+});
+
+describe('createTranslator', () => {
+  it('falls back to English and fills in parameters', () => {
+    const t = createTranslator('es');
+    expect(t('app.reset')).toBe('Reiniciar');
+    expect(t('sensor.gemini')).toBe('Gemini Live');
+    expect(t('session.recording', { count: 3 })).toBe('GRABANDO 3 EVENTOS');
+  });
+});
@@ -0,0 +1,86 @@
+import { ShowStage } from '../types';
+import { MESSAGES, MessageKey } from './messages';
+
+// Locales for the show text (greeting, numerals, direction) and the panel UI.
+// Show scripts write "{greeting}" and "{year}" in text shapes and watermarks;
+// localizeStage fills them in and converts the digits.
+
+export type Locale = 'en' | 'es' | 'zh' | 'ja' | 'ko' | 'ar' | 'he';
+
+export type TextDirection = 'ltr' | 'rtl';
+
+export interface LocaleInfo {
+  name: string;      // In its own language, for the switcher
+  greeting: string;
+  dir: TextDirection;
+  digits?: string;   // 0-9 in the locale's numerals, when they aren't the Western ones
+}
+
+export const LOCALES: Record<Locale, LocaleInfo> = {
+  en: { name: 'English', greeting: 'Happy New Year', dir: 'ltr' },
+  es: { name: 'Español', greeting: 'Feliz Año Nuevo', dir: 'ltr' },
+  zh: { name: '中文', greeting: '新年快乐', dir: 'ltr' },
+  ja: { name: '日本語', greeting: '明けましておめでとう', dir: 'ltr' },
+  ko: { name: '한국어', greeting: '새해 복 많이 받으세요', dir: 'ltr' },
+  ar: { name: 'العربية', greeting: 'سنة جديدة سعيدة', dir: 'rtl', digits: '٠١٢٣٤٥٦٧٨٩' },
+  he: { name: 'עברית', greeting: 'שנה אזרחית טובה', dir: 'rtl' },
+};
+
+export const LOCALE_CODES = Object.keys(LOCALES) as Locale[];
+
+export const isLocale = (value: unknown): value is Locale =>
+  typeof value === 'string' && value in LOCALES;
+
+/**
+ * First of the browser's preferred languages we have, by language subtag ("es-MX" -> "es")
+ */
+export const getPreferredLocale = (languages: readonly string[] = navigator.languages ?? []): Locale => {
+  for (const tag of languages) {
+    const language = tag.toLowerCase().split('-')[0];
+    if (isLocale(language)) return language;
+  }
+  return 'en';
+};
+
+export const localizeDigits = (text: string, locale: Locale): string => {
+  const { digits } = LOCALES[locale];
+  return digits ? text.replace(/[0-9]/g, (d) => digits[Number(d)]) : text;
+};
+
+export interface StageTextContext {
+  locale: Locale;
+  year: number; // The year being counted into
+}
+
+export const resolveStageText = (text: string, { locale, year }: StageTextContext): string =>
+  localizeDigits(
+    text.replace(/\{greeting\}/g, LOCALES[locale].greeting).replace(/\{year\}/g, String(year)),
+    locale
+  );
+
+/**
+ * The stage as it should be shown in a locale. Returns the same object when
+ * nothing changes, so the particle scene doesn't rebuild for nothing.
+ */
+export const localizeStage = (stage: ShowStage, context: StageTextContext): ShowStage => {
+  const watermark = resolveStageText(stage.watermark, context);
+  const { shape } = stage;
+  if (shape.type !== 'text') {
+    return watermark === stage.watermark ? stage : { ...stage, watermark };
+  }
+  const text = resolveStageText(shape.text, context);
+  const direction = shape.direction ?? LOCALES[context.locale].dir;
+  if (text === shape.text && watermark === stage.watermark && direction === shape.direction) return stage;
+  return { ...stage, watermark, shape: { ...shape, text, direction } };
+};
+
+export type Translate = (key: MessageKey, params?: Record<string, string | number>) => string;
+
+/**
+ * UI string lookup for a locale, falling back to English. "{name}" in a
+ * message is replaced by params.name
+ */
+export const createTranslator = (locale: Locale): Translate => (key, params) => {
+  const message = MESSAGES[locale][key] ?? MESSAGES.en[key];
+  return params ? message.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match)) : message;
+};
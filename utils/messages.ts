@@ -0,0 +1,984 @@
+import type { Locale } from './i18n';
+
+// Panel UI strings. English is complete; other locales may leave keys out and
+// fall back to it. Snake-case readouts (TX_RATE, TARGET_FPS...) are data labels
+// and stay as they are.
+
+const EN = {
+  'app.systemOnline': 'SYSTEM ONLINE',
+  'app.billing': 'Billing Configuration',
+  'app.openDisplay': 'Open Display ↗',
+  'app.controlOnly': 'Control Only',
+  'app.singleWindow': 'Single Window',
+  'app.language': 'Language',
+  'app.visionLink': 'Vision Link',
+  'app.gestureDetected': 'Gesture Detected',
+  'app.protocol': 'Protocol',
+  'app.openHand': 'Open Hand = ARM',
+  'app.fist': 'Fist = TRIGGER',
+  'app.initialize': 'Initialize Uplink',
+  'app.prevStage': 'Prev Stage',
+  'app.nextStage': 'Next Stage',
+  'app.reset': 'Reset',
+  'app.pause': 'Pause',
+  'app.resume': 'Resume',
+  'app.fireworks': 'Fireworks',
+  'app.clickForSound': 'click for sound',
+  'app.showPanel': 'Show Panel (H)',
+  'app.error': 'ERR',
+
+  'status.disconnected': 'DISCONNECTED',
+  'status.connecting': 'CONNECTING',
+  'status.live': 'ESTABLISHED',
+  'status.reconnecting': 'RECONNECTING',
+  'status.failed': 'FAILED',
+
+  'sensor.gemini': 'Gemini Live',
+  'sensor.local': 'Local (Offline)',
+  'sensor.mock': 'Scripted Demo',
+  'sensor.replay': 'Session Replay',
+
+  'pose.THUMBS_UP': 'Thumbs Up',
+  'pose.SWIPE_RIGHT': 'Swipe Right',
+  'pose.SWIPE_LEFT': 'Swipe Left',
+  'pose.TWO_HANDS_OPEN': 'Two Hands',
+  'pose.PEACE': 'Hold Peace',
+  'gesture.IDLE': 'Idle',
+  'gesture.DWELL': 'Hand seen',
+  'gesture.ARMED': 'Armed',
+  'gesture.CONFIRMING': 'Confirming',
+  'gesture.HOLDING': 'Holding',
+  'gesture.COOLDOWN': 'Cooldown',
+  'gesture.confirmingCount': 'Confirming {count}/{total}',
+  'gesture.holdingPose': 'Holding {pose}',
+  'gesture.cooldownAfter': 'Cooldown · {action}',
+  'action.TRIGGER': 'Start',
+  'action.CONFIRM': 'Confirm',
+  'action.NEXT': 'Next',
+  'action.PREVIOUS': 'Previous',
+  'action.TOGGLE_PAUSE': 'Pause / Resume',
+  'action.RESET': 'Reset',
+  'action.FIREWORKS': 'Fireworks',
+
+  'error.noApiKey': 'API Key not found. Please ensure it is set in the environment.',
+  'error.noReplayLog': 'Load a session log to replay first.',
+  'error.sensorInit': 'Failed to initialize sensor. Check console.',
+  'error.camera': 'Camera access denied or unavailable.',
+  'error.microphone': 'Microphone access denied or unavailable.',
+
+  'script.title': 'Show Script',
+  'script.load': 'Load',
+  'script.openFile': 'Open File',
+  'script.default': 'Default',
+  'script.addImage': 'Add Image Stage',
+  'script.transition': 'Transition',
+
+  'shapes.title': 'Shape Library',
+  'shapes.add': 'Add Shape Stage',
+
+  'schedule.title': 'Clock Sync',
+  'schedule.on': 'On',
+  'schedule.off': 'Off',
+  'schedule.pause': 'Pause Schedule',
+  'schedule.resume': 'Resume Schedule',
+
+  'budget.title': 'Particles',
+  'budget.fixed': 'Fixed',
+  'budget.auto': 'Auto',
+
+  'tuning.title': 'Tuning',
+  'tuning.defaults': 'Defaults',
+
+  'remote.title': 'Phone Remote',
+  'remote.relay': 'RELAY',
+  'remote.hint': 'Run {command} and open this page with {param}',
+  'remote.noKey': 'Add {param} with the key the relay prints, or displays and phones will not follow this window',
+
+  'audio.title': 'Audio',
+  'audio.mute': 'Mute',
+  'audio.unmute': 'Unmute',
+  'audio.muted': 'MUTED',
+  'audio.locked': 'LOCKED',
+  'audio.hint': 'Sound starts with Initialize Uplink',
+  'field.title': 'Hand Field',
+  'field.on': 'On',
+  'field.off': 'Off',
+  'field.noHand': 'NO HAND',
+  'field.hint': 'Open palm draws particles in, fist scatters them',
+  'access.title': 'Accessibility',
+  'access.reducedMotion': 'Reduced Motion',
+  'access.highContrast': 'High Contrast',
+  'access.on': 'On',
+  'access.off': 'Off',
+  'access.shortcuts': 'Keys: ←/→ stage · R reset · X fireworks · F fullscreen · H hide panel',
+  'voice.title': 'Voice',
+  'voice.listening': 'LISTENING',
+  'voice.idle': 'READY',
+  'voice.off': 'OFF',
+  'voice.micOn': 'Mic On',
+  'voice.micOff': 'Mic Off',
+  'voice.pushToTalk': 'Push to talk',
+  'voice.hold': 'Hold to Talk',
+  'voice.hint': 'Say "next", "back", "reset", "start countdown" or "fireworks"',
+  'voice.unsupported': 'Voice commands need the Gemini Live sensor',
+  'voice.command.NEXT': 'Next',
+  'voice.command.BACK': 'Back',
+  'voice.command.RESET': 'Reset',
+  'voice.command.START_COUNTDOWN': 'Start countdown',
+  'voice.command.FIREWORKS': 'Fireworks',
+  'narration.title': 'Narrator',
+  'narration.on': 'Narration On',
+  'narration.off': 'Narration Off',
+  'narration.greeting': 'Finale greeting',
+  'narration.greetingPlaceholder': 'From the script, e.g. {greeting}! Welcome to {year}!',
+  'narration.hint': 'Speaks the countdown and the greeting in the panel language. Switching it while connected reconnects the sensor',
+  'narration.unsupported': 'Narration needs the Gemini Live sensor',
+  'access.stage': 'Stage {index} of {count}: {text}',
+
+  'session.title': 'Session Log',
+  'session.idle': 'IDLE',
+  'session.recording': 'REC {count} EVENTS',
+  'session.record': 'Record Session',
+  'session.stop': 'Stop & Save',
+  'session.frames': 'FRAMES',
+  'session.load': 'Load Log for Replay',
+  'session.summary': '{count} events · {duration}',
+  'session.speed': 'SPEED',
+  'session.hint': 'Sensor set to Session Replay; Initialize Uplink plays it',
+
+  'capture.title': 'Capture',
+  'capture.idle': 'IDLE',
+  'capture.record': 'Record WebM',
+  'capture.stop': 'Stop & Save',
+  'capture.snapshot': 'Snapshot PNG',
+  'capture.unsupported': 'This browser cannot record the canvas',
+};
+
+export type MessageKey = keyof typeof EN;
+
+type Messages = Partial<Record<MessageKey, string>>;
+
+const ES: Messages = {
+  'app.systemOnline': 'SISTEMA EN LÍNEA',
+  'app.billing': 'Configuración de facturación',
+  'app.openDisplay': 'Abrir pantalla ↗',
+  'app.controlOnly': 'Solo control',
+  'app.singleWindow': 'Una ventana',
+  'app.language': 'Idioma',
+  'app.visionLink': 'Enlace de visión',
+  'app.gestureDetected': 'Gesto detectado',
+  'app.protocol': 'Protocolo',
+  'app.openHand': 'Mano abierta = ARMAR',
+  'app.fist': 'Puño = DISPARAR',
+  'app.initialize': 'Iniciar enlace',
+  'app.prevStage': 'Etapa anterior',
+  'app.nextStage': 'Etapa siguiente',
+  'app.reset': 'Reiniciar',
+  'app.pause': 'Pausa',
+  'app.resume': 'Continuar',
+  'app.fireworks': 'Fuegos artificiales',
+  'app.clickForSound': 'haz clic para el sonido',
+  'app.showPanel': 'Mostrar panel (H)',
+  'status.disconnected': 'DESCONECTADO',
+  'status.connecting': 'CONECTANDO',
+  'status.live': 'ESTABLECIDO',
+  'status.reconnecting': 'RECONECTANDO',
+  'status.failed': 'FALLIDO',
+  'sensor.local': 'Local (sin conexión)',
+  'sensor.mock': 'Demo guionizada',
+  'sensor.replay': 'Repetir sesión',
+  'pose.THUMBS_UP': 'Pulgar arriba',
+  'pose.SWIPE_RIGHT': 'Deslizar a la derecha',
+  'pose.SWIPE_LEFT': 'Deslizar a la izquierda',
+  'pose.TWO_HANDS_OPEN': 'Dos manos',
+  'pose.PEACE': 'Mantener paz',
+  'gesture.IDLE': 'En espera',
+  'gesture.DWELL': 'Mano detectada',
+  'gesture.ARMED': 'Preparado',
+  'gesture.CONFIRMING': 'Confirmando',
+  'gesture.HOLDING': 'Manteniendo',
+  'gesture.COOLDOWN': 'Enfriamiento',
+  'gesture.confirmingCount': 'Confirmando {count}/{total}',
+  'gesture.holdingPose': 'Manteniendo {pose}',
+  'gesture.cooldownAfter': 'Enfriamiento · {action}',
+  'action.TRIGGER': 'Iniciar',
+  'action.CONFIRM': 'Confirmar',
+  'action.NEXT': 'Siguiente',
+  'action.PREVIOUS': 'Anterior',
+  'action.TOGGLE_PAUSE': 'Pausar / Reanudar',
+  'action.RESET': 'Reiniciar',
+  'action.FIREWORKS': 'Fuegos artificiales',
+  'error.noApiKey': 'No se encontró la clave de API. Configúrala en el entorno.',
+  'error.noReplayLog': 'Primero carga un registro de sesión para repetirlo.',
+  'error.sensorInit': 'No se pudo iniciar el sensor. Revisa la consola.',
+  'error.camera': 'Acceso a la cámara denegado o no disponible.',
+  'error.microphone': 'Acceso al micrófono denegado o no disponible.',
+  'script.title': 'Guion del show',
+  'script.load': 'Cargar',
+  'script.openFile': 'Abrir archivo',
+  'script.default': 'Predeterminado',
+  'script.addImage': 'Añadir etapa de imagen',
+  'script.transition': 'Transición',
+  'shapes.title': 'Biblioteca de formas',
+  'shapes.add': 'Añadir etapa de forma',
+  'schedule.title': 'Sincronizar reloj',
+  'schedule.on': 'Sí',
+  'schedule.off': 'No',
+  'schedule.pause': 'Pausar horario',
+  'schedule.resume': 'Reanudar horario',
+  'budget.title': 'Partículas',
+  'budget.fixed': 'Fijo',
+  'budget.auto': 'Auto',
+  'tuning.title': 'Ajustes',
+  'tuning.defaults': 'Valores por defecto',
+  'remote.title': 'Control remoto',
+  'remote.relay': 'RELÉ',
+  'remote.hint': 'Ejecuta {command} y abre esta página con {param}',
+  'remote.noKey': 'Añade {param} con la clave que muestra el relé, o las pantallas y los móviles no seguirán esta ventana',
+  'audio.title': 'Audio',
+  'audio.mute': 'Silenciar',
+  'audio.unmute': 'Activar sonido',
+  'audio.muted': 'SILENCIADO',
+  'audio.locked': 'BLOQUEADO',
+  'audio.hint': 'El sonido empieza con Iniciar enlace',
+  'field.title': 'Campo de la mano',
+  'field.on': 'Activado',
+  'field.off': 'Desactivado',
+  'field.noHand': 'SIN MANO',
+  'field.hint': 'La palma abierta atrae las partículas, el puño las dispersa',
+  'access.title': 'Accesibilidad',
+  'access.reducedMotion': 'Movimiento reducido',
+  'access.highContrast': 'Alto contraste',
+  'access.on': 'Activado',
+  'access.off': 'Desactivado',
+  'access.shortcuts': 'Teclas: ←/→ etapa · R reiniciar · X fuegos · F pantalla completa · H ocultar panel',
+  'voice.title': 'Voz',
+  'voice.listening': 'ESCUCHANDO',
+  'voice.idle': 'LISTO',
+  'voice.off': 'APAGADO',
+  'voice.micOn': 'Micrófono activado',
+  'voice.micOff': 'Micrófono desactivado',
+  'voice.pushToTalk': 'Pulsar para hablar',
+  'voice.hold': 'Mantén pulsado para hablar',
+  'voice.hint': 'Di "siguiente", "atrás", "reiniciar", "empezar cuenta atrás" o "fuegos artificiales"',
+  'voice.unsupported': 'Los comandos de voz necesitan el sensor Gemini Live',
+  'voice.command.NEXT': 'Siguiente',
+  'voice.command.BACK': 'Atrás',
+  'voice.command.RESET': 'Reiniciar',
+  'voice.command.START_COUNTDOWN': 'Empezar cuenta atrás',
+  'voice.command.FIREWORKS': 'Fuegos artificiales',
+  'narration.title': 'Narrador',
+  'narration.on': 'Narración activada',
+  'narration.off': 'Narración desactivada',
+  'narration.greeting': 'Saludo final',
+  'narration.greetingPlaceholder': 'Del guion, p. ej. {greeting}! Bienvenido {year}!',
+  'narration.hint': 'Narra la cuenta atrás y el saludo en el idioma del panel. Cambiarlo con el sensor conectado lo vuelve a conectar',
+  'narration.unsupported': 'La narración necesita el sensor Gemini Live',
+  'access.stage': 'Etapa {index} de {count}: {text}',
+  'session.title': 'Registro de sesión',
+  'session.idle': 'INACTIVO',
+  'session.recording': 'GRABANDO {count} EVENTOS',
+  'session.record': 'Grabar sesión',
+  'session.stop': 'Detener y guardar',
+  'session.frames': 'FOTOGRAMAS',
+  'session.load': 'Cargar registro',
+  'session.summary': '{count} eventos · {duration}',
+  'session.speed': 'VELOCIDAD',
+  'session.hint': 'Sensor en Repetir sesión; Iniciar enlace lo reproduce',
+  'capture.title': 'Captura',
+  'capture.idle': 'INACTIVO',
+  'capture.record': 'Grabar WebM',
+  'capture.stop': 'Detener y guardar',
+  'capture.snapshot': 'Captura PNG',
+  'capture.unsupported': 'Este navegador no puede grabar el lienzo',
+};
+
+const ZH: Messages = {
+  'app.systemOnline': '系统在线',
+  'app.billing': '计费设置',
+  'app.openDisplay': '打开显示窗口 ↗',
+  'app.controlOnly': '仅控制台',
+  'app.singleWindow': '单窗口',
+  'app.language': '语言',
+  'app.visionLink': '视觉链路',
+  'app.gestureDetected': '检测到的手势',
+  'app.protocol': '手势说明',
+  'app.openHand': '张开手 = 准备',
+  'app.fist': '握拳 = 触发',
+  'app.initialize': '启动链路',
+  'app.prevStage': '上一阶段',
+  'app.nextStage': '下一阶段',
+  'app.reset': '重置',
+  'app.pause': '暂停',
+  'app.resume': '继续',
+  'app.fireworks': '烟花',
+  'app.clickForSound': '点击开启声音',
+  'app.showPanel': '显示面板 (H)',
+  'app.error': '错误',
+  'status.disconnected': '未连接',
+  'status.connecting': '连接中',
+  'status.live': '已连接',
+  'status.reconnecting': '重新连接中',
+  'status.failed': '连接失败',
+  'sensor.local': '本地（离线）',
+  'sensor.mock': '脚本演示',
+  'sensor.replay': '会话回放',
+  'pose.THUMBS_UP': '竖大拇指',
+  'pose.SWIPE_RIGHT': '向右挥动',
+  'pose.SWIPE_LEFT': '向左挥动',
+  'pose.TWO_HANDS_OPEN': '双手张开',
+  'pose.PEACE': '保持剪刀手',
+  'gesture.IDLE': '空闲',
+  'gesture.DWELL': '检测到手',
+  'gesture.ARMED': '就绪',
+  'gesture.CONFIRMING': '确认中',
+  'gesture.HOLDING': '保持中',
+  'gesture.COOLDOWN': '冷却中',
+  'gesture.confirmingCount': '确认中 {count}/{total}',
+  'gesture.holdingPose': '保持 {pose}',
+  'gesture.cooldownAfter': '冷却中 · {action}',
+  'action.TRIGGER': '开始',
+  'action.CONFIRM': '确认',
+  'action.NEXT': '下一个',
+  'action.PREVIOUS': '上一个',
+  'action.TOGGLE_PAUSE': '暂停 / 继续',
+  'action.RESET': '重置',
+  'action.FIREWORKS': '烟花',
+  'error.noApiKey': '未找到 API 密钥，请在环境变量中设置。',
+  'error.noReplayLog': '请先加载要回放的会话记录。',
+  'error.sensorInit': '传感器启动失败，请查看控制台。',
+  'error.camera': '摄像头被拒绝或不可用。',
+  'error.microphone': '麦克风被拒绝或不可用。',
+  'script.title': '演出脚本',
+  'script.load': '加载',
+  'script.openFile': '打开文件',
+  'script.default': '默认',
+  'script.addImage': '添加图片阶段',
+  'script.transition': '过渡',
+  'shapes.title': '形状库',
+  'shapes.add': '添加形状阶段',
+  'schedule.title': '时钟同步',
+  'schedule.on': '开',
+  'schedule.off': '关',
+  'schedule.pause': '暂停计划',
+  'schedule.resume': '恢复计划',
+  'budget.title': '粒子',
+  'budget.fixed': '固定',
+  'budget.auto': '自动',
+  'tuning.title': '调节',
+  'tuning.defaults': '恢复默认',
+  'remote.title': '手机遥控',
+  'remote.relay': '中继',
+  'remote.hint': '运行 {command}，并用 {param} 打开本页',
+  'remote.noKey': '请添加 {param}（使用中继打印的密钥），否则显示屏和手机不会跟随此窗口',
+  'audio.title': '声音',
+  'audio.mute': '静音',
+  'audio.unmute': '取消静音',
+  'audio.muted': '已静音',
+  'audio.locked': '未启用',
+  'audio.hint': '点击“启动链路”后开始播放声音',
+  'field.title': '手势力场',
+  'field.on': '开启',
+  'field.off': '关闭',
+  'field.noHand': '未检测到手',
+  'field.hint': '张开手掌吸引粒子，握拳将其驱散',
+  'access.title': '无障碍',
+  'access.reducedMotion': '减少动态效果',
+  'access.highContrast': '高对比度',
+  'access.on': '开启',
+  'access.off': '关闭',
+  'access.shortcuts': '按键：←/→ 切换阶段 · R 重置 · X 烟花 · F 全屏 · H 隐藏面板',
+  'voice.title': '语音',
+  'voice.listening': '正在聆听',
+  'voice.idle': '就绪',
+  'voice.off': '关闭',
+  'voice.micOn': '麦克风开',
+  'voice.micOff': '麦克风关',
+  'voice.pushToTalk': '按住说话',
+  'voice.hold': '按住说话',
+  'voice.hint': '说“下一个”“返回”“重置”“开始倒计时”或“烟花”',
+  'voice.unsupported': '语音指令需要 Gemini Live 传感器',
+  'voice.command.NEXT': '下一个',
+  'voice.command.BACK': '返回',
+  'voice.command.RESET': '重置',
+  'voice.command.START_COUNTDOWN': '开始倒计时',
+  'voice.command.FIREWORKS': '烟花',
+  'narration.title': '旁白',
+  'narration.on': '旁白开启',
+  'narration.off': '旁白关闭',
+  'narration.greeting': '结尾祝福语',
+  'narration.greetingPlaceholder': '来自脚本，例如 {greeting}！欢迎来到 {year}！',
+  'narration.hint': '用面板语言播报倒计时和祝福语。在传感器已连接时切换会重新连接传感器',
+  'narration.unsupported': '旁白需要 Gemini Live 传感器',
+  'access.stage': '第 {index} 阶段，共 {count} 个：{text}',
+  'session.title': '会话记录',
+  'session.idle': '空闲',
+  'session.recording': '录制中 {count} 条事件',
+  'session.record': '录制会话',
+  'session.stop': '停止并保存',
+  'session.frames': '包含画面',
+  'session.load': '加载记录以回放',
+  'session.summary': '{count} 条事件 · {duration}',
+  'session.speed': '速度',
+  'session.hint': '传感器已设为会话回放，点击“启动链路”播放',
+  'capture.title': '录制',
+  'capture.idle': '空闲',
+  'capture.record': '录制 WebM',
+  'capture.stop': '停止并保存',
+  'capture.snapshot': '截图 PNG',
+  'capture.unsupported': '此浏览器无法录制画布',
+};
+
+const JA: Messages = {
+  'app.systemOnline': 'システム稼働中',
+  'app.billing': '請求設定',
+  'app.openDisplay': '表示画面を開く ↗',
+  'app.controlOnly': '操作パネルのみ',
+  'app.singleWindow': '1 ウィンドウ',
+  'app.language': '言語',
+  'app.visionLink': 'ビジョンリンク',
+  'app.gestureDetected': '検出したジェスチャー',
+  'app.protocol': '操作方法',
+  'app.openHand': '手を開く = 準備',
+  'app.fist': 'こぶし = 実行',
+  'app.initialize': 'リンク開始',
+  'app.prevStage': '前のステージ',
+  'app.nextStage': '次のステージ',
+  'app.reset': 'リセット',
+  'app.pause': '一時停止',
+  'app.resume': '再開',
+  'app.fireworks': '花火',
+  'app.clickForSound': 'クリックで音声オン',
+  'app.showPanel': 'パネルを表示 (H)',
+  'app.error': 'エラー',
+  'status.disconnected': '未接続',
+  'status.connecting': '接続中',
+  'status.live': '接続済み',
+  'status.reconnecting': '再接続中',
+  'status.failed': '接続失敗',
+  'sensor.local': 'ローカル（オフライン）',
+  'sensor.mock': 'スクリプトデモ',
+  'sensor.replay': 'セッション再生',
+  'pose.THUMBS_UP': 'サムズアップ',
+  'pose.SWIPE_RIGHT': '右へスワイプ',
+  'pose.SWIPE_LEFT': '左へスワイプ',
+  'pose.TWO_HANDS_OPEN': '両手を開く',
+  'pose.PEACE': 'ピースを保持',
+  'gesture.IDLE': '待機中',
+  'gesture.DWELL': '手を検出',
+  'gesture.ARMED': '準備完了',
+  'gesture.CONFIRMING': '確認中',
+  'gesture.HOLDING': '保持中',
+  'gesture.COOLDOWN': 'クールダウン',
+  'gesture.confirmingCount': '確認中 {count}/{total}',
+  'gesture.holdingPose': '{pose}を保持中',
+  'gesture.cooldownAfter': 'クールダウン · {action}',
+  'action.TRIGGER': '開始',
+  'action.CONFIRM': '確定',
+  'action.NEXT': '次へ',
+  'action.PREVIOUS': '前へ',
+  'action.TOGGLE_PAUSE': '一時停止 / 再開',
+  'action.RESET': 'リセット',
+  'action.FIREWORKS': '花火',
+  'error.noApiKey': 'API キーが見つかりません。環境変数に設定してください。',
+  'error.noReplayLog': '先に再生するセッションログを読み込んでください。',
+  'error.sensorInit': 'センサーを開始できませんでした。コンソールを確認してください。',
+  'error.camera': 'カメラへのアクセスが拒否されたか、利用できません。',
+  'error.microphone': 'マイクへのアクセスが拒否されたか、利用できません。',
+  'script.title': 'ショースクリプト',
+  'script.load': '読み込み',
+  'script.openFile': 'ファイルを開く',
+  'script.default': 'デフォルト',
+  'script.addImage': '画像ステージを追加',
+  'script.transition': 'トランジション',
+  'shapes.title': 'シェイプ一覧',
+  'shapes.add': 'シェイプステージを追加',
+  'schedule.title': '時計同期',
+  'schedule.on': 'オン',
+  'schedule.off': 'オフ',
+  'schedule.pause': 'スケジュール停止',
+  'schedule.resume': 'スケジュール再開',
+  'budget.title': 'パーティクル',
+  'budget.fixed': '固定',
+  'budget.auto': '自動',
+  'tuning.title': '調整',
+  'tuning.defaults': '初期値に戻す',
+  'remote.title': 'スマホリモコン',
+  'remote.relay': 'リレー',
+  'remote.hint': '{command} を実行し、{param} を付けてこのページを開いてください',
+  'remote.noKey': 'リレーが表示するキーで {param} を追加してください。追加しないとディスプレイとスマホはこのウィンドウに従いません',
+  'audio.title': 'サウンド',
+  'audio.mute': 'ミュート',
+  'audio.unmute': 'ミュート解除',
+  'audio.muted': 'ミュート中',
+  'audio.locked': '無効',
+  'audio.hint': '「リンク開始」で音が鳴ります',
+  'field.title': 'ハンドフィールド',
+  'field.on': 'オン',
+  'field.off': 'オフ',
+  'field.noHand': '手なし',
+  'field.hint': '開いた手で粒子を引き寄せ、握りこぶしで散らします',
+  'access.title': 'アクセシビリティ',
+  'access.reducedMotion': '視差効果を減らす',
+  'access.highContrast': 'ハイコントラスト',
+  'access.on': 'オン',
+  'access.off': 'オフ',
+  'access.shortcuts': 'キー：←/→ ステージ · R リセット · X 花火 · F 全画面 · H パネルを隠す',
+  'voice.title': '音声',
+  'voice.listening': '聞き取り中',
+  'voice.idle': '待機中',
+  'voice.off': 'オフ',
+  'voice.micOn': 'マイク オン',
+  'voice.micOff': 'マイク オフ',
+  'voice.pushToTalk': 'プッシュ・トゥ・トーク',
+  'voice.hold': '押している間だけ話す',
+  'voice.hint': '「次」「戻る」「リセット」「カウントダウン開始」「花火」と話してください',
+  'voice.unsupported': '音声コマンドには Gemini Live センサーが必要です',
+  'voice.command.NEXT': '次へ',
+  'voice.command.BACK': '戻る',
+  'voice.command.RESET': 'リセット',
+  'voice.command.START_COUNTDOWN': 'カウントダウン開始',
+  'voice.command.FIREWORKS': '花火',
+  'narration.title': 'ナレーター',
+  'narration.on': 'ナレーション オン',
+  'narration.off': 'ナレーション オフ',
+  'narration.greeting': 'フィナーレの挨拶',
+  'narration.greetingPlaceholder': '台本の設定。例：{greeting}！ようこそ {year} へ！',
+  'narration.hint': 'パネルの言語でカウントダウンと挨拶を読み上げます。接続中に切り替えるとセンサーが再接続されます',
+  'narration.unsupported': 'ナレーションには Gemini Live センサーが必要です',
+  'access.stage': 'ステージ {index}/{count}：{text}',
+  'session.title': 'セッションログ',
+  'session.idle': '待機中',
+  'session.recording': '記録中 {count} 件',
+  'session.record': 'セッションを記録',
+  'session.stop': '停止して保存',
+  'session.frames': 'フレーム',
+  'session.load': 'ログを読み込んで再生',
+  'session.summary': '{count} 件 · {duration}',
+  'session.speed': '速度',
+  'session.hint': 'センサーをセッション再生に設定しました。「リンク開始」で再生します',
+  'capture.title': 'キャプチャ',
+  'capture.idle': '待機中',
+  'capture.record': 'WebM を録画',
+  'capture.stop': '停止して保存',
+  'capture.snapshot': 'PNG を保存',
+  'capture.unsupported': 'このブラウザではキャンバスを録画できません',
+};
+
+const KO: Messages = {
+  'app.systemOnline': '시스템 온라인',
+  'app.billing': '결제 설정',
+  'app.openDisplay': '디스플레이 열기 ↗',
+  'app.controlOnly': '제어판만',
+  'app.singleWindow': '단일 창',
+  'app.language': '언어',
+  'app.visionLink': '비전 링크',
+  'app.gestureDetected': '감지된 제스처',
+  'app.protocol': '조작법',
+  'app.openHand': '손 펴기 = 준비',
+  'app.fist': '주먹 = 실행',
+  'app.initialize': '링크 시작',
+  'app.prevStage': '이전 단계',
+  'app.nextStage': '다음 단계',
+  'app.reset': '초기화',
+  'app.pause': '일시 정지',
+  'app.resume': '계속',
+  'app.fireworks': '불꽃놀이',
+  'app.clickForSound': '클릭하면 소리가 켜집니다',
+  'app.showPanel': '패널 표시 (H)',
+  'app.error': '오류',
+  'status.disconnected': '연결 안 됨',
+  'status.connecting': '연결 중',
+  'status.live': '연결됨',
+  'status.reconnecting': '다시 연결 중',
+  'status.failed': '연결 실패',
+  'sensor.local': '로컬 (오프라인)',
+  'sensor.mock': '스크립트 데모',
+  'sensor.replay': '세션 재생',
+  'pose.THUMBS_UP': '엄지 척',
+  'pose.SWIPE_RIGHT': '오른쪽으로 스와이프',
+  'pose.SWIPE_LEFT': '왼쪽으로 스와이프',
+  'pose.TWO_HANDS_OPEN': '두 손 펴기',
+  'pose.PEACE': '브이 유지',
+  'gesture.IDLE': '대기',
+  'gesture.DWELL': '손 감지됨',
+  'gesture.ARMED': '준비됨',
+  'gesture.CONFIRMING': '확인 중',
+  'gesture.HOLDING': '유지 중',
+  'gesture.COOLDOWN': '쿨다운',
+  'gesture.confirmingCount': '확인 중 {count}/{total}',
+  'gesture.holdingPose': '{pose} 유지 중',
+  'gesture.cooldownAfter': '쿨다운 · {action}',
+  'action.TRIGGER': '시작',
+  'action.CONFIRM': '확인',
+  'action.NEXT': '다음',
+  'action.PREVIOUS': '이전',
+  'action.TOGGLE_PAUSE': '일시정지 / 재개',
+  'action.RESET': '초기화',
+  'action.FIREWORKS': '불꽃놀이',
+  'error.noApiKey': 'API 키를 찾을 수 없습니다. 환경 변수에 설정하세요.',
+  'error.noReplayLog': '먼저 재생할 세션 로그를 불러오세요.',
+  'error.sensorInit': '센서를 시작하지 못했습니다. 콘솔을 확인하세요.',
+  'error.camera': '카메라 접근이 거부되었거나 사용할 수 없습니다.',
+  'error.microphone': '마이크 접근이 거부되었거나 사용할 수 없습니다.',
+  'script.title': '쇼 스크립트',
+  'script.load': '불러오기',
+  'script.openFile': '파일 열기',
+  'script.default': '기본값',
+  'script.addImage': '이미지 단계 추가',
+  'script.transition': '전환',
+  'shapes.title': '도형 라이브러리',
+  'shapes.add': '도형 단계 추가',
+  'schedule.title': '시계 동기화',
+  'schedule.on': '켜짐',
+  'schedule.off': '꺼짐',
+  'schedule.pause': '일정 일시 정지',
+  'schedule.resume': '일정 재개',
+  'budget.title': '파티클',
+  'budget.fixed': '고정',
+  'budget.auto': '자동',
+  'tuning.title': '조정',
+  'tuning.defaults': '기본값',
+  'remote.title': '휴대폰 리모컨',
+  'remote.relay': '릴레이',
+  'remote.hint': '{command} 를 실행하고 {param} 로 이 페이지를 여세요',
+  'remote.noKey': '릴레이가 출력한 키로 {param}을(를) 추가하세요. 그렇지 않으면 디스플레이와 휴대폰이 이 창을 따르지 않습니다',
+  'audio.title': '사운드',
+  'audio.mute': '음소거',
+  'audio.unmute': '음소거 해제',
+  'audio.muted': '음소거됨',
+  'audio.locked': '잠김',
+  'audio.hint': '링크 시작을 누르면 소리가 납니다',
+  'field.title': '손 필드',
+  'field.on': '켜짐',
+  'field.off': '꺼짐',
+  'field.noHand': '손 없음',
+  'field.hint': '손바닥을 펴면 입자가 모이고 주먹을 쥐면 흩어집니다',
+  'access.title': '접근성',
+  'access.reducedMotion': '동작 줄이기',
+  'access.highContrast': '고대비',
+  'access.on': '켜짐',
+  'access.off': '꺼짐',
+  'access.shortcuts': '키: ←/→ 단계 · R 초기화 · X 불꽃놀이 · F 전체 화면 · H 패널 숨기기',
+  'voice.title': '음성',
+  'voice.listening': '듣는 중',
+  'voice.idle': '대기',
+  'voice.off': '꺼짐',
+  'voice.micOn': '마이크 켜짐',
+  'voice.micOff': '마이크 꺼짐',
+  'voice.pushToTalk': '눌러서 말하기',
+  'voice.hold': '누르고 있는 동안 말하기',
+  'voice.hint': '"다음", "뒤로", "초기화", "카운트다운 시작", "불꽃놀이"라고 말하세요',
+  'voice.unsupported': '음성 명령은 Gemini Live 센서가 필요합니다',
+  'voice.command.NEXT': '다음',
+  'voice.command.BACK': '뒤로',
+  'voice.command.RESET': '초기화',
+  'voice.command.START_COUNTDOWN': '카운트다운 시작',
+  'voice.command.FIREWORKS': '불꽃놀이',
+  'narration.title': '내레이터',
+  'narration.on': '내레이션 켜짐',
+  'narration.off': '내레이션 꺼짐',
+  'narration.greeting': '피날레 인사',
+  'narration.greetingPlaceholder': '스크립트 값, 예: {greeting}! {year}년에 오신 것을 환영합니다!',
+  'narration.hint': '패널 언어로 카운트다운과 인사를 읽어 줍니다. 연결된 상태에서 바꾸면 센서가 다시 연결됩니다',
+  'narration.unsupported': '내레이션은 Gemini Live 센서가 필요합니다',
+  'access.stage': '{count}단계 중 {index}단계: {text}',
+  'session.title': '세션 로그',
+  'session.idle': '대기',
+  'session.recording': '녹화 중 {count}개 이벤트',
+  'session.record': '세션 기록',
+  'session.stop': '중지 후 저장',
+  'session.frames': '프레임',
+  'session.load': '재생할 로그 불러오기',
+  'session.summary': '이벤트 {count}개 · {duration}',
+  'session.speed': '속도',
+  'session.hint': '센서가 세션 재생으로 설정되었습니다. 링크 시작으로 재생하세요',
+  'capture.title': '캡처',
+  'capture.idle': '대기',
+  'capture.record': 'WebM 녹화',
+  'capture.stop': '중지 후 저장',
+  'capture.snapshot': 'PNG 스냅샷',
+  'capture.unsupported': '이 브라우저는 캔버스를 녹화할 수 없습니다',
+};
+
+const AR: Messages = {
+  'app.systemOnline': 'النظام متصل',
+  'app.billing': 'إعدادات الفوترة',
+  'app.openDisplay': 'فتح شاشة العرض ↗',
+  'app.controlOnly': 'لوحة التحكم فقط',
+  'app.singleWindow': 'نافذة واحدة',
+  'app.language': 'اللغة',
+  'app.visionLink': 'رابط الرؤية',
+  'app.gestureDetected': 'الإيماءة المكتشفة',
+  'app.protocol': 'طريقة التحكم',
+  'app.openHand': 'يد مفتوحة = تجهيز',
+  'app.fist': 'قبضة = تنفيذ',
+  'app.initialize': 'بدء الاتصال',
+  'app.prevStage': 'المرحلة السابقة',
+  'app.nextStage': 'المرحلة التالية',
+  'app.reset': 'إعادة',
+  'app.pause': 'إيقاف مؤقت',
+  'app.resume': 'استئناف',
+  'app.fireworks': 'ألعاب نارية',
+  'app.clickForSound': 'انقر لتشغيل الصوت',
+  'app.showPanel': 'إظهار اللوحة (H)',
+  'app.error': 'خطأ',
+  'status.disconnected': 'غير متصل',
+  'status.connecting': 'جارٍ الاتصال',
+  'status.live': 'متصل',
+  'status.reconnecting': 'إعادة الاتصال',
+  'status.failed': 'فشل الاتصال',
+  'sensor.local': 'محلي (دون اتصال)',
+  'sensor.mock': 'عرض تجريبي',
+  'sensor.replay': 'إعادة تشغيل جلسة',
+  'pose.THUMBS_UP': 'إبهام للأعلى',
+  'pose.SWIPE_RIGHT': 'سحب لليمين',
+  'pose.SWIPE_LEFT': 'سحب لليسار',
+  'pose.TWO_HANDS_OPEN': 'يدان مفتوحتان',
+  'pose.PEACE': 'علامة النصر مع التثبيت',
+  'gesture.IDLE': 'خامل',
+  'gesture.DWELL': 'تم رصد اليد',
+  'gesture.ARMED': 'جاهز',
+  'gesture.CONFIRMING': 'جارٍ التأكيد',
+  'gesture.HOLDING': 'جارٍ التثبيت',
+  'gesture.COOLDOWN': 'فترة تهدئة',
+  'gesture.confirmingCount': 'جارٍ التأكيد {count}/{total}',
+  'gesture.holdingPose': 'تثبيت {pose}',
+  'gesture.cooldownAfter': 'فترة تهدئة · {action}',
+  'action.TRIGGER': 'ابدأ',
+  'action.CONFIRM': 'تأكيد',
+  'action.NEXT': 'التالي',
+  'action.PREVIOUS': 'السابق',
+  'action.TOGGLE_PAUSE': 'إيقاف مؤقت / استئناف',
+  'action.RESET': 'إعادة ضبط',
+  'action.FIREWORKS': 'ألعاب نارية',
+  'error.noApiKey': 'لم يتم العثور على مفتاح API. اضبطه في متغيرات البيئة.',
+  'error.noReplayLog': 'حمّل سجل جلسة لإعادة تشغيله أولاً.',
+  'error.sensorInit': 'تعذر تشغيل المستشعر. راجع وحدة التحكم.',
+  'error.camera': 'تم رفض الوصول إلى الكاميرا أو أنها غير متاحة.',
+  'error.microphone': 'تم رفض الوصول إلى الميكروفون أو أنه غير متاح.',
+  'script.title': 'نص العرض',
+  'script.load': 'تحميل',
+  'script.openFile': 'فتح ملف',
+  'script.default': 'الافتراضي',
+  'script.addImage': 'إضافة مرحلة صورة',
+  'script.transition': 'الانتقال',
+  'shapes.title': 'مكتبة الأشكال',
+  'shapes.add': 'إضافة مرحلة شكل',
+  'schedule.title': 'مزامنة الساعة',
+  'schedule.on': 'تشغيل',
+  'schedule.off': 'إيقاف',
+  'schedule.pause': 'إيقاف الجدول',
+  'schedule.resume': 'استئناف الجدول',
+  'budget.title': 'الجسيمات',
+  'budget.fixed': 'ثابت',
+  'budget.auto': 'تلقائي',
+  'tuning.title': 'الضبط',
+  'tuning.defaults': 'القيم الافتراضية',
+  'remote.title': 'التحكم بالهاتف',
+  'remote.relay': 'المرحّل',
+  'remote.hint': 'شغّل {command} وافتح هذه الصفحة مع {param}',
+  'remote.noKey': 'أضف {param} بالمفتاح الذي يطبعه المُرحِّل، وإلا فلن تتبع الشاشات والهواتف هذه النافذة',
+  'audio.title': 'الصوت',
+  'audio.mute': 'كتم',
+  'audio.unmute': 'إلغاء الكتم',
+  'audio.muted': 'مكتوم',
+  'audio.locked': 'مقفل',
+  'audio.hint': 'يبدأ الصوت مع بدء الاتصال',
+  'field.title': 'مجال اليد',
+  'field.on': 'تشغيل',
+  'field.off': 'إيقاف',
+  'field.noHand': 'لا توجد يد',
+  'field.hint': 'الكف المفتوحة تجذب الجسيمات والقبضة تبعثرها',
+  'access.title': 'إمكانية الوصول',
+  'access.reducedMotion': 'تقليل الحركة',
+  'access.highContrast': 'تباين عالٍ',
+  'access.on': 'تشغيل',
+  'access.off': 'إيقاف',
+  'access.shortcuts': 'المفاتيح: ←/→ المرحلة · R إعادة · X ألعاب نارية · F ملء الشاشة · H إخفاء اللوحة',
+  'voice.title': 'الصوت',
+  'voice.listening': 'يستمع',
+  'voice.idle': 'جاهز',
+  'voice.off': 'متوقف',
+  'voice.micOn': 'الميكروفون يعمل',
+  'voice.micOff': 'الميكروفون متوقف',
+  'voice.pushToTalk': 'اضغط للتحدث',
+  'voice.hold': 'اضغط مع الاستمرار للتحدث',
+  'voice.hint': 'قل "التالي" أو "رجوع" أو "إعادة" أو "ابدأ العد التنازلي" أو "ألعاب نارية"',
+  'voice.unsupported': 'الأوامر الصوتية تحتاج إلى مستشعر Gemini Live',
+  'voice.command.NEXT': 'التالي',
+  'voice.command.BACK': 'رجوع',
+  'voice.command.RESET': 'إعادة ضبط',
+  'voice.command.START_COUNTDOWN': 'ابدأ العد التنازلي',
+  'voice.command.FIREWORKS': 'ألعاب نارية',
+  'narration.title': 'الراوي',
+  'narration.on': 'السرد يعمل',
+  'narration.off': 'السرد متوقف',
+  'narration.greeting': 'تحية الختام',
+  'narration.greetingPlaceholder': 'من النص، مثل {greeting}! مرحبًا بـ {year}!',
+  'narration.hint': 'يقرأ العد التنازلي والتحية بلغة اللوحة. تغييره أثناء الاتصال يعيد توصيل المستشعر',
+  'narration.unsupported': 'السرد يحتاج إلى مستشعر Gemini Live',
+  'access.stage': 'المرحلة {index} من {count}: {text}',
+  'session.title': 'سجل الجلسة',
+  'session.idle': 'خامل',
+  'session.recording': 'تسجيل {count} حدث',
+  'session.record': 'تسجيل الجلسة',
+  'session.stop': 'إيقاف وحفظ',
+  'session.frames': 'الإطارات',
+  'session.load': 'تحميل سجل لإعادة التشغيل',
+  'session.summary': '{count} حدث · {duration}',
+  'session.speed': 'السرعة',
+  'session.hint': 'تم ضبط المستشعر على إعادة تشغيل الجلسة؛ اضغط بدء الاتصال للتشغيل',
+  'capture.title': 'التقاط',
+  'capture.idle': 'خامل',
+  'capture.record': 'تسجيل WebM',
+  'capture.stop': 'إيقاف وحفظ',
+  'capture.snapshot': 'لقطة PNG',
+  'capture.unsupported': 'لا يستطيع هذا المتصفح تسجيل اللوحة',
+};
+
+const HE: Messages = {
+  'app.systemOnline': 'המערכת פעילה',
+  'app.billing': 'הגדרות חיוב',
+  'app.openDisplay': 'פתיחת מסך תצוגה ↗',
+  'app.controlOnly': 'לוח בקרה בלבד',
+  'app.singleWindow': 'חלון יחיד',
+  'app.language': 'שפה',
+  'app.visionLink': 'קישור ראייה',
+  'app.gestureDetected': 'מחווה שזוהתה',
+  'app.protocol': 'הוראות',
+  'app.openHand': 'יד פתוחה = דריכה',
+  'app.fist': 'אגרוף = הפעלה',
+  'app.initialize': 'התחלת קישור',
+  'app.prevStage': 'שלב קודם',
+  'app.nextStage': 'שלב הבא',
+  'app.reset': 'איפוס',
+  'app.pause': 'השהיה',
+  'app.resume': 'המשך',
+  'app.fireworks': 'זיקוקים',
+  'app.clickForSound': 'לחצו להפעלת צליל',
+  'app.showPanel': 'הצגת הלוח (H)',
+  'app.error': 'שגיאה',
+  'status.disconnected': 'מנותק',
+  'status.connecting': 'מתחבר',
+  'status.live': 'מחובר',
+  'status.reconnecting': 'מתחבר מחדש',
+  'status.failed': 'נכשל',
+  'sensor.local': 'מקומי (לא מקוון)',
+  'sensor.mock': 'הדגמה מתוסרטת',
+  'sensor.replay': 'הפעלת הקלטה',
+  'pose.THUMBS_UP': 'אגודל למעלה',
+  'pose.SWIPE_RIGHT': 'החלקה ימינה',
+  'pose.SWIPE_LEFT': 'החלקה שמאלה',
+  'pose.TWO_HANDS_OPEN': 'שתי ידיים',
+  'pose.PEACE': 'החזקת סימן שלום',
+  'gesture.IDLE': 'ממתין',
+  'gesture.DWELL': 'זוהתה יד',
+  'gesture.ARMED': 'דרוך',
+  'gesture.CONFIRMING': 'מאשר',
+  'gesture.HOLDING': 'מחזיק',
+  'gesture.COOLDOWN': 'צינון',
+  'gesture.confirmingCount': 'מאשר {count}/{total}',
+  'gesture.holdingPose': 'מחזיק {pose}',
+  'gesture.cooldownAfter': 'צינון · {action}',
+  'action.TRIGGER': 'התחל',
+  'action.CONFIRM': 'אישור',
+  'action.NEXT': 'הבא',
+  'action.PREVIOUS': 'הקודם',
+  'action.TOGGLE_PAUSE': 'השהה / המשך',
+  'action.RESET': 'איפוס',
+  'action.FIREWORKS': 'זיקוקים',
+  'error.noApiKey': 'מפתח API לא נמצא. הגדירו אותו בסביבה.',
+  'error.noReplayLog': 'טענו קודם יומן סשן להפעלה.',
+  'error.sensorInit': 'הפעלת החיישן נכשלה. בדקו את הקונסולה.',
+  'error.camera': 'הגישה למצלמה נדחתה או שאינה זמינה.',
+  'error.microphone': 'הגישה למיקרופון נדחתה או שאינו זמין.',
+  'script.title': 'תסריט המופע',
+  'script.load': 'טעינה',
+  'script.openFile': 'פתיחת קובץ',
+  'script.default': 'ברירת מחדל',
+  'script.addImage': 'הוספת שלב תמונה',
+  'script.transition': 'מעבר',
+  'shapes.title': 'ספריית צורות',
+  'shapes.add': 'הוספת שלב צורה',
+  'schedule.title': 'סנכרון שעון',
+  'schedule.on': 'פעיל',
+  'schedule.off': 'כבוי',
+  'schedule.pause': 'השהיית לוח זמנים',
+  'schedule.resume': 'חידוש לוח זמנים',
+  'budget.title': 'חלקיקים',
+  'budget.fixed': 'קבוע',
+  'budget.auto': 'אוטומטי',
+  'tuning.title': 'כוונון',
+  'tuning.defaults': 'ברירות מחדל',
+  'remote.title': 'שלט בטלפון',
+  'remote.relay': 'ממסר',
+  'remote.hint': 'הריצו {command} ופתחו את הדף עם {param}',
+  'remote.noKey': 'הוסיפו {param} עם המפתח שהממסר מדפיס, אחרת מסכים וטלפונים לא יעקבו אחרי החלון הזה',
+  'audio.title': 'צליל',
+  'audio.mute': 'השתקה',
+  'audio.unmute': 'ביטול השתקה',
+  'audio.muted': 'מושתק',
+  'audio.locked': 'נעול',
+  'audio.hint': 'הצליל מתחיל עם התחלת קישור',
+  'field.title': 'שדה היד',
+  'field.on': 'פועל',
+  'field.off': 'כבוי',
+  'field.noHand': 'אין יד',
+  'field.hint': 'כף יד פתוחה מושכת חלקיקים, אגרוף מפזר אותם',
+  'access.title': 'נגישות',
+  'access.reducedMotion': 'הפחתת תנועה',
+  'access.highContrast': 'ניגודיות גבוהה',
+  'access.on': 'פועל',
+  'access.off': 'כבוי',
+  'access.shortcuts': 'מקשים: ←/→ שלב · R איפוס · X זיקוקים · F מסך מלא · H הסתרת הלוח',
+  'voice.title': 'קול',
+  'voice.listening': 'מאזין',
+  'voice.idle': 'מוכן',
+  'voice.off': 'כבוי',
+  'voice.micOn': 'מיקרופון פועל',
+  'voice.micOff': 'מיקרופון כבוי',
+  'voice.pushToTalk': 'לחיצה לדיבור',
+  'voice.hold': 'החזיקו כדי לדבר',
+  'voice.hint': 'אמרו "הבא", "אחורה", "איפוס", "התחל ספירה לאחור" או "זיקוקים"',
+  'voice.unsupported': 'פקודות קוליות דורשות את חיישן Gemini Live',
+  'voice.command.NEXT': 'הבא',
+  'voice.command.BACK': 'אחורה',
+  'voice.command.RESET': 'איפוס',
+  'voice.command.START_COUNTDOWN': 'התחל ספירה לאחור',
+  'voice.command.FIREWORKS': 'זיקוקים',
+  'narration.title': 'קריין',
+  'narration.on': 'קריינות פועלת',
+  'narration.off': 'קריינות כבויה',
+  'narration.greeting': 'ברכת הסיום',
+  'narration.greetingPlaceholder': 'מהתסריט, למשל {greeting}! ברוכים הבאים ל-{year}!',
+  'narration.hint': 'מקריא את הספירה לאחור ואת הברכה בשפת הלוח. שינוי בזמן חיבור מחבר את החיישן מחדש',
+  'narration.unsupported': 'קריינות דורשת את חיישן Gemini Live',
+  'access.stage': 'שלב {index} מתוך {count}: {text}',
+  'session.title': 'יומן סשן',
+  'session.idle': 'ממתין',
+  'session.recording': 'מקליט {count} אירועים',
+  'session.record': 'הקלטת סשן',
+  'session.stop': 'עצירה ושמירה',
+  'session.frames': 'פריימים',
+  'session.load': 'טעינת יומן להפעלה',
+  'session.summary': '{count} אירועים · {duration}',
+  'session.speed': 'מהירות',
+  'session.hint': 'החיישן הוגדר להפעלת הקלטה; התחלת קישור מפעילה אותה',
+  'capture.title': 'לכידה',
+  'capture.idle': 'ממתין',
+  'capture.record': 'הקלטת WebM',
+  'capture.stop': 'עצירה ושמירה',
+  'capture.snapshot': 'צילום PNG',
+  'capture.unsupported': 'הדפדפן הזה לא יכול להקליט את הקנבס',
+};
+
+export const MESSAGES: Record<Locale, Messages> & { en: typeof EN } = {
+  en: EN,
+  es: ES,
+  zh: ZH,
+  ja: JA,
+  ko: KO,
+  ar: AR,
+  he: HE,
+};
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { makeStage } from '../test/fixtures';
+import { getStageNarration, buildNarrationRequest, PlaybackQueue, DEFAULT_NARRATION } from './narration';
+
+const EN = { locale: 'en' as const, year: 2027 };
+
+describe('getStageNarration', () => {
+  it('speaks the script line, else a text stage\'s text, else nothing', () => {
+    expect(getStageNarration(makeStage('5'), false, DEFAULT_NARRATION, EN)).toBe('5');
+    expect(getStageNarration(makeStage('tree', { shape: { type: 'tree' }, narration: 'Get ready' }), false, DEFAULT_NARRATION, EN)).toBe('Get ready');
+    expect(getStageNarration(makeStage('tree', { shape: { type: 'tree' } }), false, DEFAULT_NARRATION, EN)).toBeNull();
+    expect(getStageNarration(makeStage('HI', { narration: '' }), false, DEFAULT_NARRATION, EN)).toBeNull();
+  });
+
+  it('fills in the greeting and year for the locale', () => {
+    const finale = makeStage('finale', { shape: { type: 'text', text: '{greeting}' }, narration: '{greeting}! Welcome to {year}!' });
+    expect(getStageNarration(finale, true, DEFAULT_NARRATION, EN)).toBe('Happy New Year! Welcome to 2027!');
+    expect(getStageNarration(finale, true, DEFAULT_NARRATION, { locale: 'es', year: 2027 })).toBe('Feliz Año Nuevo! Welcome to 2027!');
+  });
+
+  it('uses the panel greeting on the finale only', () => {
+    const settings = { enabled: true, greeting: ' Cheers to {year}! ' };
+    const finale = makeStage('finale', { shape: { type: 'text', text: '{greeting}' } });
+    expect(getStageNarration(finale, true, settings, EN)).toBe('Cheers to 2027!');
+    expect(getStageNarration(makeStage('3'), false, settings, EN)).toBe('3');
+  });
+
+  it('asks for the line in the locale\'s language', () => {
+    const request = buildNarrationRequest('5', 'ja');
+    expect(request).toContain('"5"');
+    expect(request).toContain('日本語');
+  });
+});
+
+describe('PlaybackQueue', () => {
+  it('plays clips back to back, and from now once it has run dry', () => {
+    const queue = new PlaybackQueue();
+    const first = queue.schedule(0.5, 10);
+    expect(first).toBeCloseTo(10.05);
+    expect(queue.schedule(0.25, 10.1)).toBeCloseTo(first + 0.5);
+    expect(queue.schedule(1, 20)).toBeCloseTo(20.05);
+  });
+
+  it('starts over after being cleared', () => {
+    const queue = new PlaybackQueue();
+    queue.schedule(5, 0);
+    queue.clear();
+    expect(queue.schedule(1, 1)).toBeCloseTo(1.05);
+  });
+});
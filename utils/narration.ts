@@ -0,0 +1,65 @@
+import { ShowStage } from '../types';
+import { Locale, LOCALES, StageTextContext, resolveStageText } from './i18n';
+
+// Narrator mode: on each stage change the Live model is asked to say a line
+// ("five", "four"… then the greeting) in the show's language, and its audio
+// answer is played through the show's sound. Lines come from the stage's
+// `narration`, or a text stage's own text.
+
+export interface NarrationSettings {
+  enabled: boolean;
+  greeting: string; // Spoken on the finale instead of its own line; empty keeps the script's
+}
+
+export const DEFAULT_NARRATION: NarrationSettings = {
+  enabled: false,
+  greeting: '',
+};
+
+/**
+ * The line for a stage, with {greeting} and {year} filled in, or null when
+ * the stage has nothing to say
+ */
+export const getStageNarration = (
+  stage: ShowStage,
+  isFinale: boolean,
+  settings: NarrationSettings,
+  context: StageTextContext
+): string | null => {
+  const custom = isFinale ? settings.greeting.trim() : '';
+  const line = custom || (stage.narration ?? (stage.shape.type === 'text' ? stage.shape.text : ''));
+  const text = resolveStageText(line, context).replace(/\s+/g, ' ').trim();
+  return text || null;
+};
+
+/**
+ * The message asking the model to speak a line. Lines are written in one
+ * language (or are just digits), so the model translates as it speaks
+ */
+export const buildNarrationRequest = (text: string, locale: Locale): string => {
+  const language = LOCALES[locale].name;
+  return `Narrate now, in ${language}: "${text}". Translate it into ${language} if it is written in another language. ` +
+    'Say only that line, warmly and clearly, then go back to watching silently.';
+};
+
+/**
+ * When each clip of narration should start. Clips arrive in pieces, faster
+ * than real time; each starts when the previous one ends, or a little ahead
+ * of now if the queue has run dry. Times are in the audio clock's seconds
+ */
+export class PlaybackQueue {
+  private endsAt = 0;
+
+  // Scheduling slightly ahead avoids clicks from starting a clip in the past
+  private static readonly LEAD = 0.05;
+
+  public schedule(duration: number, now: number): number {
+    const startAt = Math.max(now + PlaybackQueue.LEAD, this.endsAt);
+    this.endsAt = startAt + duration;
+    return startAt;
+  }
+
+  public clear() {
+    this.endsAt = 0;
+  }
+}
@@ -0,0 +1,93 @@
+// One particle count for the whole app. Generators, the scene and the
+// panel all read it from here instead of keeping their own constants.
+
+export type BudgetMode = 'fixed' | 'auto';
+
+export interface ParticleBudget {
+  mode: BudgetMode;
+  count: number;     // Fixed count, or the starting point in auto mode
+  targetFps: number; // Auto mode tries to hold this frame rate
+}
+
+export const DEFAULT_PARTICLE_COUNT = 4000;
+export const MIN_PARTICLES = 1000;
+export const MAX_PARTICLES = 150000;
+
+export const DEFAULT_PARTICLE_BUDGET: ParticleBudget = {
+  mode: 'fixed',
+  count: DEFAULT_PARTICLE_COUNT,
+  targetFps: 55,
+};
+
+export const clampParticleCount = (count: number): number =>
+  Math.round(Math.min(MAX_PARTICLES, Math.max(MIN_PARTICLES, count)));
+
+/**
+ * Frame-time driven particle count. Feed it every frame's delta; it answers
+ * with a new count when the average over a window says we're too slow (shrink)
+ * or comfortably on target (grow). After a shrink it won't grow back past the
+ * count that was too heavy, so it settles instead of oscillating.
+ */
+export class AdaptiveBudget {
+  private targetFps: number;
+  private count: number;
+  private ceiling = MAX_PARTICLES;
+  private windowStart = 0;
+  private frames = 0;
+  private lastFps = 0;
+
+  // Averaging window; long enough to ride out GC pauses and stage morphs
+  private static readonly WINDOW_MS = 1500;
+
+  constructor(targetFps: number, count: number) {
+    this.targetFps = targetFps;
+    this.count = clampParticleCount(count);
+  }
+
+  public getFps(): number {
+    return this.lastFps;
+  }
+
+  public getCount(): number {
+    return this.count;
+  }
+
+  /**
+   * Call once per frame. Returns the new count when it changes, else null.
+   */
+  public sample(now: number): number | null {
+    if (this.windowStart === 0) {
+      this.windowStart = now;
+      return null;
+    }
+    this.frames++;
+    const elapsed = now - this.windowStart;
+    if (elapsed < AdaptiveBudget.WINDOW_MS) return null;
+    if (elapsed > AdaptiveBudget.WINDOW_MS * 3) {
+      // Background tab or a stalled frame; not a fair measurement
+      this.windowStart = now;
+      this.frames = 0;
+      return null;
+    }
+
+    const fps = (this.frames * 1000) / elapsed;
+    this.lastFps = fps;
+    this.windowStart = now;
+    this.frames = 0;
+
+    let next = this.count;
+    if (fps < this.targetFps * 0.9) {
+      // Too slow: remember this level as too heavy and back off proportionally
+      this.ceiling = Math.min(this.ceiling, this.count);
+      next = this.count * Math.max(0.5, fps / this.targetFps);
+    } else if (fps >= this.targetFps * 0.98) {
+      next = Math.min(this.count * 1.2, this.ceiling * 0.9);
+    }
+
+    next = clampParticleCount(next);
+    // Ignore changes too small to be worth a reallocation
+    if (Math.abs(next - this.count) < this.count * 0.05) return null;
+    this.count = next;
+    return next;
+  }
+}
@@ -0,0 +1,238 @@
+import * as THREE from 'three';
+import { StageTransition } from '../types';
+import { TRANSITION_GLSL, TRANSITION_EFFECTS, TRANSITION_EASINGS, DEFAULT_TRANSITION, sampleTransition } from './transitions';
+import { assignTargets } from './targetAssignment';
+
+// GPU morphing for the main particles.
+// Each particle carries a start and a target (position + color); the vertex
+// shader moves them along the current transition (utils/transitions.ts) by
+// uProgress and adds the per-particle float. The CPU only touches the buffers
+// when a stage changes or the budget reallocates.
+// The hand field (utils/handField.ts) is three uniforms on top: particles
+// near uHand are drawn in and swirled (force > 0) or pushed away (force < 0).
+
+const vertexShader = `
+  attribute vec3 aTarget;
+  attribute vec3 aStartColor;
+  attribute vec3 aTargetColor;
+  attribute float aRandom;
+
+  uniform float uProgress;
+  uniform float uTime;
+  uniform float uSize;
+  uniform float uScale;
+  uniform vec3 uHand;
+  uniform float uHandForce;
+  uniform float uHandRadius;
+  uniform float uFloat;
+
+  varying vec3 vColor;
+${TRANSITION_GLSL}
+  void main() {
+    float blend;
+    vec3 pos = transitionPosition(position, aTarget, uProgress, aRandom, blend);
+
+    // Hand field, strongest at the hand and fading out over uHandRadius
+    vec3 rel = pos - uHand;
+    float pull = uHandForce * exp(-dot(rel, rel) / (uHandRadius * uHandRadius));
+    if (pull > 0.0) {
+      // Part of the way in, never past the palm, turning around it
+      float angle = pull * (1.0 + 0.5 * sin(uTime * 2.0 + aRandom * 6.2832));
+      rel *= 1.0 - 0.4 * min(pull, 2.0);
+      float c = cos(angle);
+      float s = sin(angle);
+      pos = uHand + vec3(rel.x * c - rel.y * s, rel.x * s + rel.y * c, rel.z);
+    } else if (pull < 0.0) {
+      pos -= rel / max(length(rel), 0.001) * pull * uHandRadius * 0.6;
+    }
+
+    // Floating effect: each particle bobs independently but coherently. No global rotation.
+    // uFloat scales it, 0 for reduced motion
+    pos.x += cos(uTime * 0.5 + aRandom * 10.0) * 0.1 * uFloat; // Gentle horizontal drift
+    pos.y += sin(uTime + aRandom * 10.0) * 0.2 * uFloat;       // Small vertical float
+
+    vColor = mix(aStartColor, aTargetColor, blend);
+
+    vec4 mvPosition = modelViewMatrix * vec4(pos, 1.0);
+    // Same attenuation as PointsMaterial with sizeAttenuation
+    gl_PointSize = uSize * (uScale / -mvPosition.z);
+    gl_Position = projectionMatrix * mvPosition;
+  }
+`;
+
+const fragmentShader = `
+  uniform float uOpacity;
+
+  varying vec3 vColor;
+
+  void main() {
+    gl_FragColor = vec4(vColor, uOpacity);
+    #include <colorspace_fragment>
+  }
+`;
+
+/**
+ * Drop-in for the old PointsMaterial({ size: 0.4, opacity: 0.9, additive })
+ */
+export const createMorphMaterial = () =>
+  new THREE.ShaderMaterial({
+    uniforms: {
+      uProgress: { value: 0 },
+      uTime: { value: 0 },
+      uSize: { value: 0.4 * window.devicePixelRatio }, // Slightly larger for "pixel" look
+      uScale: { value: window.innerHeight * 0.5 },
+      uOpacity: { value: 0.9 },
+      uHand: { value: new THREE.Vector3() },
+      uHandForce: { value: 0 },
+      uHandRadius: { value: 6 },
+      uFloat: { value: 1 },
+      uTransitionEffect: { value: 0 },
+      uTransitionEasing: { value: 0 },
+    },
+    vertexShader,
+    fragmentShader,
+    blending: THREE.AdditiveBlending,
+    depthTest: false,
+    depthWrite: false,
+    transparent: true,
+  });
+
+/**
+ * Points the material at a transition; uProgress then runs it from 0 to 1
+ */
+export const setMaterialTransition = (material: THREE.ShaderMaterial, transition: StageTransition) => {
+  material.uniforms.uTransitionEffect.value = TRANSITION_EFFECTS.indexOf(transition.effect);
+  material.uniforms.uTransitionEasing.value = TRANSITION_EASINGS.indexOf(transition.easing);
+};
+
+// Scratch for freezing one particle
+const frozen = [0, 0, 0];
+
+/**
+ * Where particle i is right now along the transition, written into
+ * `position` / `color` at i. Safe to write over the start buffers
+ */
+const freezeParticle = (
+  i: number,
+  source: { start: Float32Array; target: Float32Array; startColor: Float32Array; targetColor: Float32Array; randoms: Float32Array },
+  transition: StageTransition,
+  progress: number,
+  position: Float32Array,
+  color: Float32Array,
+  at = i
+) => {
+  const i3 = i * 3;
+  const p = sampleTransition(
+    transition,
+    progress,
+    source.start.subarray(i3, i3 + 3),
+    source.target.subarray(i3, i3 + 3),
+    source.randoms[i],
+    frozen
+  );
+  for (let k = 0; k < 3; k++) {
+    position[at * 3 + k] = frozen[k];
+    color[at * 3 + k] = source.startColor[i3 + k] + (source.targetColor[i3 + k] - source.startColor[i3 + k]) * p;
+  }
+};
+
+/**
+ * Builds the morph geometry. With a previous geometry, particles start from
+ * wherever they currently are (mid-morph) and keep their targets; extra
+ * particles spawn on top of random existing ones, dark, and fade in.
+ * Without one, particles start scattered in a cube with nowhere to go yet.
+ */
+export const createMorphGeometry = (
+  count: number,
+  previous?: THREE.BufferGeometry,
+  progress = 0,
+  transition: StageTransition = DEFAULT_TRANSITION
+) => {
+  const geometry = new THREE.BufferGeometry();
+  const start = new Float32Array(count * 3);
+  const target = new Float32Array(count * 3);
+  const startColor = new Float32Array(count * 3);
+  const targetColor = new Float32Array(count * 3);
+  const randoms = new Float32Array(count);
+
+  const prev = previous && {
+    start: previous.attributes.position.array as Float32Array,
+    target: previous.attributes.aTarget.array as Float32Array,
+    startColor: previous.attributes.aStartColor.array as Float32Array,
+    targetColor: previous.attributes.aTargetColor.array as Float32Array,
+    randoms: previous.attributes.aRandom.array as Float32Array,
+  };
+  const prevCount = prev ? prev.randoms.length : 0;
+
+  for (let i = 0; i < count; i++) {
+    const i3 = i * 3;
+    if (prev && prevCount > 0) {
+      const src = i < prevCount ? i : Math.floor(Math.random() * prevCount);
+      freezeParticle(src, prev, transition, progress, start, startColor, i);
+      for (let k = 0; k < 3; k++) {
+        if (i >= prevCount) startColor[i3 + k] = 0;
+        target[i3 + k] = prev.target[src * 3 + k];
+        targetColor[i3 + k] = prev.targetColor[src * 3 + k];
+      }
+      randoms[i] = i < prevCount ? prev.randoms[i] : Math.random();
+    } else {
+      for (let k = 0; k < 3; k++) {
+        start[i3 + k] = (Math.random() - 0.5) * 50;
+        target[i3 + k] = start[i3 + k];
+      }
+      startColor[i3] = 1.0;
+      targetColor[i3] = 1.0;
+      randoms[i] = Math.random();
+    }
+  }
+
+  geometry.setAttribute('position', new THREE.BufferAttribute(start, 3));
+  geometry.setAttribute('aTarget', new THREE.BufferAttribute(target, 3));
+  geometry.setAttribute('aStartColor', new THREE.BufferAttribute(startColor, 3));
+  geometry.setAttribute('aTargetColor', new THREE.BufferAttribute(targetColor, 3));
+  geometry.setAttribute('aRandom', new THREE.BufferAttribute(randoms, 1));
+  return geometry;
+};
+
+/**
+ * Points the geometry at new targets: freezes the particles where the running
+ * transition has them as the new start, then gives each the nearest free
+ * target (see assignTargets). Particles left over stay put and fade out.
+ * `positions` / `colors` are packed per point. Caller resets uProgress to 0
+ * and sets the incoming transition afterwards.
+ * Returns false if the points were made for a different particle count (stale result).
+ */
+export const retargetGeometry = (
+  geometry: THREE.BufferGeometry,
+  progress: number,
+  transition: StageTransition,
+  particleCount: number,
+  positions: Float32Array,
+  colors: Float32Array
+): boolean => {
+  const attrs = geometry.attributes;
+  const start = attrs.position.array as Float32Array;
+  const target = attrs.aTarget.array as Float32Array;
+  const startColor = attrs.aStartColor.array as Float32Array;
+  const targetColor = attrs.aTargetColor.array as Float32Array;
+  const randoms = attrs.aRandom.array as Float32Array;
+  if (randoms.length !== particleCount) return false;
+
+  const source = { start, target, startColor, targetColor, randoms };
+  for (let i = 0; i < particleCount; i++) freezeParticle(i, source, transition, progress, start, startColor);
+
+  const assignment = assignTargets(start, positions);
+  for (let i = 0; i < particleCount; i++) {
+    const j = assignment[i];
+    for (let k = 0; k < 3; k++) {
+      target[i * 3 + k] = j >= 0 ? positions[j * 3 + k] : start[i * 3 + k];
+      targetColor[i * 3 + k] = j >= 0 ? colors[j * 3 + k] : 0;
+    }
+  }
+
+  attrs.position.needsUpdate = true;
+  attrs.aTarget.needsUpdate = true;
+  attrs.aStartColor.needsUpdate = true;
+  attrs.aTargetColor.needsUpdate = true;
+  return true;
+};
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { resample, floatToPcm16, pcm16ToBase64, base64ToPcm16, pcm16ToFloat, getPcmRate } from './pcm';
+
+describe('pcm', () => {
+  it('downsamples by averaging and upsamples by interpolating', () => {
+    const input = Float32Array.from([0, 0.2, 0.4, 0.6, 0.8, 1]);
+    expect(Array.from(resample(input, 48000, 16000))).toEqual([expect.closeTo(0.2), expect.closeTo(0.8)]);
+    expect(Array.from(resample(Float32Array.from([0, 1]), 8000, 16000))).toEqual([0, 0.5, 1, 1]);
+    expect(resample(input, 16000, 16000)).toBe(input);
+  });
+
+  it('converts to 16-bit samples, clipping out-of-range values', () => {
+    expect(Array.from(floatToPcm16(Float32Array.from([0, 1, -1, 2, -2, 0.5])))).toEqual([0, 32767, -32768, 32767, -32768, 16383]);
+  });
+
+  it('encodes little-endian bytes as base64', () => {
+    expect(pcm16ToBase64(Int16Array.from([1, -2]))).toBe(Buffer.from([1, 0, 0xfe, 0xff]).toString('base64'));
+  });
+
+  it('decodes speech back to samples at the rate in its mime type', () => {
+    const pcm = Int16Array.from([0, 16384, -32768, 32767]);
+    expect(Array.from(base64ToPcm16(pcm16ToBase64(pcm)))).toEqual(Array.from(pcm));
+    expect(Array.from(pcm16ToFloat(pcm))).toEqual([0, 0.5, -1, 32767 / 32768]);
+    expect(getPcmRate('audio/pcm;rate=24000')).toBe(24000);
+    expect(getPcmRate('audio/pcm')).toBe(24000);
+  });
+});
@@ -0,0 +1,72 @@
+// 16-bit PCM for the Live API, as base64-encoded little-endian mono samples.
+// Microphone audio goes up at 16 kHz; the narrator's speech comes back at 24 kHz.
+
+export const MIC_SAMPLE_RATE = 16000;
+export const MIC_MIME_TYPE = `audio/pcm;rate=${MIC_SAMPLE_RATE}`;
+
+/**
+ * Resamples mono audio. Downsampling averages each output sample's span of
+ * input, which is enough of a low-pass for speech
+ */
+export const resample = (input: Float32Array, fromRate: number, toRate: number): Float32Array => {
+  if (fromRate === toRate) return input;
+  const ratio = fromRate / toRate;
+  const output = new Float32Array(Math.floor(input.length / ratio));
+  for (let i = 0; i < output.length; i++) {
+    if (ratio > 1) {
+      const from = Math.floor(i * ratio);
+      const to = Math.min(input.length, Math.floor((i + 1) * ratio));
+      let sum = 0;
+      for (let j = from; j < to; j++) sum += input[j];
+      output[i] = sum / Math.max(1, to - from);
+    } else {
+      const at = i * ratio;
+      const j = Math.floor(at);
+      const next = Math.min(j + 1, input.length - 1);
+      output[i] = input[j] + (input[next] - input[j]) * (at - j);
+    }
+  }
+  return output;
+};
+
+export const floatToPcm16 = (samples: Float32Array): Int16Array => {
+  const pcm = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    pcm[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+  }
+  return pcm;
+};
+
+// Int16Array is in platform byte order, which is little-endian on every browser target
+export const pcm16ToBase64 = (pcm: Int16Array): string => {
+  const bytes = new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength);
+  let binary = '';
+  // In slices, so String.fromCharCode doesn't hit the argument limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+// The model answers in 24 kHz PCM; the rate is also in the part's mime type
+export const SPEECH_SAMPLE_RATE = 24000;
+
+export const getPcmRate = (mimeType: string, fallback = SPEECH_SAMPLE_RATE): number => {
+  const rate = Number(/rate=(\d+)/.exec(mimeType)?.[1]);
+  return rate > 0 ? rate : fallback;
+};
+
+export const base64ToPcm16 = (data: string): Int16Array => {
+  const binary = atob(data);
+  // An odd trailing byte can't be a sample
+  const bytes = new Uint8Array(binary.length - (binary.length % 2));
+  for (let i = 0; i < bytes.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Int16Array(bytes.buffer);
+};
+
+export const pcm16ToFloat = (pcm: Int16Array): Float32Array => {
+  const samples = new Float32Array(pcm.length);
+  for (let i = 0; i < pcm.length; i++) samples[i] = pcm[i] / 0x8000;
+  return samples;
+};
@@ -0,0 +1,357 @@
+import { ParticlePoint, RGB } from '../types';
+import type { ShapeDefinition } from './shapeRegistry';
+import { sampleMask } from './textSampler';
+
+// Built-in procedural shapes. Flat motifs are described as regions of the
+// plane and spread evenly by the same sampler as text; solids sample their
+// surfaces by area. Everything fits the same ~±10 unit frame as the tree.
+
+// Identity, so each shape's params type is inferred from its declaration
+const shape = <P extends string>(definition: ShapeDefinition<P>): ShapeDefinition<P> => definition;
+
+const createPoint = (x: number, y: number, z: number, color: RGB): ParticlePoint => ({ x, y, z, color });
+
+const pick = (colors: RGB[], index: number, fallback: RGB): RGB => colors[index] ?? fallback;
+
+// --- Planar helpers ---
+
+// 0 outside, otherwise which color slot (1-based) covers the point
+type Region = (x: number, y: number) => number;
+
+const segmentDistance = (px: number, py: number, ax: number, ay: number, bx: number, by: number): number => {
+  const dx = bx - ax;
+  const dy = by - ay;
+  const t = Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / (dx * dx + dy * dy || 1)));
+  return Math.hypot(px - ax - t * dx, py - ay - t * dy);
+};
+
+const insidePolygon = (x: number, y: number, vertices: [number, number][]): boolean => {
+  let inside = false;
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    const [xi, yi] = vertices[i];
+    const [xj, yj] = vertices[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+};
+
+// Raster resolution along the longer side of a silhouette's bounds
+const SILHOUETTE_RESOLUTION = 320;
+
+/**
+ * Spreads `count` points evenly over a region inside ±halfWidth × ±halfHeight,
+ * colored by slot, with `depth` of random thickness
+ */
+const sampleSilhouette = (
+  region: Region,
+  halfWidth: number,
+  halfHeight: number,
+  slotColors: RGB[],
+  count: number,
+  depth: number
+): ParticlePoint[] => {
+  const scale = SILHOUETTE_RESOLUTION / (2 * Math.max(halfWidth, halfHeight)); // Pixels per unit
+  const width = Math.ceil(2 * halfWidth * scale);
+  const height = Math.ceil(2 * halfHeight * scale);
+  const slots = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      slots[y * width + x] = region((x + 0.5) / scale - halfWidth, halfHeight - (y + 0.5) / scale);
+    }
+  }
+  const lit = slots.map((slot) => (slot > 0 ? 1 : 0));
+
+  return sampleMask({ width, height, lit }, count).map((p) => {
+    const slot = slots[Math.floor(p.y) * width + Math.floor(p.x)];
+    return createPoint(p.x / scale - halfWidth, halfHeight - p.y / scale, (Math.random() - 0.5) * depth, slotColors[slot - 1]);
+  });
+};
+
+// --- Shapes ---
+
+const sphere = shape({
+  name: 'sphere',
+  label: 'Sphere',
+  params: {
+    radius: { default: 9, min: 2, max: 15, step: 0.5 },
+  },
+  // Fibonacci lattice for even spacing
+  generate: (colors, { radius }, count) => {
+    const color = pick(colors, 0, [1, 1, 1]);
+    const golden = Math.PI * (3 - Math.sqrt(5));
+    const points: ParticlePoint[] = [];
+    for (let i = 0; i < count; i++) {
+      const y = 1 - ((i + 0.5) / count) * 2;
+      const r = Math.sqrt(1 - y * y);
+      const theta = golden * i;
+      points.push(createPoint(Math.cos(theta) * r * radius, y * radius, Math.sin(theta) * r * radius, color));
+    }
+    return points;
+  },
+});
+
+const torus = shape({
+  name: 'torus',
+  label: 'Torus',
+  params: {
+    radius: { default: 7.5, min: 3, max: 12, step: 0.5 },
+    tube: { default: 2.5, min: 0.5, max: 5, step: 0.25 },
+  },
+  generate: (colors, { radius, tube }, count) => {
+    const color = pick(colors, 0, [1, 1, 1]);
+    const tilt = 0.5; // Towards the camera, so it reads as a ring rather than a line
+    const points: ParticlePoint[] = [];
+    while (points.length < count) {
+      const u = Math.random() * Math.PI * 2;
+      const v = Math.random() * Math.PI * 2;
+      // The outside of the ring has more surface; accept in proportion
+      if (Math.random() * (radius + tube) > radius + tube * Math.cos(v)) continue;
+      const ring = radius + tube * Math.cos(v);
+      const x = ring * Math.cos(u);
+      const y = ring * Math.sin(u);
+      const z = tube * Math.sin(v);
+      points.push(createPoint(x, y * Math.cos(tilt) - z * Math.sin(tilt), y * Math.sin(tilt) + z * Math.cos(tilt), color));
+    }
+    return points;
+  },
+});
+
+const heart = shape({
+  name: 'heart',
+  label: 'Heart',
+  params: {
+    size: { default: 9, min: 3, max: 14, step: 0.5 },
+    depth: { default: 3, min: 0, max: 10, step: 0.5 },
+  },
+  generate: (colors, { size, depth }, count) => {
+    const unit = size / 1.25; // The curve spans about ±1.25
+    const region: Region = (x, y) => {
+      const u = x / unit;
+      const v = y / unit + 0.1;
+      return (u * u + v * v - 1) ** 3 - u * u * v ** 3 <= 0 ? 1 : 0;
+    };
+    return sampleSilhouette(region, size, size, [pick(colors, 0, [1, 0.2, 0.35])], count, depth);
+  },
+});
+
+const star = shape({
+  name: 'star',
+  label: 'Star',
+  params: {
+    points: { default: 5, min: 3, max: 12, step: 1 },
+    radius: { default: 10, min: 3, max: 14, step: 0.5 },
+    inner: { default: 0.45, min: 0.2, max: 0.9, step: 0.05 },
+    depth: { default: 2, min: 0, max: 10, step: 0.5 },
+  },
+  generate: (colors, { points, radius, inner, depth }, count) => {
+    const tips = Math.round(points);
+    const vertices: [number, number][] = [];
+    for (let i = 0; i < tips * 2; i++) {
+      const r = i % 2 === 0 ? radius : radius * inner;
+      const angle = (i / (tips * 2)) * Math.PI * 2; // First tip straight up
+      vertices.push([Math.sin(angle) * r, Math.cos(angle) * r]);
+    }
+    const region: Region = (x, y) => (insidePolygon(x, y, vertices) ? 1 : 0);
+    return sampleSilhouette(region, radius, radius, [pick(colors, 0, [1, 0.85, 0.2])], count, depth);
+  },
+});
+
+const clock = shape({
+  name: 'clock',
+  label: 'Clock Face',
+  params: {
+    hour: { default: 0, min: 0, max: 23, step: 1 },
+    minute: { default: 0, min: 0, max: 59, step: 1 },
+    radius: { default: 9, min: 4, max: 13, step: 0.5 },
+  },
+  // Rim and ticks in the first color, hands in the second; midnight by default
+  generate: (colors, { hour, minute, radius: R }, count) => {
+    // Clockwise from 12 o'clock
+    const direction = (turns: number): [number, number] => [Math.sin(turns * Math.PI * 2), Math.cos(turns * Math.PI * 2)];
+    const [mx, my] = direction(minute / 60);
+    const [hx, hy] = direction(((hour % 12) + minute / 60) / 12);
+    const ticks = Array.from({ length: 12 }, (_, i) => direction(i / 12));
+
+    const region: Region = (x, y) => {
+      const r = Math.hypot(x, y);
+      if (r < 0.07 * R) return 2;
+      if (segmentDistance(x, y, 0, 0, hx * 0.5 * R, hy * 0.5 * R) < 0.05 * R) return 2;
+      if (segmentDistance(x, y, 0, 0, mx * 0.78 * R, my * 0.78 * R) < 0.035 * R) return 2;
+      if (Math.abs(r - 0.96 * R) < 0.04 * R) return 1;
+      for (let i = 0; i < 12; i++) {
+        const [tx, ty] = ticks[i];
+        const width = i % 3 === 0 ? 0.045 : 0.025;
+        if (segmentDistance(x, y, tx * 0.8 * R, ty * 0.8 * R, tx * 0.88 * R, ty * 0.88 * R) < width * R) return 1;
+      }
+      return 0;
+    };
+    return sampleSilhouette(region, R, R, [pick(colors, 0, [0.9, 0.95, 1]), pick(colors, 1, [1, 0.8, 0.2])], count, 1);
+  },
+});
+
+const champagne = shape({
+  name: 'champagne',
+  label: 'Champagne Glass',
+  params: {
+    fill: { default: 0.6, min: 0, max: 1, step: 0.05 },
+  },
+  // Glass in the first color, wine in the second
+  generate: (colors, { fill }, count) => {
+    const glass = pick(colors, 0, [0.8, 0.9, 1]);
+    const wine = pick(colors, 1, [1, 0.85, 0.4]);
+    const BASE_Y = -9.5;
+    const BASE_R = 3.5;
+    const STEM_R = 0.25;
+    const BOWL_Y = -1; // Bottom of the bowl; it rises 10 units
+    const bowlRadius = (t: number) => 0.3 + 3 * Math.sqrt(t) * (1 - 0.15 * t);
+
+    // Share points by surface area: base disc, stem, wine surface, bowl wall.
+    // The wall goes last so it takes the rounding remainder even when empty
+    const bowlArea = Array.from({ length: 20 }, (_, i) => 2 * Math.PI * bowlRadius((i + 0.5) / 20) * 0.5).reduce((a, b) => a + b, 0);
+    const surfaceR = bowlRadius(fill);
+    const parts = [
+      Math.PI * BASE_R * BASE_R,
+      2 * Math.PI * STEM_R * (BOWL_Y - BASE_Y),
+      fill > 0 ? Math.PI * surfaceR * surfaceR : 0,
+      bowlArea,
+    ];
+    const total = parts.reduce((a, b) => a + b, 0);
+    const points: ParticlePoint[] = [];
+    const ring = (r: number, y: number, color: RGB) => {
+      const a = Math.random() * Math.PI * 2;
+      points.push(createPoint(Math.cos(a) * r, y, Math.sin(a) * r, color));
+    };
+
+    parts.forEach((area, part) => {
+      const n = part === parts.length - 1 ? count - points.length : Math.round((area / total) * count);
+      for (let i = 0; i < n; i++) {
+        switch (part) {
+          case 0: ring(BASE_R * Math.sqrt(Math.random()), BASE_Y, glass); break;
+          case 1: ring(STEM_R, BASE_Y + Math.random() * (BOWL_Y - BASE_Y), glass); break;
+          case 2: ring(surfaceR * Math.sqrt(Math.random()), BOWL_Y + fill * 10, wine); break;
+          default: {
+            // Wider rings get proportionally more points
+            let t = Math.random();
+            while (Math.random() * bowlRadius(1) > bowlRadius(t)) t = Math.random();
+            ring(bowlRadius(t), BOWL_Y + t * 10, t < fill ? wine : glass);
+          }
+        }
+      }
+    });
+    return points;
+  },
+});
+
+const gift = shape({
+  name: 'gift',
+  label: 'Gift Box',
+  params: {
+    size: { default: 10, min: 4, max: 14, step: 0.5 },
+    ribbon: { default: 0.18, min: 0, max: 0.4, step: 0.02 },
+  },
+  // Box in the first color, ribbon and bow in the second
+  generate: (colors, { size, ribbon }, count) => {
+    const box = pick(colors, 0, [0.85, 0.1, 0.15]);
+    const band = pick(colors, 1, [1, 0.8, 0.2]);
+    const h = size / 2;
+    const w = (ribbon * size) / 2;
+    const bowCount = ribbon > 0 ? Math.round(count * 0.12) : 0;
+    const points: ParticlePoint[] = [];
+
+    for (let i = 0; i < count - bowCount; i++) {
+      // Pick a face (all equal area), then a spot on it
+      const face = Math.floor(Math.random() * 6);
+      const a = (Math.random() * 2 - 1) * h;
+      const b = (Math.random() * 2 - 1) * h;
+      const sign = face % 2 === 0 ? 1 : -1;
+      const [x, y, z] = face < 2 ? [sign * h, a, b] : face < 4 ? [a, sign * h, b] : [a, b, sign * h];
+      // Two ribbons wrap round the box, in the x = 0 and z = 0 planes
+      const onBand = (face >= 2 && Math.abs(x) < w) || (face < 4 && Math.abs(z) < w);
+      points.push(createPoint(x, y - h * 0.3, z, onBand ? band : box));
+    }
+    // Two loops of the bow on top
+    for (let i = 0; i < bowCount; i++) {
+      const side = i % 2 === 0 ? 1 : -1;
+      const a = Math.random() * Math.PI * 2;
+      const loop = size * 0.2;
+      const jitter = () => (Math.random() - 0.5) * w;
+      points.push(createPoint(side * (loop + Math.cos(a) * loop) * 0.9 + jitter(), h * 0.7 + loop * 0.6 + Math.sin(a) * loop * 0.6 + jitter(), jitter(), band));
+    }
+    return points;
+  },
+});
+
+const snowflake = shape({
+  name: 'snowflake',
+  label: 'Snowflake',
+  params: {
+    radius: { default: 9.5, min: 4, max: 14, step: 0.5 },
+    branches: { default: 2, min: 0, max: 3, step: 1 },
+    depth: { default: 1, min: 0, max: 6, step: 0.5 },
+  },
+  generate: (colors, { radius: R, branches, depth }, count) => {
+    const n = Math.round(branches);
+    // Branch roots along the arm, each leaning 60° off it
+    const twigs = Array.from({ length: n }, (_, k) => {
+      const d = n === 1 ? 0.55 : 0.35 + (0.5 * k) / (n - 1);
+      const length = 0.4 * (1 - d) + 0.05;
+      return [d * R, 0, (d + length * 0.5) * R, length * Math.sin(Math.PI / 3) * R] as const;
+    });
+    const arm = 0.045 * R;
+
+    const region: Region = (x, y) => {
+      const r = Math.hypot(x, y);
+      if (r > R) return 0;
+      if (r < 0.12 * R) return 1;
+      // Fold into the 0-30° wedge next to one arm: six arms from 12 o'clock, each mirror-symmetric
+      let angle = (Math.atan2(y, x) - Math.PI / 2) % (Math.PI / 3);
+      if (angle < 0) angle += Math.PI / 3;
+      if (angle > Math.PI / 6) angle = Math.PI / 3 - angle;
+      const fx = Math.cos(angle) * r;
+      const fy = Math.sin(angle) * r;
+      if (fy < arm) return 1;
+      return twigs.some(([ax, ay, bx, by]) => segmentDistance(fx, fy, ax, ay, bx, by) < arm * 0.8) ? 1 : 0;
+    };
+    return sampleSilhouette(region, R, R, [pick(colors, 0, [0.8, 0.9, 1])], count, depth);
+  },
+});
+
+// Galloping horse facing right, in units where the body is about ±1 wide
+const HORSE_PARTS: { from: [number, number]; to: [number, number]; r: number }[] = [
+  { from: [0.45, 0.2], to: [0.72, 0.62], r: 0.16 },    // Neck
+  { from: [0.72, 0.66], to: [1.0, 0.42], r: 0.11 },    // Head
+  { from: [0.68, 0.78], to: [0.64, 0.92], r: 0.035 },  // Ear
+  { from: [0.5, 0.45], to: [0.66, 0.8], r: 0.07 },     // Mane
+  { from: [0.38, -0.05], to: [0.62, -0.5], r: 0.06 },  // Front legs, one reaching forward
+  { from: [0.62, -0.5], to: [0.72, -0.72], r: 0.05 },
+  { from: [0.28, -0.05], to: [0.18, -0.74], r: 0.06 },
+  { from: [-0.4, -0.05], to: [-0.52, -0.74], r: 0.07 }, // Hind legs
+  { from: [-0.28, -0.05], to: [-0.62, -0.55], r: 0.06 },
+  { from: [-0.62, -0.55], to: [-0.82, -0.68], r: 0.05 },
+  { from: [-0.55, 0.22], to: [-0.82, -0.12], r: 0.06 }, // Tail
+  { from: [-0.82, -0.12], to: [-0.88, -0.4], r: 0.045 },
+];
+
+const horse = shape({
+  name: 'horse',
+  label: 'Zodiac Horse',
+  params: {
+    size: { default: 10, min: 4, max: 14, step: 0.5 },
+    depth: { default: 2, min: 0, max: 8, step: 0.5 },
+  },
+  generate: (colors, { size, depth }, count) => {
+    const unit = size / 1.05;
+    const region: Region = (x, y) => {
+      // Center the figure's bounds on the origin
+      const u = x / unit + 0.09;
+      const v = y / unit + 0.07;
+      const dx = u / 0.55;
+      const dy = (v - 0.1) / 0.28;
+      if (dx * dx + dy * dy <= 1) return 1; // Body
+      return HORSE_PARTS.some(({ from, to, r }) => segmentDistance(u, v, from[0], from[1], to[0], to[1]) <= r) ? 1 : 0;
+    };
+    return sampleSilhouette(region, size, size * 0.9, [pick(colors, 0, [1, 0.3, 0.15])], count, depth);
+  },
+});
+
+export const BUILTIN_SHAPES: ShapeDefinition[] = [sphere, torus, heart, star, clock, champagne, gift, snowflake, horse];
@@ -0,0 +1,276 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { RGB } from '../types';
+import { generateTreePoints, generateTextPoints, generateImagePoints } from './shapeGenerator';
+
+/**
+ * Just enough of a 2D canvas for the text and image samplers: solid fillRect,
+ * fillText drawn as one solid block per character (0.6em wide, 0.7em tall)
+ * honouring center/middle alignment, with measureText to match, and drawImage
+ * as a white block. Every font and direction set is kept for assertions.
+ */
+class CanvasStandIn {
+  public width = 0;
+  public height = 0;
+  public fonts: string[] = [];
+  public directions: string[] = [];
+  public contextAvailable = true;
+  private pixels = new Uint8ClampedArray(0);
+
+  public getContext(kind: string) {
+    if (kind !== '2d' || !this.contextAvailable) return null;
+    this.pixels = new Uint8ClampedArray(this.width * this.height * 4);
+    const canvas = this;
+    let fill = 0;
+
+    return {
+      textAlign: 'start',
+      textBaseline: 'alphabetic',
+      set fillStyle(value: string) {
+        fill = parseInt(value.slice(1, 3), 16);
+      },
+      set direction(value: string) {
+        canvas.directions.push(value);
+      },
+      set font(value: string) {
+        canvas.fonts.push(value);
+        this._size = parseInt(value.match(/(\d+)px/)![1], 10);
+      },
+      _size: 10,
+      fillRect(x: number, y: number, w: number, h: number) {
+        canvas.paint(x, y, w, h, fill);
+      },
+      measureText(text: string) {
+        return { width: text.length * this._size * 0.6 };
+      },
+      fillText(text: string, x: number, y: number) {
+        const w = text.length * this._size * 0.6;
+        const h = this._size * 0.7;
+        canvas.paint(x - w / 2, y - h / 2, w, h, fill);
+      },
+      drawImage(_image: unknown, x: number, y: number, w: number, h: number) {
+        canvas.paint(x, y, w, h, 255);
+      },
+      getImageData: (x: number, y: number, w: number, h: number) => {
+        expect([x, y, w, h]).toEqual([0, 0, canvas.width, canvas.height]);
+        return { width: w, height: h, data: canvas.pixels };
+      },
+    };
+  }
+
+  private paint(x: number, y: number, w: number, h: number, value: number) {
+    const x0 = Math.max(0, Math.round(x));
+    const y0 = Math.max(0, Math.round(y));
+    const x1 = Math.min(this.width, Math.round(x + w));
+    const y1 = Math.min(this.height, Math.round(y + h));
+    for (let py = y0; py < y1; py++) {
+      for (let px = x0; px < x1; px++) {
+        const i = (py * this.width + px) * 4;
+        this.pixels[i] = this.pixels[i + 1] = this.pixels[i + 2] = value;
+        this.pixels[i + 3] = 255;
+      }
+    }
+  }
+}
+
+let canvases: CanvasStandIn[] = [];
+
+beforeEach(() => {
+  canvases = [];
+  vi.stubGlobal('document', {
+    createElement: (tag: string) => {
+      expect(tag).toBe('canvas');
+      const canvas = new CanvasStandIn();
+      canvases.push(canvas);
+      return canvas;
+    },
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+const bounds = (points: { x: number; y: number; z: number }[]) => ({
+  minX: Math.min(...points.map((p) => p.x)),
+  maxX: Math.max(...points.map((p) => p.x)),
+  minY: Math.min(...points.map((p) => p.y)),
+  maxY: Math.max(...points.map((p) => p.y)),
+  minZ: Math.min(...points.map((p) => p.z)),
+  maxZ: Math.max(...points.map((p) => p.z)),
+});
+
+describe('generateTextPoints', () => {
+  // World units -> canvas pixels of the 800x400 text canvas
+  const px = (units: number) => Math.round(units / 0.05);
+
+  it('returns the requested number of points in the stage color', () => {
+    const color: RGB = [0.4, 0.6, 1];
+    const points = generateTextPoints('5', color, 1500);
+    expect(points).toHaveLength(1500);
+    expect(points.every((p) => p.color === color)).toBe(true);
+  });
+
+  it('places points where the glyphs were drawn, centered on the origin', () => {
+    const points = generateTextPoints('5', [1, 1, 1], 2000);
+    const b = bounds(points);
+    // One 347px character: 208 x 243 canvas pixels, i.e. +-104 x +-121
+    expect(px(b.minX)).toBeGreaterThanOrEqual(-105);
+    expect(px(b.maxX)).toBeLessThanOrEqual(105);
+    expect(px(b.minY)).toBeGreaterThanOrEqual(-122);
+    expect(px(b.maxY)).toBeLessThanOrEqual(122);
+    expect(px(b.maxX - b.minX)).toBeGreaterThan(190);
+    expect(Math.abs(px(b.minX + b.maxX))).toBeLessThanOrEqual(4);
+    // Slight depth only
+    expect(b.minZ).toBeGreaterThanOrEqual(-1);
+    expect(b.maxZ).toBeLessThanOrEqual(1);
+  });
+
+  it('sizes text to fill the frame', () => {
+    generateTextPoints('5', [1, 1, 1], 10);
+    generateTextPoints('2026', [1, 1, 1], 10);
+    expect(canvases[0].fonts).toEqual(['700 100px Arial', '700 347px Arial']);
+    expect(canvases[1].fonts).toEqual(['700 100px Arial', '700 300px Arial']);
+  });
+
+  it('wraps long text onto two lines rather than shrinking it onto one', () => {
+    const points = generateTextPoints('Happy New Year', [1, 1, 1], 3000);
+    // "Happy" / "New Year": 8 characters across 720px
+    expect(canvases[0].fonts.at(-1)).toBe('700 150px Arial');
+    // Two rows of glyphs with a gap between them
+    expect(points.some((p) => p.y > 2)).toBe(true);
+    expect(points.some((p) => p.y < -2)).toBe(true);
+    expect(points.every((p) => Math.abs(p.y) > 1.4)).toBe(true);
+    expect(Math.max(...points.map((p) => Math.abs(px(p.x))))).toBeLessThanOrEqual(360);
+  });
+
+  it('keeps to one line when maxLines says so', () => {
+    const points = generateTextPoints('Happy New Year', [1, 1, 1], 500, { maxLines: 1 });
+    expect(canvases[0].fonts.at(-1)).toBe('700 85px Arial');
+    expect(points.every((p) => Math.abs(p.y) < 1.6)).toBe(true);
+  });
+
+  it('uses the font family and weight given', () => {
+    generateTextPoints('5', [1, 1, 1], 10, { font: 'Noto Sans JP', weight: 400 });
+    expect(canvases[0].fonts).toEqual(['400 100px "Noto Sans JP"', '400 347px "Noto Sans JP"']);
+  });
+
+  it('spreads particles evenly instead of stacking them on pixels', () => {
+    const points = generateTextPoints('.', [1, 1, 1], 20000);
+    expect(points).toHaveLength(20000);
+    expect(new Set(points.map((p) => `${p.x},${p.y}`)).size).toBe(20000);
+
+    // Equal quarters of the glyph get about equal shares
+    const b = bounds(points);
+    const midX = (b.minX + b.maxX) / 2;
+    const midY = (b.minY + b.maxY) / 2;
+    const quarters = [0, 0, 0, 0];
+    for (const p of points) quarters[(p.x < midX ? 0 : 1) + (p.y < midY ? 0 : 2)]++;
+    for (const n of quarters) expect(Math.abs(n - 5000)).toBeLessThan(250);
+  });
+
+  it('extrudes the letters to the requested depth', () => {
+    const b = bounds(generateTextPoints('5', [1, 1, 1], 2000, { extrude: 8 }));
+    expect(b.minZ).toBeGreaterThanOrEqual(-4);
+    expect(b.maxZ).toBeLessThanOrEqual(4);
+    expect(b.maxZ - b.minZ).toBeGreaterThan(6);
+  });
+
+  it('colors outline particles with the edge color', () => {
+    const color: RGB = [0, 0, 1];
+    const edge: RGB = [1, 1, 0];
+    const points = generateTextPoints('5', color, 4000, { edges: true }, edge);
+    const b = bounds(points);
+    const toBorder = (p: { x: number; y: number }) => Math.min(p.x - b.minX, b.maxX - p.x, p.y - b.minY, b.maxY - p.y);
+    const outline = points.filter((p) => p.color === edge);
+    expect(outline.length).toBeGreaterThan(100);
+    expect(outline.length).toBeLessThan(1000);
+    expect(outline.every((p) => toBorder(p) < 0.4)).toBe(true);
+    expect(points.filter((p) => p.color === color).every((p) => toBorder(p) > 0.2)).toBe(true);
+  });
+
+  it('lays text out in the requested direction', () => {
+    generateTextPoints('5', [1, 1, 1], 10);
+    generateTextPoints('שנה טובה', [1, 1, 1], 10, { direction: 'rtl' });
+    expect(canvases[0].directions).toEqual(['ltr']);
+    expect(canvases[1].directions).toEqual(['rtl']);
+  });
+
+  it('returns nothing when there is nothing to sample', () => {
+    expect(generateTextPoints('', [1, 1, 1], 100)).toEqual([]);
+  });
+
+  it('returns nothing without a 2D context', () => {
+    vi.stubGlobal('document', {
+      createElement: () => Object.assign(new CanvasStandIn(), { contextAvailable: false }),
+    });
+    expect(generateTextPoints('5', [1, 1, 1], 100)).toEqual([]);
+  });
+});
+
+describe('generateImagePoints', () => {
+  // A 2:1 image, which fills the whole 400x200 image canvas
+  beforeEach(() => {
+    vi.stubGlobal('Image', class {
+      public naturalWidth = 200;
+      public naturalHeight = 100;
+      public onload: (() => void) | null = null;
+      set src(_value: string) {
+        queueMicrotask(() => this.onload?.());
+      }
+    });
+  });
+
+  it('spreads particles evenly over the image instead of filling it in scan order', async () => {
+    const points = await generateImagePoints('logo.png', [1, 1, 1], {}, 8000);
+    expect(points).toHaveLength(8000);
+    expect(new Set(points.map((p) => `${p.x},${p.y}`)).size).toBe(8000);
+
+    const quarters = [0, 0, 0, 0];
+    for (const p of points) quarters[(p.x < 0 ? 0 : 1) + (p.y < 0 ? 0 : 2)]++;
+    for (const n of quarters) expect(Math.abs(n - 2000)).toBeLessThan(150);
+  });
+
+  it('keeps the pixel colors unless told not to', async () => {
+    const color: RGB = [1, 0, 0];
+    expect((await generateImagePoints('logo.png', color, {}, 50)).every((p) => p.color.every((c) => c === 1))).toBe(true);
+    expect((await generateImagePoints('logo.png', color, { keepColors: false }, 50)).every((p) => p.color === color)).toBe(true);
+  });
+
+  it('returns nothing when no pixel passes the threshold', async () => {
+    expect(await generateImagePoints('logo.png', [1, 1, 1], { invert: true }, 100)).toEqual([]);
+  });
+});
+
+describe('generateTreePoints', () => {
+  it('spirals from a wide base to a narrow top', () => {
+    const points = generateTreePoints(undefined, 1000);
+    expect(points).toHaveLength(1000);
+    const b = bounds(points);
+    expect(b.minY).toBeGreaterThanOrEqual(-10);
+    expect(b.maxY).toBeLessThan(10);
+
+    const radius = (p: { x: number; z: number }) => Math.hypot(p.x, p.z);
+    expect(radius(points[0])).toBeCloseTo(8);
+    expect(radius(points[999])).toBeLessThan(0.1);
+    for (let i = 1; i < points.length; i++) {
+      expect(points[i].y).toBeGreaterThan(points[i - 1].y);
+      expect(radius(points[i])).toBeLessThanOrEqual(radius(points[i - 1]) + 1e-9);
+    }
+  });
+
+  it('uses the foliage color unless an ornament comes up', () => {
+    const palette: RGB[] = [[0, 1, 0], [1, 0, 0], [1, 1, 0]];
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(generateTreePoints(palette, 50).every((p) => p.color === palette[0])).toBe(true);
+
+    vi.spyOn(Math, 'random').mockReturnValue(0.99);
+    expect(generateTreePoints(palette, 50).every((p) => p.color === palette[1])).toBe(true);
+  });
+
+  it('falls back to the classic colors for missing palette entries', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const [point] = generateTreePoints([], 1);
+    expect(point.color).toEqual([0.1, 0.8, 0.2]);
+  });
+});
@@ -1,22 +1,28 @@
-import { ParticlePoint } from '../types';
+import { ParticlePoint, RGB, ShowStage, ImageShapeOptions, TextShapeOptions } from '../types';
+import { DEFAULT_PARTICLE_COUNT } from './particleBudget';
+import { LINE_HEIGHT, REFERENCE_SIZE, layoutText, findEdges, sampleMask, quoteFamily, loadTextFont } from './textSampler';
+import { generateShapePoints } from './shapeRegistry';
 
-const PARTICLE_COUNT = 4000;
 const CANVAS_WIDTH = 200;
 const CANVAS_HEIGHT = 100;
 
 // Helper to create a point
-const createPoint = (x: number, y: number, z: number, color: [number, number, number]): ParticlePoint => ({ x, y, z, color });
+const createPoint = (x: number, y: number, z: number, color: RGB): ParticlePoint => ({ x, y, z, color });
+
+const TREE_PALETTE: RGB[] = [[0.1, 0.8, 0.2], [1, 0.1, 0.1], [1, 0.8, 0.1]]; // Green, red, gold
 
 /**
- * Generates points for a 3D Spiral Christmas Tree
+ * Generates points for a 3D Spiral Christmas Tree.
+ * Palette is [foliage, ornament, ornament]; missing entries fall back to the classic colors.
  */
-export const generateTreePoints = (): ParticlePoint[] => {
+export const generateTreePoints = (palette: RGB[] = TREE_PALETTE, count = DEFAULT_PARTICLE_COUNT): ParticlePoint[] => {
   const points: ParticlePoint[] = [];
+  const [foliage, ornamentA, ornamentB] = TREE_PALETTE.map((c, i) => palette[i] ?? c);
   
-  for (let i = 0; i < PARTICLE_COUNT; i++) {
+  for (let i = 0; i < count; i++) {
     // Spiral logic
     const angle = i * 0.1;
-    const height = (i / PARTICLE_COUNT) * 20 - 10; // -10 to 10
+    const height = (i / count) * 20 - 10; // -10 to 10
     const radius = ((20 - (height + 10)) / 20) * 8; // Wider at bottom
     
     const x = Math.cos(angle) * radius;
@@ -24,87 +30,192 @@ export const generateTreePoints = (): ParticlePoint[] => {
     const y = height;
 
     // Decorate: Mostly green, some red/gold ornaments
-    let color: [number, number, number] = [0.1, 0.8, 0.2]; // Green
-    if (Math.random() > 0.95) color = [1, 0.1, 0.1]; // Red ornament
-    else if (Math.random() > 0.95) color = [1, 0.8, 0.1]; // Gold ornament
+    let color = foliage;
+    if (Math.random() > 0.95) color = ornamentA;
+    else if (Math.random() > 0.95) color = ornamentB;
 
     points.push(createPoint(x, y, z, color));
   }
   return points;
 };
 
+// Text is drawn at this many canvas pixels per frame pixel; more detail, same world size
+const TEXT_SAMPLE_SCALE = 4;
+// Side margin kept clear of text, in frame pixels
+const TEXT_MARGIN = 10;
+// Width of the highlighted outline, in frame pixels
+const EDGE_WIDTH = 1.5;
+
+// Outline color when the palette has no second entry
+const lighten = (color: RGB): RGB => color.map((c) => c + (1 - c) * 0.6) as RGB;
+
 /**
- * Generates points by sampling text drawn on a 2D canvas
+ * Generates points by sampling text drawn on a 2D canvas. The text is sized
+ * to fill the frame, wrapping onto up to `maxLines` lines, and the particles
+ * are spread evenly over the glyphs (see sampleMask). Fonts must already be
+ * loaded; getPointsForStage waits for them.
  */
-export const generateTextPoints = (text: string, colorBase: [number, number, number] = [1, 1, 1]): ParticlePoint[] => {
+export const generateTextPoints = (
+  text: string,
+  colorBase: RGB = [1, 1, 1],
+  count = DEFAULT_PARTICLE_COUNT,
+  options: TextShapeOptions = {},
+  edgeColor: RGB = lighten(colorBase)
+): ParticlePoint[] => {
+  const { direction = 'ltr', font = 'Arial', weight = 700, maxLines = 2, extrude = 2, edges = false } = options;
+  const width = CANVAS_WIDTH * TEXT_SAMPLE_SCALE;
+  const height = CANVAS_HEIGHT * TEXT_SAMPLE_SCALE;
   const canvas = document.createElement('canvas');
-  canvas.width = CANVAS_WIDTH;
-  canvas.height = CANVAS_HEIGHT;
+  canvas.width = width;
+  canvas.height = height;
   const ctx = canvas.getContext('2d');
   
   if (!ctx) return [];
 
   ctx.fillStyle = '#000000';
-  ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+  ctx.fillRect(0, 0, width, height);
   
   ctx.fillStyle = '#FFFFFF';
   ctx.textAlign = 'center';
   ctx.textBaseline = 'middle';
-  
-  // Adjust font size based on text length
-  const fontSize = text.length > 2 ? 30 : 80;
-  ctx.font = `bold ${fontSize}px Arial`;
-  ctx.fillText(text, CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2);
+  ctx.direction = direction;
 
-  const imageData = ctx.getImageData(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
-  const data = imageData.data;
-  
-  const validPixels: {x: number, y: number}[] = [];
-
-  // Scan for white pixels
-  for (let y = 0; y < CANVAS_HEIGHT; y += 2) { // Skip lines for density control
-    for (let x = 0; x < CANVAS_WIDTH; x += 2) {
-      const index = (y * CANVAS_WIDTH + x) * 4;
-      if (data[index] > 128) { // Red channel > 128
-        validPixels.push({ x, y });
+  // Measure once at the reference size, then draw at the size that fits
+  const family = quoteFamily(font);
+  ctx.font = `${weight} ${REFERENCE_SIZE}px ${family}`;
+  const { lines, fontSize } = layoutText(text, (s) => ctx.measureText(s).width, {
+    maxWidth: width - TEXT_MARGIN * 2 * TEXT_SAMPLE_SCALE,
+    maxHeight: height,
+    maxLines,
+  });
+  ctx.font = `${weight} ${fontSize}px ${family}`;
+  const pitch = fontSize * LINE_HEIGHT;
+  lines.forEach((line, i) => {
+    ctx.fillText(line, width / 2, height / 2 + (i - (lines.length - 1) / 2) * pitch);
+  });
+
+  const data = ctx.getImageData(0, 0, width, height).data;
+  const lit = new Uint8Array(width * height);
+  for (let i = 0; i < lit.length; i++) {
+    if (data[i * 4] > 128) lit[i] = 1; // Red channel > 128
+  }
+  const mask = { width, height, lit };
+  const outline = edges ? findEdges(mask, EDGE_WIDTH * TEXT_SAMPLE_SCALE) : null;
+
+  // Center on the origin, flip Y for canvas coords; 0.2 world units per frame pixel
+  const unit = 0.2 / TEXT_SAMPLE_SCALE;
+  return sampleMask(mask, count, outline).map((p) =>
+    createPoint(
+      (p.x - width / 2) * unit,
+      -(p.y - height / 2) * unit,
+      (Math.random() - 0.5) * extrude,
+      p.edge ? edgeColor : colorBase
+    )
+  );
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error(`Could not load image: ${src.startsWith('data:') ? 'uploaded file' : src}`));
+    img.src = src;
+  });
+
+// 0-255 luminance of pixel i in RGBA data
+const luminanceAt = (data: Uint8ClampedArray, i: number): number =>
+  0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+
+// Images are drawn at twice the frame resolution for finer logo detail
+const IMAGE_SAMPLE_SCALE = 2;
+// SVGs without width/height attributes report 0x0; rasterize them at this size
+const FALLBACK_IMAGE_SIZE = 512;
+
+/**
+ * Generates points by sampling an image (PNG/JPEG/SVG), fitted into the same
+ * frame as the text stages. Pixels pass on alpha or luminance against a
+ * threshold and particles are spread evenly over them as for text; each point
+ * keeps its pixel's color unless keepColors is false, and extrude pushes
+ * brighter pixels towards the camera.
+ */
+export const generateImagePoints = async (
+  src: string,
+  colorBase: RGB = [1, 1, 1],
+  options: ImageShapeOptions = {},
+  count = DEFAULT_PARTICLE_COUNT
+): Promise<ParticlePoint[]> => {
+  const { sampling = 'auto', threshold = 0.5, invert = false, keepColors = true, extrude = 0 } = options;
+  const img = await loadImage(src);
+  const width = CANVAS_WIDTH * IMAGE_SAMPLE_SCALE;
+  const height = CANVAS_HEIGHT * IMAGE_SAMPLE_SCALE;
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+
+  if (!ctx) return [];
+
+  const imgWidth = img.naturalWidth || img.width || FALLBACK_IMAGE_SIZE;
+  const imgHeight = img.naturalHeight || img.height || FALLBACK_IMAGE_SIZE;
+  const scale = Math.min(width / imgWidth, height / imgHeight);
+  const w = imgWidth * scale;
+  const h = imgHeight * scale;
+  ctx.drawImage(img, (width - w) / 2, (height - h) / 2, w, h);
+
+  const data = ctx.getImageData(0, 0, width, height).data;
+  let mode = sampling;
+  if (mode === 'auto') {
+    // Look for transparency inside the fitted image only, the letterbox is always transparent
+    mode = 'luminance';
+    const x0 = Math.ceil((width - w) / 2);
+    const y0 = Math.ceil((height - h) / 2);
+    for (let y = y0; y < y0 + Math.floor(h) && mode === 'luminance'; y += 4) {
+      for (let x = x0; x < x0 + Math.floor(w); x += 4) {
+        if (data[(y * width + x) * 4 + 3] < 250) {
+          mode = 'alpha';
+          break;
+        }
       }
     }
   }
 
-  const points: ParticlePoint[] = [];
-  
-  // Map pixels to 3D points
-  if (validPixels.length === 0) return points;
-
-  for (let i = 0; i < PARTICLE_COUNT; i++) {
-    // If we have more particles than pixels, reuse pixels randomly to fill volume
-    const pixel = validPixels[i % validPixels.length];
-    
-    // Center and scale
-    const x = (pixel.x - CANVAS_WIDTH / 2) * 0.2;
-    const y = -(pixel.y - CANVAS_HEIGHT / 2) * 0.2; // Flip Y for canvas coords
-    const z = (Math.random() - 0.5) * 2; // Slight depth
-    
-    points.push(createPoint(x, y, z, colorBase));
+  const cutoff = threshold * 255;
+  const lit = new Uint8Array(width * height);
+  for (let i = 0; i < lit.length; i++) {
+    const alpha = data[i * 4 + 3];
+    if (alpha === 0) continue; // Letterbox / fully transparent
+    const value = mode === 'alpha' ? alpha : luminanceAt(data, i) * (alpha / 255);
+    if (invert ? value < cutoff : value > cutoff) lit[i] = 1;
   }
 
-  return points;
+  const unit = 0.2 / IMAGE_SAMPLE_SCALE; // Same world size per canvas pixel as text
+  return sampleMask({ width, height, lit }, count).map((p) => {
+    const i = Math.floor(p.y) * width + Math.floor(p.x);
+    const z = extrude > 0
+      ? (luminanceAt(data, i) / 255 - 0.5) * extrude + (Math.random() - 0.5) * 0.3
+      : (Math.random() - 0.5) * 2;
+    const color: RGB = keepColors ? [data[i * 4] / 255, data[i * 4 + 1] / 255, data[i * 4 + 2] / 255] : colorBase;
+    return createPoint((p.x - width / 2) * unit, -(p.y - height / 2) * unit, z, color);
+  });
 };
 
-// Returns points for the current stage
-export const getPointsForStage = (stage: string): ParticlePoint[] => {
-  switch (stage) {
-    case 'TREE':
-      return generateTreePoints();
-    case '5':
-    case '4':
-    case '3':
-    case '2':
-    case '1':
-      return generateTextPoints(stage, [0.4, 0.6, 1.0]); // Blue-ish
-    case 'HAPPY_NEW_YEAR':
-      return generateTextPoints('新年快乐', [1, 0.8, 0.2]); // Gold
+// Returns points for a show stage
+export const getPointsForStage = async (stage: ShowStage, count = DEFAULT_PARTICLE_COUNT): Promise<ParticlePoint[]> => {
+  const primary = stage.colors[0] ?? [1, 1, 1];
+  const { shape } = stage;
+
+  switch (shape.type) {
+    case 'tree':
+      return generateTreePoints(stage.colors, count);
+    case 'text':
+      await loadTextFont(shape.font ?? 'Arial', shape.weight ?? 700, shape.fontUrl);
+      return generateTextPoints(shape.text, primary, count, shape, stage.colors[1]);
+    case 'image':
+      return generateImagePoints(shape.src, primary, shape, count);
+    case 'shape':
+      return generateShapePoints(shape.name, stage.colors, shape.params, count);
     default:
-      return generateTreePoints();
+      return generateTreePoints(undefined, count);
   }
 };
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { RGB } from '../types';
+import {
+  listShapes,
+  getShape,
+  registerShape,
+  checkShapeParams,
+  getDefaultShapeParams,
+  generateShapePoints
+} from './shapeRegistry';
+
+const A: RGB = [0, 0, 1];
+const B: RGB = [1, 1, 0];
+
+describe('built-in shapes', () => {
+  it('registers the whole library', () => {
+    expect(listShapes().map((s) => s.name)).toEqual([
+      'sphere', 'torus', 'heart', 'star', 'clock', 'champagne', 'gift', 'snowflake', 'horse',
+    ]);
+  });
+
+  it.each(listShapes().map((s) => s.name))('%s gives exactly the requested points inside the frame', (name) => {
+    const points = generateShapePoints(name, [A, B], {}, 1200);
+    expect(points).toHaveLength(1200);
+    for (const p of points) {
+      expect(Math.max(Math.abs(p.x), Math.abs(p.y), Math.abs(p.z))).toBeLessThanOrEqual(15);
+      expect([A, B]).toContain(p.color);
+    }
+  });
+
+  it('keeps every default inside its own range', () => {
+    for (const definition of listShapes()) {
+      expect(checkShapeParams(definition, getDefaultShapeParams(definition))).toEqual([]);
+    }
+  });
+
+  it('sets the clock hands to the given time', () => {
+    const hands = (hour: number, minute: number) =>
+      generateShapePoints('clock', [A, B], { hour, minute }, 4000).filter((p) => p.color === B && Math.hypot(p.x, p.y) > 1.5);
+    // 3:00: hour hand to the right, minute hand straight up
+    const three = hands(3, 0);
+    expect(three.every((p) => (p.x > 0 && Math.abs(p.y) < 0.6) || (p.y > 0 && Math.abs(p.x) < 0.6))).toBe(true);
+    // Midnight (the default): both hands up
+    expect(hands(0, 0).every((p) => p.y > 0 && Math.abs(p.x) < 0.6)).toBe(true);
+  });
+
+  it('fills the champagne glass to the given level', () => {
+    const wine = (fill: number) => generateShapePoints('champagne', [A, B], { fill }, 4000).filter((p) => p.color === B);
+    expect(wine(0)).toHaveLength(0);
+    expect(wine(0.8).length).toBeGreaterThan(wine(0.3).length);
+    expect(Math.max(...wine(0.3).map((p) => p.y))).toBeLessThanOrEqual(2 + 1e-9);
+  });
+
+  it('wraps the gift in ribbon only when it has one', () => {
+    expect(generateShapePoints('gift', [A, B], { ribbon: 0 }, 1000).every((p) => p.color === A)).toBe(true);
+    expect(generateShapePoints('gift', [A, B], { ribbon: 0.3 }, 1000).some((p) => p.color === B)).toBe(true);
+  });
+
+  it('scales with its size parameter', () => {
+    const extent = (radius: number) => Math.max(...generateShapePoints('star', [A], { radius }, 800).map((p) => Math.hypot(p.x, p.y)));
+    expect(extent(5)).toBeLessThanOrEqual(5);
+    expect(extent(12)).toBeGreaterThan(10);
+  });
+});
+
+describe('shape registry', () => {
+  it('falls back to the sphere for unknown names', () => {
+    const points = generateShapePoints('dragon', [A], {}, 100);
+    expect(points).toHaveLength(100);
+    expect(points.every((p) => Math.abs(Math.hypot(p.x, p.y, p.z) - 9) < 1e-9)).toBe(true);
+  });
+
+  it('reports unknown and out-of-range params', () => {
+    const clock = getShape('clock')!;
+    expect(checkShapeParams(clock, { hour: 23, minute: 30 })).toEqual([]);
+    expect(checkShapeParams(clock, { hour: 25, seconds: 3 })).toEqual([
+      'hour: expected 0 to 23 but got 25',
+      'seconds: "clock" has no parameter "seconds" (available: hour, minute, radius)',
+    ]);
+  });
+
+  it('refuses a second shape under the same name', () => {
+    expect(() => registerShape({ ...getShape('heart')! })).toThrow('already registered');
+  });
+
+  it('accepts new shapes with their own params', () => {
+    registerShape({
+      name: 'test-line',
+      label: 'Line',
+      params: { length: { default: 4, min: 1, max: 10, step: 1 } },
+      generate: (colors, { length }, count) =>
+        Array.from({ length: count }, (_, i) => ({ x: (i / count) * length, y: 0, z: 0, color: colors[0] })),
+    });
+    expect(getShape('test-line')?.label).toBe('Line');
+    expect(Math.max(...generateShapePoints('test-line', [A], {}, 10).map((p) => p.x))).toBeCloseTo(3.6);
+  });
+});
@@ -0,0 +1,70 @@
+import { ParticlePoint, RGB } from '../types';
+import { BUILTIN_SHAPES } from './proceduralShapes';
+
+// Procedural shapes addressable from show scripts as { type: 'shape', name, params }.
+// Each shape declares its numeric parameters so scripts can be checked and the
+// panel can build sliders for them.
+
+export interface ShapeParamSpec {
+  default: number;
+  min: number;
+  max: number;
+  step: number;
+}
+
+export interface ShapeDefinition<P extends string = string> {
+  name: string;
+  label: string;
+  params: Record<P, ShapeParamSpec>;
+  // Palette as in the stage's colors; count is exact. Declared as a method so a shape with
+  // its own param names still fits ShapeDefinition<string>: it's only ever called with every param filled in
+  generate(colors: RGB[], params: Record<P, number>, count: number): ParticlePoint[];
+}
+
+const registry = new Map<string, ShapeDefinition>();
+
+export const registerShape = <P extends string>(definition: ShapeDefinition<P>): void => {
+  if (registry.has(definition.name)) throw new Error(`Shape "${definition.name}" is already registered`);
+  registry.set(definition.name, definition);
+};
+
+export const getShape = (name: string): ShapeDefinition | undefined => registry.get(name);
+
+// In registration order
+export const listShapes = (): ShapeDefinition[] => Array.from(registry.values());
+
+export const getDefaultShapeParams = (definition: ShapeDefinition): Record<string, number> =>
+  Object.fromEntries(Object.entries(definition.params).map(([key, spec]) => [key, spec.default]));
+
+/**
+ * Problems with a script's params for a shape, one message per parameter
+ */
+export const checkShapeParams = (definition: ShapeDefinition, params: Record<string, number>): string[] => {
+  const issues: string[] = [];
+  for (const [key, value] of Object.entries(params)) {
+    const spec = definition.params[key];
+    if (!spec) {
+      const known = Object.keys(definition.params);
+      issues.push(`${key}: "${definition.name}" has no parameter "${key}" (available: ${known.length ? known.join(', ') : 'none'})`);
+    } else if (value < spec.min || value > spec.max) {
+      issues.push(`${key}: expected ${spec.min} to ${spec.max} but got ${value}`);
+    }
+  }
+  return issues;
+};
+
+/**
+ * Points for a registered shape, with missing params at their defaults.
+ * Unknown names fall back to the sphere
+ */
+export const generateShapePoints = (
+  name: string,
+  colors: RGB[],
+  params: Record<string, number> = {},
+  count: number
+): ParticlePoint[] => {
+  const definition = registry.get(name) ?? registry.get('sphere')!;
+  return definition.generate(colors, { ...getDefaultShapeParams(definition), ...params }, count);
+};
+
+BUILTIN_SHAPES.forEach(registerShape);
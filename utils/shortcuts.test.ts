@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { getShortcut } from './shortcuts';
+
+describe('getShortcut', () => {
+  it('maps stage keys, clicker keys and letters to their actions', () => {
+    expect(getShortcut({ key: 'ArrowRight' })).toEqual({ type: 'action', action: 'NEXT' });
+    expect(getShortcut({ key: 'PageDown' })).toEqual({ type: 'action', action: 'NEXT' });
+    expect(getShortcut({ key: 'PageUp' })).toEqual({ type: 'action', action: 'PREVIOUS' });
+    expect(getShortcut({ key: 'r' })).toEqual({ type: 'action', action: 'RESET' });
+    expect(getShortcut({ key: 'X' })).toEqual({ type: 'action', action: 'FIREWORKS' });
+    expect(getShortcut({ key: 'f' })).toEqual({ type: 'fullscreen' });
+    expect(getShortcut({ key: 'H' })).toEqual({ type: 'togglePanel' });
+    expect(getShortcut({ key: 'q' })).toBeNull();
+  });
+
+  it('leaves modified and held keys alone', () => {
+    expect(getShortcut({ key: 'r', ctrlKey: true })).toBeNull();
+    expect(getShortcut({ key: 'f', metaKey: true })).toBeNull();
+    expect(getShortcut({ key: 'ArrowRight', altKey: true })).toBeNull();
+    expect(getShortcut({ key: 'ArrowRight', repeat: true })).toBeNull();
+  });
+
+  it('ignores keys typed into form fields', () => {
+    const field = (tagName: string, isContentEditable = false) => ({ tagName, isContentEditable }) as unknown as EventTarget;
+    expect(getShortcut({ key: 'r', target: field('INPUT') })).toBeNull();
+    expect(getShortcut({ key: 'ArrowLeft', target: field('SELECT') })).toBeNull();
+    expect(getShortcut({ key: 'h', target: field('TEXTAREA') })).toBeNull();
+    expect(getShortcut({ key: 'x', target: field('DIV', true) })).toBeNull();
+    expect(getShortcut({ key: 'x', target: field('BUTTON') })).toEqual({ type: 'action', action: 'FIREWORKS' });
+  });
+});
@@ -0,0 +1,47 @@
+import { GestureAction } from '../types';
+
+// Global keyboard shortcuts. Stage keys run the same actions as the panel
+// buttons; the rest belong to the window itself. Arrow and Page keys cover
+// presentation clickers, which send PageDown / PageUp.
+
+export type ShortcutAction =
+  | { type: 'action'; action: GestureAction }
+  | { type: 'fullscreen' }
+  | { type: 'togglePanel' };
+
+export const SHORTCUTS: { keys: string[]; shortcut: ShortcutAction }[] = [
+  { keys: ['ArrowRight', 'PageDown'], shortcut: { type: 'action', action: 'NEXT' } },
+  { keys: ['ArrowLeft', 'PageUp'], shortcut: { type: 'action', action: 'PREVIOUS' } },
+  { keys: ['r'], shortcut: { type: 'action', action: 'RESET' } },
+  { keys: ['x'], shortcut: { type: 'action', action: 'FIREWORKS' } },
+  { keys: ['f'], shortcut: { type: 'fullscreen' } },
+  { keys: ['h'], shortcut: { type: 'togglePanel' } },
+];
+
+// The parts of a KeyboardEvent that matter here
+export interface ShortcutKeyEvent {
+  key: string;
+  ctrlKey?: boolean;
+  metaKey?: boolean;
+  altKey?: boolean;
+  repeat?: boolean;
+  target?: EventTarget | null;
+}
+
+const TYPING_TAGS = ['INPUT', 'TEXTAREA', 'SELECT'];
+
+// Keys typed into a form field are text, not commands
+const isTypingTarget = (target: EventTarget | null | undefined): boolean => {
+  const element = target as { tagName?: string; isContentEditable?: boolean } | null | undefined;
+  return !!element && (TYPING_TAGS.includes(element.tagName ?? '') || !!element.isContentEditable);
+};
+
+/**
+ * The shortcut a key press asks for, or null. Modified keys are left to the
+ * browser (Ctrl+R still reloads) and held keys don't repeat the action
+ */
+export const getShortcut = (event: ShortcutKeyEvent): ShortcutAction | null => {
+  if (event.ctrlKey || event.metaKey || event.altKey || event.repeat || isTypingTarget(event.target)) return null;
+  const key = event.key.length === 1 ? event.key.toLowerCase() : event.key;
+  return SHORTCUTS.find((entry) => entry.keys.includes(key))?.shortcut ?? null;
+};
@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import { ShowScriptError, validateShowScript, serializeShowScript, parseHexColor, DEFAULT_SHOW } from './showScript';
+import { DEFAULT_TRANSITION, MIN_TRANSITION_MS, MAX_TRANSITION_MS } from './transitions';
+
+// A one-stage script with the stage's fields replaced
+const withStage = (stage: Record<string, unknown>) => ({
+  name: 'Test',
+  stages: [{ id: 'a', shape: { type: 'tree' }, ...stage }],
+});
+
+// The issues a script is rejected with, or [] if it validates
+const issuesOf = (data: unknown): string[] => {
+  try {
+    validateShowScript(data);
+    return [];
+  } catch (e) {
+    if (!(e instanceof ShowScriptError)) throw e;
+    return e.issues;
+  }
+};
+
+describe('validateShowScript', () => {
+  it('accepts the default show and its own serialized form', () => {
+    expect(validateShowScript(serializeShowScript(DEFAULT_SHOW))).toEqual(DEFAULT_SHOW);
+  });
+
+  it('fills in stage defaults', () => {
+    expect(validateShowScript({ stages: [{ id: 'a', shape: { type: 'tree' } }] })).toEqual({
+      name: 'Untitled Show',
+      stages: [{
+        id: 'a',
+        shape: { type: 'tree' },
+        colors: [[1, 1, 1]],
+        watermark: 'a',
+        durationMs: 1000,
+        advance: 'gesture',
+        fireworks: false,
+      }],
+    });
+  });
+
+  it('rejects a script without stages', () => {
+    expect(issuesOf('stages')).toEqual(['(root): expected a JSON object with "name" and "stages"']);
+    expect(issuesOf({ name: 7, stages: [] })).toEqual(['name: expected a string', 'stages: expected a non-empty array of stages']);
+  });
+
+  describe('stage ids', () => {
+    it('rejects missing and empty ids', () => {
+      expect(issuesOf(withStage({ id: undefined }))).toEqual(['stages[0].id: every stage needs a non-empty string id']);
+      expect(issuesOf(withStage({ id: '' }))).toEqual(['stages[0].id: every stage needs a non-empty string id']);
+      expect(issuesOf(withStage({ id: 3 }))).toEqual(['stages[0].id: every stage needs a non-empty string id']);
+    });
+
+    it('rejects duplicate ids at the repeat', () => {
+      const issues = issuesOf({
+        stages: [
+          { id: 'a', shape: { type: 'tree' } },
+          { id: 'b', shape: { type: 'tree' } },
+          { id: 'a', shape: { type: 'tree' } },
+        ],
+      });
+      expect(issues).toEqual(['stages[2].id: duplicate id "a"']);
+    });
+  });
+
+  describe('shapes', () => {
+    it('rejects a missing shape or an unknown type', () => {
+      expect(issuesOf(withStage({ shape: undefined }))).toEqual([
+        'stages[0].shape: expected an object like { "type": "text", "text": "5" }',
+      ]);
+      expect(issuesOf(withStage({ shape: { type: 'cube' } }))).toEqual([
+        'stages[0].shape.type: expected one of "text", "tree", "image", "shape" but got "cube"',
+      ]);
+    });
+
+    it('lists every problem with a text shape', () => {
+      expect(issuesOf(withStage({ shape: { type: 'text', text: '', direction: 'up', fontUrl: 'f.woff2', weight: 50, maxLines: 0 } }))).toEqual([
+        'stages[0].shape.text: text shapes need a non-empty "text" string',
+        'stages[0].shape.direction: expected "ltr" or "rtl" but got "up"',
+        'stages[0].shape.fontUrl: needs a "font" family name to register the font under',
+        'stages[0].shape.weight: expected a number from 100 to 900',
+        'stages[0].shape.maxLines: expected a whole number >= 1',
+      ]);
+    });
+
+    it('lists every problem with an image shape', () => {
+      expect(issuesOf(withStage({ shape: { type: 'image', sampling: 'edges', threshold: 2, invert: 'yes' } }))).toEqual([
+        'stages[0].shape.src: image shapes need a "src" URL',
+        'stages[0].shape.sampling: expected one of "auto", "alpha", "luminance"',
+        'stages[0].shape.threshold: expected a number from 0 to 1',
+        'stages[0].shape.invert: expected true or false',
+      ]);
+    });
+
+    it('rejects unknown procedural shapes and bad params', () => {
+      expect(issuesOf(withStage({ shape: { type: 'shape', name: 'blob' } }))[0]).toMatch(
+        /^stages\[0\]\.shape\.name: unknown procedural shape "blob" \(available: .*heart/
+      );
+      expect(issuesOf(withStage({ shape: { type: 'shape', name: 'heart', params: { size: 'big' } } }))).toEqual([
+        'stages[0].shape.params.size: expected a number',
+      ]);
+      expect(issuesOf(withStage({ shape: { type: 'shape', name: 'heart', params: { size: 99 } } }))).toEqual([
+        'stages[0].shape.params.size: expected 3 to 14 but got 99',
+      ]);
+    });
+  });
+
+  describe('transitions', () => {
+    it('takes missing fields from the default morph', () => {
+      const script = validateShowScript(withStage({ transition: { effect: 'vortex' } }));
+      expect(script.stages[0].transition).toEqual({ ...DEFAULT_TRANSITION, effect: 'vortex' });
+    });
+
+    it('rejects a transition that is not an object', () => {
+      expect(issuesOf(withStage({ transition: 'vortex' }))).toEqual([
+        'stages[0].transition: expected an object like { "effect": "vortex", "durationMs": 1500 }',
+      ]);
+    });
+
+    it('rejects unknown effects and easings and out-of-range durations', () => {
+      expect(issuesOf(withStage({ transition: { effect: 'teleport', easing: 'bounce', durationMs: MAX_TRANSITION_MS + 1 } }))).toEqual([
+        'stages[0].transition.effect: expected one of "morph", "explode", "vortex", "wipe", "stagger", "implode"',
+        'stages[0].transition.easing: expected one of "linear", "easeIn", "easeOut", "easeInOut"',
+        `stages[0].transition.durationMs: expected ${MIN_TRANSITION_MS} to ${MAX_TRANSITION_MS} milliseconds`,
+      ]);
+      expect(issuesOf(withStage({ transition: { durationMs: MIN_TRANSITION_MS - 1 } }))).toHaveLength(1);
+    });
+  });
+
+  it('rejects bad colors, timing and flags on a stage', () => {
+    expect(issuesOf(withStage({ colors: ['#fff', 'gold'], durationMs: 0, fireworks: 'yes', advance: 'clap' }))).toEqual([
+      'stages[0].colors[1]: "gold" is not a hex color',
+      'stages[0].durationMs: expected a positive number of milliseconds',
+      'stages[0].fireworks: expected true or false',
+      'stages[0].advance: expected one of "gesture", "timer", "manual"',
+    ]);
+    expect(issuesOf(withStage({ advance: 'timer' }))).toEqual(['stages[0].durationMs: "timer" stages need a duration']);
+  });
+
+  it('reports problems in every stage, not just the first', () => {
+    const issues = issuesOf({
+      stages: [
+        { id: 'a', shape: { type: 'cube' } },
+        { id: 'b', shape: { type: 'tree' } },
+        { id: 'c', shape: { type: 'tree' }, transition: { effect: 'teleport' } },
+      ],
+    });
+    expect(issues.map((issue) => issue.split(':')[0])).toEqual(['stages[0].shape.type', 'stages[2].transition.effect']);
+  });
+});
+
+describe('parseHexColor', () => {
+  it('reads short and long hex and nothing else', () => {
+    expect(parseHexColor('#fff')).toEqual([1, 1, 1]);
+    expect(parseHexColor(' #FF0000 ')).toEqual([1, 0, 0]);
+    expect(parseHexColor('#ff00')).toBeNull();
+    expect(parseHexColor('red')).toBeNull();
+  });
+});
@@ -0,0 +1,311 @@
+import { ShowScript, ShowStage, ShapeSource, AdvanceTrigger, RGB, ImageSampling, StageTransition, TransitionEffect, TransitionEasing } from '../types';
+import { getShape, listShapes, checkShapeParams } from './shapeRegistry';
+import { TRANSITION_EFFECTS, TRANSITION_EASINGS, DEFAULT_TRANSITION, MIN_TRANSITION_MS, MAX_TRANSITION_MS } from './transitions';
+import defaultShowJson from '../shows/default.json';
+
+const ADVANCE_TRIGGERS: AdvanceTrigger[] = ['gesture', 'timer', 'manual'];
+const IMAGE_SAMPLING: ImageSampling[] = ['auto', 'alpha', 'luminance'];
+const DEFAULT_DURATION_MS = 1000;
+
+/**
+ * Thrown when a show script doesn't validate. `issues` holds one
+ * human-readable line per problem, prefixed with where it was found.
+ */
+export class ShowScriptError extends Error {
+  public readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid show script:\n${issues.join('\n')}`);
+    this.name = 'ShowScriptError';
+    this.issues = issues;
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * "#rgb" / "#rrggbb" -> RGB 0-1. Returns null if it isn't a hex color.
+ */
+export const parseHexColor = (value: string): RGB | null => {
+  const match = value.trim().match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (!match) return null;
+  let hex = match[1];
+  if (hex.length === 3) hex = hex.split('').map((c) => c + c).join('');
+  return [0, 2, 4].map((i) => parseInt(hex.slice(i, i + 2), 16) / 255) as RGB;
+};
+
+// RGB 0-1 -> "#rrggbb", the inverse of parseHexColor
+export const toHexColor = (rgb: RGB): string =>
+  `#${rgb.map((c) => Math.round(Math.min(1, Math.max(0, c)) * 255).toString(16).padStart(2, '0')).join('')}`;
+
+const validateShape = (value: unknown, path: string, issues: string[]): ShapeSource | null => {
+  if (!isObject(value)) {
+    issues.push(`${path}: expected an object like { "type": "text", "text": "5" }`);
+    return null;
+  }
+
+  switch (value.type) {
+    case 'tree':
+      return { type: 'tree' };
+    case 'text': {
+      const before = issues.length;
+      if (typeof value.text !== 'string' || value.text.length === 0) {
+        issues.push(`${path}.text: text shapes need a non-empty "text" string`);
+      }
+      if (value.direction !== undefined && value.direction !== 'ltr' && value.direction !== 'rtl') {
+        issues.push(`${path}.direction: expected "ltr" or "rtl" but got ${JSON.stringify(value.direction)}`);
+      }
+      for (const key of ['font', 'fontUrl'] as const) {
+        if (value[key] !== undefined && (typeof value[key] !== 'string' || value[key].length === 0)) {
+          issues.push(`${path}.${key}: expected a non-empty string`);
+        }
+      }
+      if (value.fontUrl !== undefined && value.font === undefined) {
+        issues.push(`${path}.fontUrl: needs a "font" family name to register the font under`);
+      }
+      if (value.weight !== undefined && (typeof value.weight !== 'number' || value.weight < 100 || value.weight > 900)) {
+        issues.push(`${path}.weight: expected a number from 100 to 900`);
+      }
+      if (value.maxLines !== undefined && (!Number.isInteger(value.maxLines) || (value.maxLines as number) < 1)) {
+        issues.push(`${path}.maxLines: expected a whole number >= 1`);
+      }
+      if (value.extrude !== undefined && (typeof value.extrude !== 'number' || value.extrude < 0)) {
+        issues.push(`${path}.extrude: expected a number >= 0`);
+      }
+      if (value.edges !== undefined && typeof value.edges !== 'boolean') {
+        issues.push(`${path}.edges: expected true or false`);
+      }
+      if (issues.length > before) return null;
+      return {
+        type: 'text',
+        text: value.text as string,
+        direction: value.direction as 'ltr' | 'rtl' | undefined,
+        font: value.font as string | undefined,
+        fontUrl: value.fontUrl as string | undefined,
+        weight: value.weight as number | undefined,
+        maxLines: value.maxLines as number | undefined,
+        extrude: value.extrude as number | undefined,
+        edges: value.edges as boolean | undefined,
+      };
+    }
+    case 'image': {
+      const before = issues.length;
+      if (typeof value.src !== 'string' || value.src.length === 0) {
+        issues.push(`${path}.src: image shapes need a "src" URL`);
+      }
+      if (value.sampling !== undefined && !IMAGE_SAMPLING.includes(value.sampling as ImageSampling)) {
+        issues.push(`${path}.sampling: expected one of ${IMAGE_SAMPLING.map((m) => `"${m}"`).join(', ')}`);
+      }
+      if (value.threshold !== undefined && (typeof value.threshold !== 'number' || value.threshold < 0 || value.threshold > 1)) {
+        issues.push(`${path}.threshold: expected a number from 0 to 1`);
+      }
+      if (value.extrude !== undefined && (typeof value.extrude !== 'number' || value.extrude < 0)) {
+        issues.push(`${path}.extrude: expected a number >= 0`);
+      }
+      for (const flag of ['invert', 'keepColors'] as const) {
+        if (value[flag] !== undefined && typeof value[flag] !== 'boolean') {
+          issues.push(`${path}.${flag}: expected true or false`);
+        }
+      }
+      if (issues.length > before) return null;
+      return {
+        type: 'image',
+        src: value.src as string,
+        sampling: value.sampling as ImageSampling | undefined,
+        threshold: value.threshold as number | undefined,
+        invert: value.invert as boolean | undefined,
+        keepColors: value.keepColors as boolean | undefined,
+        extrude: value.extrude as number | undefined,
+      };
+    }
+    case 'shape': {
+      const definition = typeof value.name === 'string' ? getShape(value.name) : undefined;
+      if (!definition) {
+        issues.push(`${path}.name: unknown procedural shape ${JSON.stringify(value.name)} (available: ${listShapes().map((s) => s.name).join(', ')})`);
+        return null;
+      }
+      const params: Record<string, number> = {};
+      if (value.params !== undefined) {
+        if (!isObject(value.params)) {
+          issues.push(`${path}.params: expected an object of numbers`);
+          return null;
+        }
+        for (const [key, param] of Object.entries(value.params)) {
+          if (typeof param !== 'number' || !Number.isFinite(param)) {
+            issues.push(`${path}.params.${key}: expected a number`);
+            return null;
+          }
+          params[key] = param;
+        }
+      }
+      const paramIssues = checkShapeParams(definition, params);
+      if (paramIssues.length > 0) {
+        issues.push(...paramIssues.map((issue) => `${path}.params.${issue}`));
+        return null;
+      }
+      return { type: 'shape', name: definition.name, params };
+    }
+    default:
+      issues.push(`${path}.type: expected one of "text", "tree", "image", "shape" but got ${JSON.stringify(value.type)}`);
+      return null;
+  }
+};
+
+// Every field is optional; missing ones take the default morph's
+const validateTransition = (value: unknown, path: string, issues: string[]): StageTransition | null => {
+  if (!isObject(value)) {
+    issues.push(`${path}: expected an object like { "effect": "vortex", "durationMs": 1500 }`);
+    return null;
+  }
+  const before = issues.length;
+  const { effect = DEFAULT_TRANSITION.effect, easing = DEFAULT_TRANSITION.easing, durationMs = DEFAULT_TRANSITION.durationMs } = value;
+  if (!TRANSITION_EFFECTS.includes(effect as TransitionEffect)) {
+    issues.push(`${path}.effect: expected one of ${TRANSITION_EFFECTS.map((e) => `"${e}"`).join(', ')}`);
+  }
+  if (!TRANSITION_EASINGS.includes(easing as TransitionEasing)) {
+    issues.push(`${path}.easing: expected one of ${TRANSITION_EASINGS.map((e) => `"${e}"`).join(', ')}`);
+  }
+  if (typeof durationMs !== 'number' || !(durationMs >= MIN_TRANSITION_MS && durationMs <= MAX_TRANSITION_MS)) {
+    issues.push(`${path}.durationMs: expected ${MIN_TRANSITION_MS} to ${MAX_TRANSITION_MS} milliseconds`);
+  }
+  if (issues.length > before) return null;
+  return { effect: effect as TransitionEffect, durationMs: durationMs as number, easing: easing as TransitionEasing };
+};
+
+const validateStage = (value: unknown, path: string, issues: string[]): ShowStage | null => {
+  if (!isObject(value)) {
+    issues.push(`${path}: expected a stage object`);
+    return null;
+  }
+  const before = issues.length;
+
+  if (typeof value.id !== 'string' || value.id.length === 0) {
+    issues.push(`${path}.id: every stage needs a non-empty string id`);
+  }
+  const id = String(value.id ?? '');
+
+  const shape = validateShape(value.shape, `${path}.shape`, issues);
+
+  const colors: RGB[] = [];
+  if (value.colors !== undefined) {
+    if (!Array.isArray(value.colors)) {
+      issues.push(`${path}.colors: expected an array of hex colors like ["#ffcc33"]`);
+    } else {
+      value.colors.forEach((c, i) => {
+        const rgb = typeof c === 'string' ? parseHexColor(c) : null;
+        if (!rgb) issues.push(`${path}.colors[${i}]: ${JSON.stringify(c)} is not a hex color`);
+        else colors.push(rgb);
+      });
+    }
+  }
+
+  if (value.watermark !== undefined && typeof value.watermark !== 'string') {
+    issues.push(`${path}.watermark: expected a string`);
+  }
+
+  if (value.durationMs !== undefined && (typeof value.durationMs !== 'number' || !(value.durationMs > 0))) {
+    issues.push(`${path}.durationMs: expected a positive number of milliseconds`);
+  }
+
+  if (value.fireworks !== undefined && typeof value.fireworks !== 'boolean') {
+    issues.push(`${path}.fireworks: expected true or false`);
+  }
+
+  const advance = value.advance ?? 'gesture';
+  if (!ADVANCE_TRIGGERS.includes(advance as AdvanceTrigger)) {
+    issues.push(`${path}.advance: expected one of ${ADVANCE_TRIGGERS.map((t) => `"${t}"`).join(', ')}`);
+  } else if (advance === 'timer' && value.durationMs === undefined) {
+    issues.push(`${path}.durationMs: "timer" stages need a duration`);
+  }
+
+  const transition = value.transition === undefined ? undefined : validateTransition(value.transition, `${path}.transition`, issues);
+
+  if (value.narration !== undefined && typeof value.narration !== 'string') {
+    issues.push(`${path}.narration: expected a string`);
+  }
+
+  if (issues.length > before || !shape) return null;
+
+  return {
+    id,
+    shape,
+    colors: colors.length > 0 ? colors : [[1, 1, 1]],
+    watermark: typeof value.watermark === 'string' ? value.watermark : id,
+    durationMs: (value.durationMs as number | undefined) ?? DEFAULT_DURATION_MS,
+    advance: advance as AdvanceTrigger,
+    fireworks: value.fireworks === true,
+    ...(transition ? { transition } : {}),
+    ...(typeof value.narration === 'string' ? { narration: value.narration } : {}),
+  };
+};
+
+/**
+ * Checks untrusted JSON and returns a fully populated ShowScript.
+ * Throws ShowScriptError listing every problem found.
+ */
+export const validateShowScript = (data: unknown): ShowScript => {
+  const issues: string[] = [];
+
+  if (!isObject(data)) {
+    throw new ShowScriptError(['(root): expected a JSON object with "name" and "stages"']);
+  }
+
+  if (data.name !== undefined && typeof data.name !== 'string') {
+    issues.push('name: expected a string');
+  }
+
+  if (!Array.isArray(data.stages) || data.stages.length === 0) {
+    issues.push('stages: expected a non-empty array of stages');
+    throw new ShowScriptError(issues);
+  }
+
+  const stages: ShowStage[] = [];
+  const seen = new Set<string>();
+  data.stages.forEach((raw, i) => {
+    const stage = validateStage(raw, `stages[${i}]`, issues);
+    if (!stage) return;
+    if (seen.has(stage.id)) {
+      issues.push(`stages[${i}].id: duplicate id "${stage.id}"`);
+      return;
+    }
+    seen.add(stage.id);
+    stages.push(stage);
+  });
+
+  if (issues.length > 0) throw new ShowScriptError(issues);
+
+  return {
+    name: typeof data.name === 'string' ? data.name : 'Untitled Show',
+    stages,
+  };
+};
+
+/**
+ * ShowScript -> the JSON form validateShowScript accepts (colors back to hex)
+ */
+export const serializeShowScript = (script: ShowScript): unknown => ({
+  name: script.name,
+  stages: script.stages.map((stage) => ({ ...stage, colors: stage.colors.map(toHexColor) })),
+});
+
+export const DEFAULT_SHOW: ShowScript = validateShowScript(defaultShowJson);
+
+const parseJson = (text: string, source: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch (e: any) {
+    throw new ShowScriptError([`${source}: not valid JSON (${e.message})`]);
+  }
+};
+
+export const loadShowScriptFromUrl = async (url: string): Promise<ShowScript> => {
+  const res = await fetch(url);
+  if (!res.ok) {
+    throw new ShowScriptError([`${url}: request failed with HTTP ${res.status}`]);
+  }
+  return validateShowScript(parseJson(await res.text(), url));
+};
+
+export const loadShowScriptFromFile = async (file: File): Promise<ShowScript> =>
+  validateShowScript(parseJson(await file.text(), file.name));
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { assignTargets } from './targetAssignment';
+
+// Deterministic scatter in a 20-unit cube
+const cloud = (count: number, seed = 1): Float32Array => {
+  let s = seed;
+  const next = () => ((s = (s * 16807) % 2147483647) / 2147483647 - 0.5) * 20;
+  return Float32Array.from({ length: count * 3 }, next);
+};
+
+const travel = (current: Float32Array, targets: Float32Array, assignment: ArrayLike<number>) => {
+  let total = 0;
+  for (let i = 0; i < assignment.length; i++) {
+    const j = assignment[i];
+    if (j < 0) continue;
+    total += Math.hypot(current[i * 3] - targets[j * 3], current[i * 3 + 1] - targets[j * 3 + 1], current[i * 3 + 2] - targets[j * 3 + 2]);
+  }
+  return total;
+};
+
+describe('assignTargets', () => {
+  it('gives every particle a different target', () => {
+    const assignment = assignTargets(cloud(500, 1), cloud(500, 2));
+    expect(new Set(assignment).size).toBe(500);
+    expect(Math.min(...assignment)).toBe(0);
+  });
+
+  it('travels far less than matching by index', () => {
+    const current = cloud(2000, 3);
+    const targets = cloud(2000, 4);
+    const naive = travel(current, targets, Array.from({ length: 2000 }, (_, i) => i));
+    expect(travel(current, targets, assignTargets(current, targets))).toBeLessThan(naive * 0.4);
+  });
+
+  it('keeps particles that are already in place', () => {
+    const current = cloud(300, 5);
+    // Same points, reversed
+    const targets = new Float32Array(current.length);
+    for (let i = 0; i < 300; i++) targets.set(current.subarray(i * 3, i * 3 + 3), (299 - i) * 3);
+    expect(travel(current, targets, assignTargets(current, targets))).toBeCloseTo(0);
+  });
+
+  it('leaves spare particles out, or spare targets unused', () => {
+    const fewer = assignTargets(cloud(400, 6), cloud(100, 7));
+    expect(fewer.filter((j) => j < 0)).toHaveLength(300);
+    expect(new Set(fewer.filter((j) => j >= 0)).size).toBe(100);
+
+    const more = assignTargets(cloud(100, 8), cloud(400, 9));
+    expect(more.every((j) => j >= 0)).toBe(true);
+    expect(new Set(more).size).toBe(100);
+  });
+
+  it('copes with nothing to assign', () => {
+    expect(Array.from(assignTargets(cloud(3), new Float32Array(0)))).toEqual([-1, -1, -1]);
+    expect(assignTargets(new Float32Array(0), cloud(3))).toHaveLength(0);
+  });
+});
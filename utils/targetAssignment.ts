@@ -0,0 +1,95 @@
+// Which target each particle flies to on a stage change. Handing particle i
+// point i sends particles across the whole shape; instead both sets are
+// ordered along a Z-order curve over their common bounds and matched by
+// rank, then nearby pairs swap targets wherever that shortens the trip.
+// Close to the least total travel without the cost of solving it exactly.
+
+const BITS = 10; // Per axis, so keys fit in 30 bits
+const WINDOW = 8; // Pairs this far apart in curve order are tried as swaps
+const PASSES = 2;
+
+// 10-bit integer -> its bits spaced out to every third position
+const spreadBits = (v: number): number => {
+  v = (v | (v << 16)) & 0x030000ff;
+  v = (v | (v << 8)) & 0x0300f00f;
+  v = (v | (v << 4)) & 0x030c30c3;
+  return (v | (v << 2)) & 0x09249249;
+};
+
+// Indexes of the points in `positions` (packed xyz), in curve order
+const curveOrder = (positions: ArrayLike<number>, count: number, min: number[], size: number[]): Uint32Array => {
+  const keys = new Uint32Array(count);
+  const max = (1 << BITS) - 1;
+  for (let i = 0; i < count; i++) {
+    let key = 0;
+    for (let k = 0; k < 3; k++) {
+      const cell = Math.min(max, Math.floor(((positions[i * 3 + k] - min[k]) / size[k]) * max));
+      key |= spreadBits(cell) << k;
+    }
+    keys[i] = key;
+  }
+  const order = new Uint32Array(count);
+  for (let i = 0; i < count; i++) order[i] = i;
+  return order.sort((a, b) => keys[a] - keys[b]);
+};
+
+const distanceSq = (a: ArrayLike<number>, i: number, b: ArrayLike<number>, j: number): number => {
+  const dx = a[i * 3] - b[j * 3];
+  const dy = a[i * 3 + 1] - b[j * 3 + 1];
+  const dz = a[i * 3 + 2] - b[j * 3 + 2];
+  return dx * dx + dy * dy + dz * dz;
+};
+
+/**
+ * Targets for particles at `current` (packed xyz). Returns, per particle,
+ * the index of its point in `targets`, or -1 when there are fewer points
+ * than particles. Surplus particles and surplus points are spread evenly
+ * through the shapes rather than taken off one end.
+ */
+export const assignTargets = (current: ArrayLike<number>, targets: ArrayLike<number>): Int32Array => {
+  const n = Math.floor(current.length / 3);
+  const m = Math.floor(targets.length / 3);
+  const assignment = new Int32Array(n).fill(-1);
+  const pairs = Math.min(n, m);
+  if (pairs === 0) return assignment;
+
+  const min = [Infinity, Infinity, Infinity];
+  const maxCorner = [-Infinity, -Infinity, -Infinity];
+  for (const [positions, count] of [[current, n], [targets, m]] as const) {
+    for (let i = 0; i < count; i++) {
+      for (let k = 0; k < 3; k++) {
+        const v = positions[i * 3 + k];
+        if (v < min[k]) min[k] = v;
+        if (v > maxCorner[k]) maxCorner[k] = v;
+      }
+    }
+  }
+  const size = min.map((lo, k) => Math.max(maxCorner[k] - lo, 1e-6));
+
+  const particleOrder = curveOrder(current, n, min, size);
+  const targetOrder = curveOrder(targets, m, min, size);
+  const particles = new Uint32Array(pairs);
+  const points = new Uint32Array(pairs);
+  for (let j = 0; j < pairs; j++) {
+    particles[j] = particleOrder[Math.floor((j * n) / pairs)];
+    points[j] = targetOrder[Math.floor((j * m) / pairs)];
+  }
+
+  // Neighbours on the curve are usually neighbours in space, so that's where swaps pay off
+  for (let pass = 0; pass < PASSES; pass++) {
+    for (let a = 0; a < pairs; a++) {
+      for (let b = a + 1; b < Math.min(pairs, a + 1 + WINDOW); b++) {
+        const now = distanceSq(current, particles[a], targets, points[a]) + distanceSq(current, particles[b], targets, points[b]);
+        const swapped = distanceSq(current, particles[a], targets, points[b]) + distanceSq(current, particles[b], targets, points[a]);
+        if (swapped < now) {
+          const point = points[a];
+          points[a] = points[b];
+          points[b] = point;
+        }
+      }
+    }
+  }
+
+  for (let j = 0; j < pairs; j++) assignment[particles[j]] = points[j];
+  return assignment;
+};
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { wrapText, layoutText, sampleMask, findEdges, quoteFamily, LINE_HEIGHT, REFERENCE_SIZE, TextMask } from './textSampler';
+
+// Every character is 60 units wide at the reference size
+const measure = (s: string) => s.length * 0.6 * REFERENCE_SIZE;
+
+// A w x h mask with a lit rectangle
+const rectMask = (w: number, h: number, x0: number, y0: number, x1: number, y1: number): TextMask => {
+  const lit = new Uint8Array(w * h);
+  for (let y = y0; y < y1; y++) for (let x = x0; x < x1; x++) lit[y * w + x] = 1;
+  return { width: w, height: h, lit };
+};
+
+// Small deterministic generator so sampling tests don't depend on luck
+const seeded = (seed: number) => () => {
+  seed = (seed * 1664525 + 1013904223) % 4294967296;
+  return seed / 4294967296;
+};
+
+describe('wrapText', () => {
+  it('breaks between words and drops the space at the break', () => {
+    expect(wrapText('Happy New Year', 600, measure)).toEqual(['Happy New', 'Year']);
+    expect(wrapText('Happy New Year', 10000, measure)).toEqual(['Happy New Year']);
+  });
+
+  it('always breaks at newlines', () => {
+    expect(wrapText('Happy\nNew Year', 10000, measure)).toEqual(['Happy', 'New Year']);
+  });
+
+  it('breaks Han and kana text between characters', () => {
+    expect(wrapText('明けましておめでとう', 300, measure)).toEqual(['明けまして', 'おめでとう']);
+  });
+
+  it('splits a word that is wider than a line', () => {
+    expect(wrapText('Congratulations', 300, measure)).toEqual(['Congr', 'atula', 'tions']);
+  });
+});
+
+describe('layoutText', () => {
+  const box = { maxWidth: 720, maxHeight: 400, maxLines: 2 };
+
+  it('finds the largest size that fits', () => {
+    const { lines, fontSize } = layoutText('2026', measure, box);
+    expect(lines).toEqual(['2026']);
+    expect(fontSize).toBe(300);
+    // One pixel more would overflow the width
+    expect(measure('2026') * (fontSize + 1) / REFERENCE_SIZE).toBeGreaterThan(720);
+  });
+
+  it('is capped by the height for short text', () => {
+    expect(layoutText('5', measure, box).fontSize).toBe(Math.floor(400 / LINE_HEIGHT));
+  });
+
+  it('uses more lines when that allows bigger text', () => {
+    expect(layoutText('Happy New Year', measure, box)).toEqual({ lines: ['Happy', 'New Year'], fontSize: 150 });
+    expect(layoutText('Happy New Year', measure, { ...box, maxLines: 1 })).toEqual({ lines: ['Happy New Year'], fontSize: 85 });
+  });
+
+  it('falls back to the minimum size when nothing fits', () => {
+    const { fontSize } = layoutText('a b c d e f', measure, { maxWidth: 10, maxHeight: 10, maxLines: 1, minFontSize: 8 });
+    expect(fontSize).toBe(8);
+  });
+});
+
+describe('sampleMask', () => {
+  it('returns exactly the requested count inside the lit area', () => {
+    const mask = rectMask(100, 50, 10, 10, 60, 40);
+    const points = sampleMask(mask, 700, null, seeded(1));
+    expect(points).toHaveLength(700);
+    for (const p of points) {
+      expect(p.x).toBeGreaterThanOrEqual(10);
+      expect(p.x).toBeLessThan(60);
+      expect(p.y).toBeGreaterThanOrEqual(10);
+      expect(p.y).toBeLessThan(40);
+    }
+  });
+
+  it('covers the area evenly', () => {
+    const points = sampleMask(rectMask(100, 100, 0, 0, 100, 100), 1000, null, seeded(2));
+    // 10x10 blocks of 10 pixels each hold about 10 points
+    const blocks = new Array(100).fill(0);
+    for (const p of points) blocks[Math.floor(p.y / 10) * 10 + Math.floor(p.x / 10)]++;
+    expect(Math.min(...blocks)).toBeGreaterThanOrEqual(6);
+    expect(Math.max(...blocks)).toBeLessThanOrEqual(14);
+  });
+
+  it('fills a tiny mask with distinct sub-pixel positions', () => {
+    const points = sampleMask(rectMask(4, 4, 1, 1, 2, 2), 50, null, seeded(3));
+    expect(points).toHaveLength(50);
+    expect(new Set(points.map((p) => `${p.x},${p.y}`)).size).toBe(50);
+    expect(points.every((p) => p.x >= 1 && p.x < 2 && p.y >= 1 && p.y < 2)).toBe(true);
+  });
+
+  it('returns nothing for an empty mask', () => {
+    expect(sampleMask(rectMask(10, 10, 0, 0, 0, 0), 100)).toEqual([]);
+  });
+
+  it('flags samples that land on edge pixels', () => {
+    const mask = rectMask(40, 40, 5, 5, 35, 35);
+    const points = sampleMask(mask, 900, findEdges(mask, 3), seeded(4));
+    for (const p of points) {
+      const border = Math.min(p.x - 5, 35 - p.x, p.y - 5, 35 - p.y);
+      expect(p.edge).toBe(border < 3);
+    }
+  });
+});
+
+describe('findEdges', () => {
+  it('marks lit pixels within the radius of the outside', () => {
+    const mask = rectMask(10, 10, 2, 2, 8, 8);
+    const edges = findEdges(mask, 2);
+    expect(edges[2 * 10 + 2]).toBe(1);
+    expect(edges[3 * 10 + 5]).toBe(1);
+    expect(edges[4 * 10 + 5]).toBe(0);
+    expect(edges[0]).toBe(0); // Unlit pixels are never edges
+  });
+});
+
+describe('quoteFamily', () => {
+  it('quotes multi-word families only', () => {
+    expect(quoteFamily('Arial')).toBe('Arial');
+    expect(quoteFamily('Noto Sans JP')).toBe('"Noto Sans JP"');
+    expect(quoteFamily('"Noto Sans JP", sans-serif')).toBe('"Noto Sans JP", sans-serif');
+  });
+});
@@ -0,0 +1,223 @@
+// Layout and sampling for text shapes, kept free of the canvas so they can be
+// tested on plain arrays. shapeGenerator draws the lines and hands the lit
+// pixels back here to be turned into evenly spread particle positions.
+
+export const LINE_HEIGHT = 1.15;     // Line pitch in em
+export const REFERENCE_SIZE = 100;   // Font size words are measured at; widths scale linearly from it
+const MIN_FONT_SIZE = 8;
+
+export interface TextLayout {
+  lines: string[];
+  fontSize: number;
+}
+
+export interface TextLayoutOptions {
+  maxWidth: number;
+  maxHeight: number;
+  maxLines: number;
+  minFontSize?: number;
+}
+
+// Han, kana and full-width forms: lines may break between any two of these
+const BREAK_ANYWHERE = /[⺀-鿿豈-﫿＀-￯]/;
+
+// Pieces a line may break after, each keeping its trailing space
+const tokenize = (paragraph: string): string[] =>
+  (paragraph.match(/\S+\s*|\s+/g) ?? []).flatMap((token) => (BREAK_ANYWHERE.test(token) ? Array.from(token) : [token]));
+
+/**
+ * Greedy wrap of each paragraph ("\n" always breaks) into lines no wider
+ * than `budget`, measured with `measure`. Words wider than a line on their
+ * own are split by character.
+ */
+export const wrapText = (text: string, budget: number, measure: (s: string) => number): string[] => {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const token of tokenize(paragraph)) {
+      const pieces = measure(token.trimEnd()) > budget ? Array.from(token) : [token];
+      for (const piece of pieces) {
+        if (line && measure((line + piece).trimEnd()) > budget) {
+          lines.push(line.trimEnd());
+          line = piece.trimStart();
+        } else {
+          line += piece;
+        }
+      }
+    }
+    lines.push(line.trimEnd());
+  }
+  return lines;
+};
+
+/**
+ * Largest font size at which the text, wrapped onto at most `maxLines`
+ * lines, fits the box. `measure` gives widths at REFERENCE_SIZE.
+ */
+export const layoutText = (
+  text: string,
+  measure: (s: string) => number,
+  { maxWidth, maxHeight, maxLines, minFontSize = MIN_FONT_SIZE }: TextLayoutOptions
+): TextLayout => {
+  const wrapAt = (size: number) => wrapText(text, (maxWidth * REFERENCE_SIZE) / size, measure);
+  const fits = (size: number) => {
+    const lines = wrapAt(size);
+    return (
+      lines.length <= maxLines &&
+      lines.length * size * LINE_HEIGHT <= maxHeight &&
+      lines.every((line) => (measure(line) * size) / REFERENCE_SIZE <= maxWidth)
+    );
+  };
+
+  // Fitting only gets easier as the size drops, so bisect
+  let low = minFontSize;
+  let high = Math.floor(maxHeight / LINE_HEIGHT);
+  if (!fits(low)) return { lines: wrapAt(low), fontSize: low };
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (fits(mid)) low = mid;
+    else high = mid - 1;
+  }
+  return { lines: wrapAt(low), fontSize: low };
+};
+
+export interface TextMask {
+  width: number;
+  height: number;
+  lit: Uint8Array; // 1 where a glyph was drawn, row-major
+}
+
+export interface SamplePoint {
+  x: number; // Canvas pixels, sub-pixel precision
+  y: number;
+  edge: boolean;
+}
+
+/**
+ * Marks lit pixels with an unlit pixel (or the canvas border) within
+ * `radius` in any of the eight directions
+ */
+export const findEdges = ({ width, height, lit }: TextMask, radius: number): Uint8Array => {
+  const edges = new Uint8Array(lit.length);
+  const r = Math.max(1, Math.round(radius));
+  const dirs = [[1, 0], [-1, 0], [0, 1], [0, -1], [1, 1], [1, -1], [-1, 1], [-1, -1]];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (!lit[i]) continue;
+      for (const [dx, dy] of dirs) {
+        const nx = x + dx * r;
+        const ny = y + dy * r;
+        if (nx < 0 || ny < 0 || nx >= width || ny >= height || !lit[ny * width + nx]) {
+          edges[i] = 1;
+          break;
+        }
+      }
+    }
+  }
+  return edges;
+};
+
+// More passes than this only happen for masks of a pixel or two
+const MAX_PASSES = 8;
+
+/**
+ * Exactly `count` positions spread evenly over the lit pixels: one jittered
+ * sample per grid cell, with the cell size chosen so the lit area holds about
+ * `count` cells. Extra passes top up a shortfall and surplus samples are
+ * dropped at random, so the spacing stays even whatever the canvas resolution.
+ */
+export const sampleMask = (
+  mask: TextMask,
+  count: number,
+  edges: Uint8Array | null = null,
+  random: () => number = Math.random
+): SamplePoint[] => {
+  const { width, height, lit } = mask;
+  let area = 0;
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!lit[y * width + x]) continue;
+      area++;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+  }
+  if (area === 0 || count <= 0) return [];
+
+  const cell = Math.sqrt(area / count);
+  const samples: SamplePoint[] = [];
+  for (let pass = 0; pass < MAX_PASSES && samples.length < count; pass++) {
+    for (let cy = minY; cy <= maxY + 1; cy += cell) {
+      for (let cx = minX; cx <= maxX + 1; cx += cell) {
+        const x = cx + random() * cell;
+        const y = cy + random() * cell;
+        const px = Math.floor(x);
+        const py = Math.floor(y);
+        if (px >= width || py >= height) continue;
+        const i = py * width + px;
+        if (lit[i]) samples.push({ x, y, edge: edges ? edges[i] === 1 : false });
+      }
+    }
+  }
+  // Still short (a speck of a mask): jitter inside random lit pixels
+  if (samples.length < count) {
+    const litPixels: number[] = [];
+    lit.forEach((v, i) => v && litPixels.push(i));
+    while (samples.length < count) {
+      const i = litPixels[Math.floor(random() * litPixels.length)];
+      samples.push({ x: (i % width) + random(), y: Math.floor(i / width) + random(), edge: edges ? edges[i] === 1 : false });
+    }
+  }
+
+  // Drop the surplus at random positions, keeping scan order for the rest
+  let surplus = samples.length - count;
+  if (surplus === 0) return samples;
+  const keep = new Uint8Array(samples.length).fill(1);
+  while (surplus > 0) {
+    const i = Math.floor(random() * samples.length);
+    if (keep[i]) {
+      keep[i] = 0;
+      surplus--;
+    }
+  }
+  return samples.filter((_, i) => keep[i]);
+};
+
+// Web fonts already registered, by URL, so each stage build doesn't fetch again
+const loadedFonts = new Map<string, Promise<void>>();
+
+/**
+ * Makes sure a font family is ready before text is drawn with it. With a URL
+ * the face is fetched and registered under `family` first; without one this
+ * waits for a family the page already declares (CSS @font-face, Google Fonts).
+ */
+export const loadTextFont = async (family: string, weight: number, url?: string): Promise<void> => {
+  if (typeof document === 'undefined' || !document.fonts) return;
+  if (url) {
+    const key = `${family}|${weight}|${url}`;
+    let pending = loadedFonts.get(key);
+    if (!pending) {
+      const face = new FontFace(family, `url(${JSON.stringify(url)})`, { weight: String(weight) });
+      pending = face.load().then(
+        (loaded) => {
+          document.fonts.add(loaded);
+        },
+        () => {
+          loadedFonts.delete(key);
+          throw new Error(`Could not load font: ${url.startsWith('data:') ? 'uploaded file' : url}`);
+        }
+      );
+      loadedFonts.set(key, pending);
+    }
+    await pending;
+  }
+  await document.fonts.load(`${weight} ${REFERENCE_SIZE}px ${quoteFamily(family)}`);
+};
+
+// CSS font shorthand needs multi-word families quoted; lists are passed through
+export const quoteFamily = (family: string): string =>
+  family.includes(',') || /^[\w-]+$/.test(family) || /^["']/.test(family) ? family : `"${family}"`;
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { StageTransition } from '../types';
+import { TRANSITION_EFFECTS, TRANSITION_EASINGS, ease, getParticleTime, sampleTransition } from './transitions';
+
+const START = [-8, 3, 1];
+const TARGET = [6, -2, 0];
+
+const at = (transition: StageTransition, t: number, random = 0.4, target = TARGET) => {
+  const out = [0, 0, 0];
+  const p = sampleTransition(transition, t, START, target, random, out);
+  return { out, p };
+};
+
+describe('easing', () => {
+  it.each(TRANSITION_EASINGS)('%s runs from 0 to 1 without going backwards', (easing) => {
+    expect(ease(easing, 0)).toBe(0);
+    expect(ease(easing, 1)).toBeCloseTo(1);
+    for (let t = 0; t < 1; t += 0.05) expect(ease(easing, t + 0.05)).toBeGreaterThanOrEqual(ease(easing, t));
+  });
+
+  it('front-loads easeOut and back-loads easeIn', () => {
+    expect(ease('easeOut', 0.3)).toBeGreaterThan(0.3);
+    expect(ease('easeIn', 0.3)).toBeLessThan(0.3);
+    expect(ease('easeInOut', 0.5)).toBeCloseTo(0.5);
+  });
+});
+
+describe('transitions', () => {
+  it.each(TRANSITION_EFFECTS)('%s starts at the start and lands on the target', (effect) => {
+    const transition: StageTransition = { effect, durationMs: 1000, easing: 'easeInOut' };
+    const first = at(transition, 0);
+    const last = at(transition, 1);
+    first.out.forEach((v, k) => expect(v).toBeCloseTo(START[k]));
+    last.out.forEach((v, k) => expect(v).toBeCloseTo(TARGET[k]));
+    expect(first.p).toBe(0);
+    expect(last.p).toBe(1);
+  });
+
+  it('moves continuously, so an interrupted transition never jumps', () => {
+    for (const effect of TRANSITION_EFFECTS) {
+      const transition: StageTransition = { effect, durationMs: 1000, easing: 'linear' };
+      for (let t = 0; t < 1; t += 0.01) {
+        const a = at(transition, t).out;
+        const b = at(transition, t + 0.01).out;
+        expect(Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2])).toBeLessThan(2.5);
+      }
+    }
+  });
+
+  it('throws particles outwards when exploding and through the center when imploding', () => {
+    const mid = (effect: StageTransition['effect']) => at({ effect, durationMs: 1000, easing: 'linear' }, 0.5).out;
+    const straight = mid('morph');
+    expect(Math.hypot(...mid('explode'))).toBeGreaterThan(Math.hypot(...straight) + 5);
+    expect(Math.hypot(...mid('implode'))).toBeLessThan(1.5);
+  });
+
+  it('wipes from left to right and staggers by seed', () => {
+    expect(getParticleTime('wipe', 0.3, 0.5, -25)).toBeGreaterThan(0);
+    expect(getParticleTime('wipe', 0.3, 0.5, 25)).toBe(0);
+    expect(getParticleTime('wipe', 1, 0.5, 25)).toBe(1);
+    expect(getParticleTime('stagger', 0.4, 0.1, 0)).toBeGreaterThan(getParticleTime('stagger', 0.4, 0.9, 0));
+    expect(getParticleTime('morph', 0.4, 0.9, 0)).toBe(0.4);
+  });
+});
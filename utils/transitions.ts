@@ -0,0 +1,168 @@
+import { ShowStage, StageTransition, TransitionEffect, TransitionEasing } from '../types';
+
+// Stage transitions. Time runs 0 -> 1 over the transition's duration (the
+// scene advances it by frame time, so it lasts as long at 144 Hz as at 60).
+// Each particle turns that into its own eased progress and a path from its
+// start to its target. The vertex shader does this every frame; the same math
+// runs here to freeze particles mid-flight when the next stage interrupts.
+// TRANSITION_GLSL must stay in step with the functions below.
+
+export const TRANSITION_EFFECTS: TransitionEffect[] = ['morph', 'explode', 'vortex', 'wipe', 'stagger', 'implode'];
+export const TRANSITION_EASINGS: TransitionEasing[] = ['linear', 'easeIn', 'easeOut', 'easeInOut'];
+
+export const DEFAULT_TRANSITION: StageTransition = { effect: 'morph', durationMs: 1200, easing: 'easeOut' };
+// The clock readout changes every second, so it gets a quicker plain morph
+export const LABEL_TRANSITION: StageTransition = { effect: 'morph', durationMs: 600, easing: 'easeOut' };
+
+export const MIN_TRANSITION_MS = 100;
+export const MAX_TRANSITION_MS = 10000;
+
+export const getStageTransition = (stage: ShowStage): StageTransition => stage.transition ?? DEFAULT_TRANSITION;
+
+// Wipe and stagger: how much of the duration the start times spread over
+const SPREAD = 0.6;
+// Wipe: scene x from which the sweep starts, and where it ends (shapes fit in about ±25)
+const WIPE_HALF_WIDTH = 25;
+const EXPLODE_DISTANCE = 12;
+const VORTEX_ANGLE = 2 * Math.PI;
+const IMPLODE_CORE = 1.5;
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+const fract = (v: number) => v - Math.floor(v);
+
+export const ease = (easing: TransitionEasing, t: number): number => {
+  switch (easing) {
+    case 'easeIn':
+      return t * t * t;
+    case 'easeOut':
+      return 1 - (1 - t) ** 3;
+    case 'easeInOut':
+      return t < 0.5 ? 4 * t * t * t : 1 - (2 - 2 * t) ** 3 / 2;
+    case 'linear':
+    default:
+      return t;
+  }
+};
+
+/**
+ * A particle's own progress at transition time `t`, before easing. Wipes
+ * start particles by their target's x, staggers by their random seed; both
+ * still finish at t = 1
+ */
+export const getParticleTime = (effect: TransitionEffect, t: number, random: number, targetX: number): number => {
+  let delay: number;
+  if (effect === 'wipe') delay = clamp01((targetX + WIPE_HALF_WIDTH) / (2 * WIPE_HALF_WIDTH)) * SPREAD;
+  else if (effect === 'stagger') delay = random * SPREAD;
+  else return clamp01(t);
+  return clamp01((t - delay) / (1 - SPREAD));
+};
+
+// Outwards from the center through the middle of the particle's path, jittered by its seed
+const burstDirection = (start: ArrayLike<number>, target: ArrayLike<number>, random: number): number[] => {
+  const v = [
+    start[0] + target[0] + random - 0.5,
+    start[1] + target[1] + fract(random * 7.31) - 0.5,
+    start[2] + target[2] + fract(random * 13.7) - 0.5,
+  ];
+  const length = Math.max(Math.hypot(v[0], v[1], v[2]), 0.001);
+  return v.map((c) => c / length);
+};
+
+/**
+ * Where a particle is at transition time `t`, written to `out`. Returns its
+ * eased progress, which is also how far its color has blended
+ */
+export const sampleTransition = (
+  transition: StageTransition,
+  t: number,
+  start: ArrayLike<number>,
+  target: ArrayLike<number>,
+  random: number,
+  out: number[]
+): number => {
+  const p = ease(transition.easing, getParticleTime(transition.effect, t, random, target[0]));
+  for (let k = 0; k < 3; k++) out[k] = start[k] + (target[k] - start[k]) * p;
+  const arc = Math.sin(Math.PI * p); // 0 at both ends, 1 halfway
+
+  switch (transition.effect) {
+    case 'explode': {
+      const [dx, dy, dz] = burstDirection(start, target, random);
+      const push = arc * EXPLODE_DISTANCE * (0.5 + random);
+      out[0] += dx * push;
+      out[1] += dy * push;
+      out[2] += dz * push;
+      break;
+    }
+    case 'vortex': {
+      // Drawn in while turning about the view axis, then back out onto the shape
+      const angle = arc * VORTEX_ANGLE * (0.75 + 0.5 * random);
+      const scale = 1 - 0.5 * arc;
+      const c = Math.cos(angle);
+      const s = Math.sin(angle);
+      const [x, y] = out;
+      out[0] = (x * c - y * s) * scale;
+      out[1] = (x * s + y * c) * scale;
+      break;
+    }
+    case 'implode': {
+      // Squeezed to a small ball at the center halfway through
+      const squeeze = Math.abs(1 - 2 * p);
+      const [dx, dy, dz] = burstDirection(start, target, random);
+      const core = (1 - squeeze) * IMPLODE_CORE * random;
+      out[0] = out[0] * squeeze + dx * core;
+      out[1] = out[1] * squeeze + dy * core;
+      out[2] = out[2] * squeeze + dz * core;
+      break;
+    }
+  }
+  return p;
+};
+
+// GLSL twin of the functions above. Expects uTransitionEffect / uTransitionEasing
+// to hold indexes into TRANSITION_EFFECTS / TRANSITION_EASINGS
+export const TRANSITION_GLSL = `
+  uniform float uTransitionEffect;
+  uniform float uTransitionEasing;
+
+  float transitionEase(float t) {
+    int easing = int(uTransitionEasing + 0.5);
+    if (easing == 1) return t * t * t;
+    if (easing == 2) return 1.0 - pow(1.0 - t, 3.0);
+    if (easing == 3) return t < 0.5 ? 4.0 * t * t * t : 1.0 - pow(2.0 - 2.0 * t, 3.0) / 2.0;
+    return t;
+  }
+
+  float particleTime(int effect, float t, float seed, float targetX) {
+    float delay;
+    if (effect == 3) delay = clamp((targetX + ${WIPE_HALF_WIDTH.toFixed(1)}) / ${(2 * WIPE_HALF_WIDTH).toFixed(1)}, 0.0, 1.0) * ${SPREAD};
+    else if (effect == 4) delay = seed * ${SPREAD};
+    else return clamp(t, 0.0, 1.0);
+    return clamp((t - delay) / ${(1 - SPREAD).toFixed(1)}, 0.0, 1.0);
+  }
+
+  vec3 burstDirection(vec3 start, vec3 target, float seed) {
+    vec3 v = start + target + vec3(seed - 0.5, fract(seed * 7.31) - 0.5, fract(seed * 13.7) - 0.5);
+    return v / max(length(v), 0.001);
+  }
+
+  // Position along the transition; p gets the eased progress for the color blend
+  vec3 transitionPosition(vec3 start, vec3 target, float t, float seed, out float p) {
+    int effect = int(uTransitionEffect + 0.5);
+    p = transitionEase(particleTime(effect, t, seed, target.x));
+    vec3 pos = mix(start, target, p);
+    float arc = sin(3.14159265 * p);
+
+    if (effect == 1) {
+      pos += burstDirection(start, target, seed) * arc * ${EXPLODE_DISTANCE.toFixed(1)} * (0.5 + seed);
+    } else if (effect == 2) {
+      float angle = arc * ${VORTEX_ANGLE.toFixed(6)} * (0.75 + 0.5 * seed);
+      float c = cos(angle);
+      float s = sin(angle);
+      pos.xy = vec2(pos.x * c - pos.y * s, pos.x * s + pos.y * c) * (1.0 - 0.5 * arc);
+    } else if (effect == 5) {
+      float squeeze = abs(1.0 - 2.0 * p);
+      pos = pos * squeeze + burstDirection(start, target, seed) * (1.0 - squeeze) * ${IMPLODE_CORE.toFixed(1)} * seed;
+    }
+    return pos;
+  }
+`;
@@ -0,0 +1,43 @@
+// Which part of the app a window shows, from the URL hash:
+//   #/display  – particles only, follows a controller (projector)
+//   #/control  – control panel only (operator laptop)
+//   anything else – both, as a single window
+// A relay for other machines is given as ?relay=ws://host:8787/show, and the
+// controller adds the key the relay prints as &relayKey=...
+
+export type ViewMode = 'combined' | 'display' | 'control';
+
+export const getViewMode = (hash = window.location.hash): ViewMode => {
+  const route = hash.replace(/^#\/?/, '').split(/[/?]/)[0];
+  if (route === 'display') return 'display';
+  if (route === 'control') return 'control';
+  return 'combined';
+};
+
+export const getRelayUrl = (search = window.location.search): string | null =>
+  new URLSearchParams(search).get('relay') || null;
+
+export const getRelayKey = (search = window.location.search): string | null =>
+  new URLSearchParams(search).get('relayKey') || null;
+
+// Same page and query (keeps ?relay=), different route. Displays don't get the controller's key
+export const getViewUrl = (mode: ViewMode): string => {
+  const params = new URLSearchParams(window.location.search);
+  if (mode === 'display') params.delete('relayKey');
+  const search = params.toString();
+  return `${window.location.pathname}${search ? `?${search}` : ''}${mode === 'combined' ? '' : `#/${mode}`}`;
+};
+
+// The relay also serves the phone remote: ws://host:8787/show -> http://host:8787/remote
+export const getRemoteUrl = (relayUrl: string): string | null => {
+  try {
+    const url = new URL(relayUrl);
+    const room = decodeURIComponent(url.pathname.replace(/^\/+/, ''));
+    url.protocol = url.protocol === 'wss:' ? 'https:' : 'http:';
+    url.pathname = '/remote';
+    url.search = room && room !== 'show' ? `?room=${encodeURIComponent(room)}` : '';
+    return url.toString();
+  } catch {
+    return null;
+  }
+};
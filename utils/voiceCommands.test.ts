@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { parseVoiceCommand, VOICE_COMMAND_ACTIONS, TranscriptLine } from './voiceCommands';
+
+describe('voice commands', () => {
+  it('parses tool arguments, tolerating case and spacing', () => {
+    expect(parseVoiceCommand({ command: 'NEXT' })).toBe('NEXT');
+    expect(parseVoiceCommand({ command: 'start countdown' })).toBe('START_COUNTDOWN');
+    expect(parseVoiceCommand({ command: 'Start-Countdown' })).toBe('START_COUNTDOWN');
+    expect(parseVoiceCommand({ command: 'dance' })).toBeNull();
+    expect(parseVoiceCommand({ command: 3 })).toBeNull();
+    expect(parseVoiceCommand(undefined)).toBeNull();
+  });
+
+  it('maps onto the actions the matching gestures send', () => {
+    expect(VOICE_COMMAND_ACTIONS.BACK).toBe('PREVIOUS');
+    expect(VOICE_COMMAND_ACTIONS.START_COUNTDOWN).toBe('TRIGGER');
+    expect(VOICE_COMMAND_ACTIONS.FIREWORKS).toBe('FIREWORKS');
+  });
+});
+
+describe('TranscriptLine', () => {
+  it('joins fragments until the speaker pauses', () => {
+    const line = new TranscriptLine();
+    expect(line.append(' start', 0)).toBe('start');
+    expect(line.append(' the  countdown', 400)).toBe('start the countdown');
+    expect(line.append(' fireworks', 3000)).toBe('fireworks');
+  });
+
+  it('keeps only the tail of long speech', () => {
+    const line = new TranscriptLine();
+    let text = '';
+    for (let i = 0; i < 40; i++) text = line.append(` word${i}`, i * 100);
+    expect(text.length).toBeLessThanOrEqual(80);
+    expect(text.startsWith('…')).toBe(true);
+    expect(text.endsWith('word39')).toBe(true);
+  });
+});
@@ -0,0 +1,64 @@
+import { GestureAction, VoiceCommand } from '../types';
+
+// Spoken show commands. Gemini Live listens to the microphone and calls the
+// voiceCommand tool when the operator says one; each maps onto the action the
+// matching gesture would send, so voice follows the same rules (pause,
+// gesture-only stages) as the hand.
+
+export const VOICE_COMMANDS: VoiceCommand[] = ['NEXT', 'BACK', 'RESET', 'START_COUNTDOWN', 'FIREWORKS'];
+
+// "Start countdown" is the open-then-fist trigger: it advances a stage waiting for a gesture
+export const VOICE_COMMAND_ACTIONS: Record<VoiceCommand, GestureAction> = {
+  NEXT: 'NEXT',
+  BACK: 'PREVIOUS',
+  RESET: 'RESET',
+  START_COUNTDOWN: 'TRIGGER',
+  FIREWORKS: 'FIREWORKS',
+};
+
+export interface VoiceSettings {
+  enabled: boolean;    // Microphone streams to the sensor
+  pushToTalk: boolean; // Only while the talk button is held
+}
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  enabled: false,
+  pushToTalk: false,
+};
+
+/**
+ * voiceCommand tool arguments as a command, or null if the model named
+ * something else. Tolerates case and spaces ("start countdown")
+ */
+export const parseVoiceCommand = (args: unknown): VoiceCommand | null => {
+  const { command } = (args ?? {}) as Record<string, unknown>;
+  if (typeof command !== 'string') return null;
+  const name = command.trim().toUpperCase().replace(/[\s-]+/g, '_');
+  return VOICE_COMMANDS.includes(name as VoiceCommand) ? (name as VoiceCommand) : null;
+};
+
+/**
+ * The panel's transcript line. Live transcription arrives in fragments;
+ * they join into one line until the operator pauses, then a new line starts.
+ * Only the tail is kept
+ */
+export class TranscriptLine {
+  private text = '';
+  private lastAt = -Infinity;
+
+  private static readonly PAUSE_MS = 1500;
+  private static readonly MAX_LENGTH = 80;
+
+  public append(fragment: string, now: number): string {
+    const joined = now - this.lastAt > TranscriptLine.PAUSE_MS ? fragment.trimStart() : this.text + fragment;
+    this.lastAt = now;
+    this.text = joined.replace(/\s+/g, ' ');
+    if (this.text.length > TranscriptLine.MAX_LENGTH) this.text = `…${this.text.slice(-(TranscriptLine.MAX_LENGTH - 1)).trimStart()}`;
+    return this.text;
+  }
+
+  public clear() {
+    this.text = '';
+    this.lastAt = -Infinity;
+  }
+}